@@ -2,6 +2,7 @@
 import CollaborativeRoom from "@/components/CollaborativeRoom";
 import { getDocument } from "@/lib/actions/room.actions";
 import { getClerkUsers } from "@/lib/actions/user.actions";
+import { getUserType } from "@/lib/utils";
 import { currentUser } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
 import { SpeedInsights } from "@vercel/speed-insights/next"
@@ -14,11 +15,8 @@ const Document = async ({ params: { id } }: SearchParamProps) => {
   // If no user is logged in, redirect to the sign-in page
   if (!clerkUser) redirect('/sign-in');
 
-  // Fetch the document (room) details based on the provided room ID and current user's email
-  const room = await getDocument({
-    roomId: id,
-    userId: clerkUser.emailAddresses[0].emailAddress,
-  });
+  // Fetch the document (room) details. The access of the current user is checked on the server.
+  const room = await getDocument({ roomId: id });
 
   // If no room is found, redirect to the homepage
   if (!room) redirect('/');
@@ -32,15 +30,11 @@ const Document = async ({ params: { id } }: SearchParamProps) => {
   // Map the users to include a userType based on their access level in the room
   const usersData = users.map((user: User) => ({
     ...user,
-    userType: room.usersAccesses[user.email]?.includes('room:write')
-      ? 'editor'
-      : 'viewer'
+    userType: getUserType(room.usersAccesses[user.email])
   }));
 
-  // Determine the current user's access level (editor or viewer)
-  const currentUserType = room.usersAccesses[clerkUser.emailAddresses[0].emailAddress]?.includes('room:write')
-    ? 'editor'
-    : 'viewer';
+  // Determine the current user's access level (editor, commenter or viewer)
+  const currentUserType = getUserType(room.usersAccesses[clerkUser.emailAddresses[0].emailAddress]);
 
   // Render the CollaborativeRoom component with the room and user data
   return (
@@ -1,11 +1,23 @@
 // Import necessary components and functions
 import AddDocumentBtn from '@/components/AddDocumentBtn';
+import ImportDocumentBtn from '@/components/ImportDocumentBtn';
+import TemplatePicker from '@/components/TemplatePicker';
 import { DeleteModal } from '@/components/DeleteModal';
+import TrashList from '@/components/TrashList';
+import CreateFolderModal from '@/components/CreateFolderModal';
+import FolderBreadcrumbs from '@/components/FolderBreadcrumbs';
+import MoveModal from '@/components/MoveModal';
+import RenameFolderModal from '@/components/RenameFolderModal';
+import ShareFolderModal from '@/components/ShareFolderModal';
+import SearchBar from '@/components/SearchBar';
+import SearchResults from '@/components/SearchResults';
 import Header from '@/components/Header'
 import Notifications from '@/components/Notifications';
 import { Button } from '@/components/ui/button'
-import { getDocuments } from '@/lib/actions/room.actions';
-import { dateConverter } from '@/lib/utils';
+import { getDocuments, getTrashedDocuments } from '@/lib/actions/room.actions';
+import { searchDocuments } from '@/lib/actions/search.actions';
+import { getFolders } from '@/lib/actions/folder.actions';
+import { cn, dateConverter, getFolderPath, getUserColor, getUserType } from '@/lib/utils';
 import { SignedIn, UserButton } from '@clerk/nextjs'
 import { currentUser } from '@clerk/nextjs/server';
 import Image from 'next/image';
@@ -14,20 +26,60 @@ import { redirect } from 'next/navigation';
 import { SpeedInsights } from "@vercel/speed-insights/next"
 
 //Define the home component as an async function
-const Home = async () => {
+const Home = async ({ searchParams }: SearchParamProps) => {
   // Fetch the current logged-in user using Clerk
   const clerkUser = await currentUser();
 
   // If no user is logged in, redirect to the sign-in page
   if(!clerkUser) redirect('/sign-in');
 
-  // Fetch the documents associated with the current user's email
-  const roomDocuments = await getDocuments(clerkUser.emailAddresses[0].emailAddress);
+  const email = clerkUser.emailAddresses[0].emailAddress;
+
+  // The current user, as shown to the people they share folders with
+  const user: User = {
+    id: clerkUser.id,
+    name: `${clerkUser.firstName} ${clerkUser.lastName}`,
+    email,
+    avatar: clerkUser.imageUrl,
+    color: getUserColor(clerkUser.id),
+  };
+
+  // The library shows either the documents or the trash, depending on the `view` search param
+  const isTrashView = searchParams.view === 'trash';
+
+  // A search query replaces the library with the search results
+  const query = typeof searchParams.q === 'string' ? searchParams.q.trim() : '';
+
+  // Fetch the documents the current user has access to
+  const roomDocuments = await getDocuments();
+
+  // Fetch the folders the user has access to, and find the folder being browsed, if any
+  const folders: Folder[] = await getFolders();
+  const currentFolder = folders.find(({ id }) => id === searchParams.folder);
+  const folderId = currentFolder?.id ?? null;
+  const folderPath = getFolderPath(folders, folderId);
+
+  // Show the items filed directly in the current folder. At the top of the library, items filed
+  // in folders the user cannot see are shown too, since there is no other way to reach them.
+  const isInCurrentFolder = (parentId?: string | null) =>
+    folderId ? parentId === folderId : !parentId || !folders.some(({ id }) => id === parentId);
+  const subfolders = folders.filter(({ parentId }) => isInCurrentFolder(parentId));
+  const documents = roomDocuments.data.filter(({ metadata }: any) => isInCurrentFolder(metadata.folderId));
+
+  // Only editors of a folder can add folders and documents to it
+  const canAddHere = !currentFolder || currentFolder.usersAccesses[email] === 'editor';
+
+  // Fetch the documents in the trash only when the trash is displayed
+  const trashedDocuments = isTrashView ? await getTrashedDocuments() : [];
+
+  // Search the titles and the content of the documents only when there is a query
+  const searchResults = query ? await searchDocuments({ query }) : [];
 
   return (
     <main className="home-container">
       {/* Render the header with notifications and user button */}
       <Header className="sticky left-0 top-0">
+        <SearchBar />
         <div className="flex items-center gap-2 lg:gap-4">
           <Notifications />
           <SignedIn>
@@ -36,20 +88,80 @@ const Home = async () => {
         </div>
       </Header>
 
-       {/* Check if there are any documents */}
-      {roomDocuments.data.length > 0 ? (
+      {/* Render the tabs to switch between the documents and the trash */}
+      <nav className="library-tabs">
+        <Link href="/" className={cn('library-tab', !isTrashView && 'library-tab-active')}>Documents</Link>
+        <Link href="/?view=trash" className={cn('library-tab', isTrashView && 'library-tab-active')}>Trash</Link>
+      </nav>
+
+      {query ? (
+        <div className="document-list-container">
+          <div className="document-list-title">
+            <h3 className="text-28-semibold">Search results</h3>
+          </div>
+
+          {/* Render the documents whose title or content match the query */}
+          <SearchResults query={query} results={searchResults} />
+        </div>
+      ) : isTrashView ? (
+        <div className="document-list-container">
+          <div className="document-list-title">
+            <h3 className="text-28-semibold">Trash</h3>
+          </div>
+
+          {/* Render the list of trashed documents */}
+          <TrashList documents={trashedDocuments ?? []} />
+        </div>
+      ) : folderId || subfolders.length > 0 || documents.length > 0 ? (
         <div className="document-list-container">
+          {/* Render the path to the current folder */}
+          {folderId && <FolderBreadcrumbs path={folderPath} />}
+
           <div className="document-list-title">
-            <h3 className="text-28-semibold">Full Document Library</h3>
-            <AddDocumentBtn 
-              userId={clerkUser.id}
-              email={clerkUser.emailAddresses[0].emailAddress}
-            />
+            <h3 className="text-28-semibold">{currentFolder?.name ?? 'Full Document Library'}</h3>
+            <div className="flex items-center gap-2">
+              {currentFolder && <ShareFolderModal folder={currentFolder} user={user} />}
+              {canAddHere && (
+                <>
+                  <CreateFolderModal parentId={folderId} />
+                  <ImportDocumentBtn folderId={folderId ?? undefined} />
+                  <TemplatePicker 
+                    email={email}
+                    folderId={folderId ?? undefined}
+                  />
+                  <AddDocumentBtn folderId={folderId ?? undefined} />
+                </>
+              )}
+            </div>
           </div>
 
-           {/* Render the list of documents */}
+           {/* Render the folders, then the documents, of the current folder */}
           <ul className="document-ul">
-            {roomDocuments.data.map(({ id, metadata, createdAt }: any) => (
+            {subfolders.map((folder) => (
+              <li key={folder.id} className="document-list-item">
+                <Link href={`/?folder=${folder.id}`} className="flex flex-1 items-center gap-4">
+                  <div className="hidden rounded-md bg-dark-500 p-2 sm:block">
+                    <Image 
+                      src="/assets/icons/journal-text.svg"
+                      alt="folder"
+                      width={40}
+                      height={40}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <p className="line-clamp-1 text-lg">{folder.name}</p>
+                    <p className="text-sm font-light text-blue-100">Folder created {dateConverter(folder.createdAt)}</p>
+                  </div>
+                </Link>
+                {folder.usersAccesses[email] === 'editor' && (
+                  <div className="flex items-center gap-1">
+                    <MoveModal itemType="folder" itemId={folder.id} folders={folders} currentFolderId={folderId} email={email} />
+                    <RenameFolderModal folder={folder} />
+                  </div>
+                )}
+              </li>
+            ))}
+            {documents.map(({ id, metadata, createdAt, usersAccesses }: any) => (
               <li key={id} className="document-list-item">
                 <Link href={`/documents/${id}`} className="flex flex-1 items-center gap-4">
                   <div className="hidden rounded-md bg-dark-500 p-2 sm:block">
@@ -65,10 +177,21 @@ const Home = async () => {
                     <p className="text-sm font-light text-blue-100">Development Story About {dateConverter(createdAt)}</p>
                   </div>
                 </Link>
-                <DeleteModal roomId={id} />
+                <div className="flex items-center gap-1">
+                  {getUserType(usersAccesses[email]) === 'editor' && (
+                    <>
+                      <MoveModal itemType="document" itemId={id} folders={folders} currentFolderId={folderId} email={email} />
+                      <DeleteModal roomId={id} />
+                    </>
+                  )}
+                </div>
               </li>
             ))}
           </ul>
+
+          {subfolders.length === 0 && documents.length === 0 && (
+            <p className="text-center text-blue-100">This folder is empty.</p>
+          )}
         </div>
       ): (
         // Render a message and button if no documents are found
@@ -81,10 +204,12 @@ const Home = async () => {
             className="mx-auto"
           />
 
-          <AddDocumentBtn 
-            userId={clerkUser.id}
-            email={clerkUser.emailAddresses[0].emailAddress}
-          />
+          <div className="flex items-center gap-2">
+            <CreateFolderModal parentId={null} />
+            <ImportDocumentBtn />
+            <TemplatePicker email={email} />
+            <AddDocumentBtn />
+          </div>
         </div>
       )}
     </main>
@@ -0,0 +1,55 @@
+// Import necessary modules and components
+import Header from "@/components/Header";
+import ShareLinkPasswordForm from "@/components/ShareLinkPasswordForm";
+import { getValidShareLink, grantShareLinkAccess } from "@/lib/share-links";
+import { currentUser } from "@clerk/nextjs/server";
+import Image from "next/image";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+// Define the SharedDocument component as an async function.
+// This is the page an "Anyone with the link" URL points to.
+const SharedDocument = async ({ params: { id, token } }: SearchParamProps) => {
+  // Fetch the current logged-in user using Clerk
+  const clerkUser = await currentUser();
+
+  // Link visitors must sign in first, and come back to the link afterwards
+  if (!clerkUser) redirect(`/sign-in?redirect_url=${encodeURIComponent(`/share/${id}/${token}`)}`);
+
+  // Check that the link still exists, has not expired and points to a document that can be opened
+  const link = await getValidShareLink(id, token);
+
+  if (!link) {
+    return (
+      <main className="home-container">
+        <Header className="sticky left-0 top-0"><div /></Header>
+        <div className="document-list-empty">
+          <Image src="/assets/icons/doc.svg" alt="Document" width={40} height={40} className="mx-auto" />
+          <p className="text-blue-100">This link is no longer valid. Ask the owner of the document for a new one.</p>
+          <Link href="/" className="text-blue-100 underline">Go to your documents</Link>
+        </div>
+      </main>
+    );
+  }
+
+  // Links without a password add the visitor to the collaborators right away
+  if (!link.passwordHash) {
+    await grantShareLinkAccess(link, clerkUser.emailAddresses[0].emailAddress);
+    redirect(`/documents/${id}`);
+  }
+
+  // Otherwise the visitor has to type the password first
+  return (
+    <main className="home-container">
+      <Header className="sticky left-0 top-0"><div /></Header>
+      <div className="document-list-empty">
+        <Image src="/assets/icons/doc.svg" alt="Document" width={40} height={40} className="mx-auto" />
+        <p className="text-blue-100">This document is password protected.</p>
+        <ShareLinkPasswordForm roomId={id} token={token} />
+      </div>
+    </main>
+  );
+}
+
+// Export the SharedDocument component as the default export of this module
+export default SharedDocument;
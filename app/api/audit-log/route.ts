@@ -0,0 +1,39 @@
+import { readAuditLog, serializeAuditLog } from "@/lib/audit";
+import { AUTHORIZATION_ERROR_STATUSES, AuthorizationError, authorizeRoom } from "@/lib/authorization";
+import { getExportFileName } from "@/lib/export";
+
+const CONTENT_TYPES: Record<AuditExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv; charset=utf-8',
+};
+
+/**
+ * Downloads the audit log of a document as a JSON or CSV file, e.g. /api/audit-log?roomId=...&format=csv.
+ * Only the owner of the document can export it.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const roomId = searchParams.get('roomId') ?? '';
+  const format: AuditExportFormat = searchParams.get('format') === 'csv' ? 'csv' : 'json';
+
+  try {
+    const { room } = await authorizeRoom(roomId, 'creator');
+
+    const events = await readAuditLog(roomId);
+    const fileName = getExportFileName(`${room.metadata.title || 'Untitled'} – activity`, format);
+
+    return new Response(serializeAuditLog(events, format), {
+      status: 200,
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return new Response(error.message, { status: AUTHORIZATION_ERROR_STATUSES[error.code] });
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { createTestRoom, getTestRoom, liveblocks } from '@/test/fakes';
+import { GET } from './route';
+
+const CRON_SECRET = 'cron-secret';
+
+const purgeTrash = (authorization?: string) => GET(new Request('http://localhost/api/cron/purge-trash', {
+  headers: authorization ? { authorization } : {},
+}));
+
+describe('GET /api/cron/purge-trash', () => {
+  beforeEach(() => {
+    process.env.CRON_SECRET = CRON_SECRET;
+    createTestRoom('expired', { trashed: 'true', trashedAt: '2000-01-01T00:00:00.000Z' });
+  });
+
+  afterEach(() => {
+    delete process.env.CRON_SECRET;
+  });
+
+  it('purges the expired documents of the trash for the scheduler', async () => {
+    const response = await purgeTrash(`Bearer ${CRON_SECRET}`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ purged: 1 });
+    expect(getTestRoom('expired')).toBeUndefined();
+  });
+
+  it.each([
+    ['without a bearer token', undefined],
+    ['with a wrong token', 'Bearer wrong-secret'],
+    ['with the secret outside of a bearer token', CRON_SECRET],
+  ])('returns 401 %s', async (_case, authorization) => {
+    expect((await purgeTrash(authorization)).status).toBe(401);
+    expect(liveblocks.deleteRoom).not.toHaveBeenCalled();
+  });
+
+  it('returns 401 to everyone when no secret is configured', async () => {
+    delete process.env.CRON_SECRET;
+
+    expect((await purgeTrash('Bearer undefined')).status).toBe(401);
+    expect((await purgeTrash('Bearer ')).status).toBe(401);
+    expect(liveblocks.deleteRoom).not.toHaveBeenCalled();
+  });
+});
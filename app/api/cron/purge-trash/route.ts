@@ -0,0 +1,16 @@
+import { purgeExpiredTrash } from "@/lib/trash";
+
+// The purge touches the server-side store on disk, so this route must run on the Node.js runtime.
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Called once a day by the scheduler to delete the documents that have been in the trash for too long.
+export async function GET(request: Request) {
+  if(!process.env.CRON_SECRET || request.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const purgedRoomIds = await purgeExpiredTrash();
+
+  return Response.json({ purged: purgedRoomIds.length });
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+
+import { createTestRoom, signInAs, TEST_CONTENT } from '@/test/fakes';
+import { POST } from './route';
+
+const exportPdf = (body: unknown) => POST(new Request('http://localhost/api/export-pdf', {
+  method: 'POST',
+  body: typeof body === 'string' ? body : JSON.stringify(body),
+}));
+
+describe('POST /api/export-pdf', () => {
+  it('renders the document as a PDF named after its title', async () => {
+    const roomId = createTestRoom();
+    signInAs('viewer');
+
+    const response = await exportPdf({ roomId, content: TEST_CONTENT });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/pdf');
+    expect(response.headers.get('Content-Disposition')).toContain('Project%20plan.pdf');
+    expect(Buffer.from(await response.arrayBuffer()).subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it.each([
+    ['a body that is not JSON', 'not json'],
+    ['a missing document', { content: TEST_CONTENT }],
+    ['a missing content', { roomId: 'room-1' }],
+    ['a content that is not a string', { roomId: 'room-1', content: { root: {} } }],
+    ['a content that is not JSON', { roomId: 'room-1', content: '{"root":' }],
+    ['a content that is not a serialized editor state', { roomId: 'room-1', content: '{"root":{"type":"root"}}' }],
+    ['a null content', { roomId: 'room-1', content: 'null' }],
+  ])('rejects %s with a 400', async (_case, body) => {
+    createTestRoom();
+    signInAs('viewer');
+
+    expect((await exportPdf(body)).status).toBe(400);
+  });
+
+  it('is denied when nobody is signed in', async () => {
+    const roomId = createTestRoom();
+
+    expect((await exportPdf({ roomId, content: TEST_CONTENT })).status).toBe(401);
+  });
+
+  it('is not found for a user without access and for a trashed document', async () => {
+    const roomId = createTestRoom();
+    createTestRoom('room-2', { trashed: 'true' });
+    signInAs('stranger');
+
+    expect((await exportPdf({ roomId, content: TEST_CONTENT })).status).toBe(404);
+
+    signInAs('viewer');
+
+    expect((await exportPdf({ roomId: 'room-2', content: TEST_CONTENT })).status).toBe(404);
+  });
+});
@@ -0,0 +1,57 @@
+import { assertRoomNotTrashed, AUTHORIZATION_ERROR_STATUSES, AuthorizationError, authorizeRoom } from "@/lib/authorization";
+import { getExportFileName } from "@/lib/export";
+import { readDocumentImages } from "@/lib/images";
+import { renderPdf } from "@/lib/pdf";
+import { SerializedEditorState } from "lexical";
+
+// pdfkit reads its font metrics from disk, so this route must run on the Node.js runtime.
+export const runtime = 'nodejs';
+
+/**
+ * Renders the content of a document as a PDF file. Every user with access to the document can export it,
+ * but documents in the trash cannot be opened, so they cannot be exported either.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { roomId, content } = body ?? {};
+
+    if (typeof roomId !== 'string' || typeof content !== 'string') {
+      return new Response('A document and its content are required', { status: 400 });
+    }
+
+    const { room } = await authorizeRoom(roomId, 'viewer');
+    assertRoomNotTrashed(room);
+
+    let state: SerializedEditorState;
+
+    try {
+      state = JSON.parse(content);
+    } catch {
+      return new Response('The content of the document is not valid JSON', { status: 400 });
+    }
+
+    if (!Array.isArray(state?.root?.children)) {
+      return new Response('The content of the document is not a serialized editor state', { status: 400 });
+    }
+
+    const title = (room.metadata.title as string) || 'Untitled';
+    // The images uploaded to the document are embedded, they cannot be loaded by the PDF reader.
+    const images = await readDocumentImages(roomId, state);
+    const pdf = await renderPdf(state, title, images);
+
+    return new Response(pdf, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(getExportFileName(title, 'pdf'))}`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return new Response(error.message, { status: AUTHORIZATION_ERROR_STATUSES[error.code] });
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+
+import { saveImage } from '@/lib/images';
+import { createTestRoom, getTestRoom, signInAs } from '@/test/fakes';
+import { GET } from './route';
+
+const getImage = (roomId: string, imageId: string, headers: HeadersInit = {}) =>
+  GET(new Request(`http://localhost/api/images/${roomId}/${imageId}`, { headers }), { params: { roomId, imageId } });
+
+// Uploads an image to a room, and returns its ID.
+const uploadImage = async (roomId: string) => {
+  const url = await saveImage(roomId, new File([new Uint8Array(16)], 'image.png', { type: 'image/png' }));
+
+  return url.slice(url.lastIndexOf('/') + 1);
+};
+
+describe('GET /api/images/[roomId]/[imageId]', () => {
+  it('serves the image to the collaborators of the document', async () => {
+    const roomId = createTestRoom();
+    const imageId = await uploadImage(roomId);
+    signInAs('viewer');
+
+    const response = await getImage(roomId, imageId);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('image/png');
+    expect(response.headers.get('ETag')).toBe(`"${imageId}"`);
+    expect((await getImage(roomId, imageId, { 'If-None-Match': `"${imageId}"` })).status).toBe(304);
+  });
+
+  it('is not found for an image that does not exist', async () => {
+    const roomId = createTestRoom();
+    signInAs('viewer');
+
+    expect((await getImage(roomId, 'missing.png')).status).toBe(404);
+  });
+
+  it('is denied when nobody is signed in, and not found without access', async () => {
+    const roomId = createTestRoom();
+    const imageId = await uploadImage(roomId);
+
+    expect((await getImage(roomId, imageId)).status).toBe(401);
+
+    signInAs('stranger');
+
+    expect((await getImage(roomId, imageId)).status).toBe(404);
+  });
+
+  it('is not found while the document is in the trash, even when the image is cached', async () => {
+    const roomId = createTestRoom();
+    const imageId = await uploadImage(roomId);
+    getTestRoom(roomId)!.metadata.trashed = 'true';
+    signInAs('viewer');
+
+    expect((await getImage(roomId, imageId)).status).toBe(404);
+    expect((await getImage(roomId, imageId, { 'If-None-Match': `"${imageId}"` })).status).toBe(404);
+  });
+});
@@ -0,0 +1,43 @@
+import { assertRoomNotTrashed, AUTHORIZATION_ERROR_STATUSES, AuthorizationError, authorizeRoom } from "@/lib/authorization";
+import { readImage } from "@/lib/images";
+
+// Images are read from the storage backend, which may use the file system.
+export const runtime = 'nodejs';
+
+/**
+ * Serves an image of a document, e.g. /api/images/<roomId>/<imageId>.
+ * Like the document itself, the image can only be seen by the users listed in the `usersAccesses` of the room,
+ * and not while the document is in the trash.
+ */
+export async function GET(request: Request, { params: { roomId, imageId } }: { params: { roomId: string, imageId: string } }) {
+  try {
+    const { room } = await authorizeRoom(roomId, 'viewer');
+    assertRoomNotTrashed(room);
+
+    // Images never change once uploaded, so their ID is their version.
+    const etag = `"${imageId}"`;
+
+    if (request.headers.get('If-None-Match') === etag) return new Response(null, { status: 304 });
+
+    const image = await readImage(roomId, imageId);
+
+    if (!image) return new Response('This image does not exist', { status: 404 });
+
+    return new Response(image.data, {
+      status: 200,
+      headers: {
+        'Content-Type': image.contentType,
+        // Browsers revalidate the image on every use, so users who lose access to the document stop seeing it.
+        'Cache-Control': 'private, no-cache',
+        'ETag': etag,
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return new Response(error.message, { status: AUTHORIZATION_ERROR_STATUSES[error.code] });
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,37 @@
+import { AUTHORIZATION_ERROR_STATUSES, AuthorizationError, authorizeRoom } from "@/lib/authorization";
+import { InvalidImageError, saveImage } from "@/lib/images";
+
+// Images are written to the storage backend, which may use the file system.
+export const runtime = 'nodejs';
+
+/**
+ * Uploads an image to a document. The request is a form with the `roomId` of the document and the image as `file`.
+ * Only editors of the document can upload images. Responds with the URL of the image, e.g. { src: "/api/images/..." }.
+ */
+export async function POST(request: Request) {
+  const formData = await request.formData();
+  const roomId = formData.get('roomId');
+  const file = formData.get('file');
+
+  if (typeof roomId !== 'string' || !(file instanceof File)) {
+    return new Response('An image and a document are required', { status: 400 });
+  }
+
+  try {
+    await authorizeRoom(roomId, 'editor');
+
+    const src = await saveImage(roomId, file);
+
+    return Response.json({ src });
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return new Response(error.message, { status: AUTHORIZATION_ERROR_STATUSES[error.code] });
+    }
+
+    if (error instanceof InvalidImageError) {
+      return new Response(error.message, { status: 400 });
+    }
+
+    throw error;
+  }
+}
@@ -1,29 +1,143 @@
-import { useOthers } from '@liveblocks/react/suspense'
+import { useOthers, useUpdateMyPresence } from '@liveblocks/react/suspense'
+import { LocateFixed } from 'lucide-react';
 import Image from 'next/image';
+import { useEffect } from 'react';
+
+import { recordLastSeen } from '@/lib/actions/presence.actions';
+import { cn, IDLE_AFTER_MINUTES, PRESENCE_STATUS_LABELS } from '@/lib/utils';
+import { $resolveCursorPoint } from './editor/utils';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+
+// The number of users shown as avatars in the header. When there are more, the last avatar makes
+// room for a button that lists the other users in a popover.
+const MAX_VISIBLE_COLLABORATORS = 5;
+
+// How often the room records that the current user is still in it, for the "last seen" dates of the ShareModal.
+// Joining and leaving are recorded right away, so the interval only matters when a tab is closed abruptly: every few minutes is enough.
+const LAST_SEEN_INTERVAL_MS = 5 * 60_000;
+
+// The events that show the current user is using the page.
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+// The color of the status dot on the avatar of a user.
+const STATUS_DOT_CLASSES: Record<PresenceStatus, string> = {
+  active: 'bg-green-500',
+  idle: 'bg-yellow-400',
+  viewing: 'bg-blue-400',
+};
 
 /**
  * A component that renders a list of all the other users in the current room,
- * along with their avatar and name.
+ * along with their avatar and a dot with their presence status: active, idle or viewing only.
+ * When there are more than five other users, the first ones are shown and the others
+ * are listed in a popover, with their name and status.
+ *
+ * Clicking the avatar of a user follows them: the editor scrolls along with them, see FollowPlugin.
+ * Clicking the avatar of the followed user again stops following them. The locate button next to the
+ * avatar jumps to the cursor of the user once, as shared in their presence, without following them.
+ *
+ * The component also shares the status of the current user through their presence. They are idle once
+ * they have not used the page for IDLE_AFTER_MINUTES, or while the page is hidden, and viewing only
+ * while they are active without edit access. It is recorded on the server when they join and leave the room,
+ * and every LAST_SEEN_INTERVAL_MS while they stay, for the "last seen" dates of the collaborators who are not online.
  *
+ * @param {ActiveCollaboratorsProps} props - The room ID, the type of the current user, the ref of the editor of the document, the connection ID of the followed user, and the setter to change it.
  * @returns A list of active collaborators in the current room.
  */
-const ActiveCollaborators = () => {
+const ActiveCollaborators = ({ roomId, currentUserType, editorRef, followingId, onFollowingChange }: ActiveCollaboratorsProps) => {
   /**
    * Get the list of all other users in the room (excluding the current user).
    * This is done by calling the useOthers hook from the useLiveblocks library.
    */
   const others = useOthers();
+  const updateMyPresence = useUpdateMyPresence();
+
+  // Publish the status of the current user whenever it changes.
+  useEffect(() => {
+    const activeStatus: PresenceStatus = currentUserType === 'editor' ? 'active' : 'viewing';
+    let status: PresenceStatus | null = null;
+    let idleTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    const setStatus = (nextStatus: PresenceStatus) => {
+      if (nextStatus === status) return;
+
+      status = nextStatus;
+      updateMyPresence({ status });
+    };
+
+    const onActivity = () => {
+      clearTimeout(idleTimeout);
+
+      if (document.hidden) return setStatus('idle');
+
+      setStatus(activeStatus);
+      idleTimeout = setTimeout(() => setStatus('idle'), IDLE_AFTER_MINUTES * 60_000);
+    };
+
+    ACTIVITY_EVENTS.forEach((type) => document.addEventListener(type, onActivity, { passive: true }));
+    document.addEventListener('visibilitychange', onActivity);
+    onActivity();
+
+    return () => {
+      clearTimeout(idleTimeout);
+      ACTIVITY_EVENTS.forEach((type) => document.removeEventListener(type, onActivity));
+      document.removeEventListener('visibilitychange', onActivity);
+    };
+  }, [currentUserType, updateMyPresence]);
+
+  // Record that the current user is in the room when they join, while they stay, and when they leave.
+  useEffect(() => {
+    recordLastSeen({ roomId });
+
+    // Background tabs are not "in" the room, so they are not recorded until the user comes back or leaves.
+    const interval = setInterval(() => {
+      if (!document.hidden) recordLastSeen({ roomId });
+    }, LAST_SEEN_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      recordLastSeen({ roomId });
+    };
+  }, [roomId]);
 
   /**
-   * Create a new array containing the user information for each of the other
-   * users in the room.
+   * Create a new array containing the user information and the status of each
+   * of the other users in the room.
    */
-  const collaborators = others.map((other) => other.info);
+  const collaborators = others.map((other) => ({
+    ...other.info,
+    connectionId: other.connectionId,
+    status: other.presence.status,
+    cursor: other.presence.cursor,
+  }));
+
+  const hasOverflow = collaborators.length > MAX_VISIBLE_COLLABORATORS;
+  const visibleCollaborators = hasOverflow ? collaborators.slice(0, MAX_VISIBLE_COLLABORATORS - 1) : collaborators;
+  const overflowCollaborators = collaborators.slice(visibleCollaborators.length);
+
+  const followHandler = (connectionId: number) => {
+    onFollowingChange(followingId === connectionId ? null : connectionId);
+  }
+
+  // Scroll to the block of the cursor of a user, if they have one in the document.
+  const jumpToCursor = (cursor: CursorPresence | null) => {
+    const editor = editorRef.current;
+    if (!editor || !cursor) return;
 
-  /** 
+    const element = editor.getEditorState().read(() => {
+      const focus = $resolveCursorPoint(cursor.focus);
+
+      return focus ? editor.getElementByKey(focus.node.getKey()) : null;
+    });
+
+    element?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }
+
+  /**
    * Return a list of items, each representing one of the other users in the
    * room. Each item contains an image element displaying their avatar, with
-   * the name of the user as the alt text for accessibility.
+   * the name of the user as the alt text for accessibility, and a dot in
+   * the color of their status.
    *
    * Note that the image element is given a size of 100x100 pixels, and a
    * rounded-full class to make it appear as a circle. The image element is
@@ -34,21 +148,83 @@ const ActiveCollaborators = () => {
    */
   return (
     <ul className="collaborators-list">
-      {collaborators.map(({ id, avatar, name, color }) => (
-        <li key={id}>
-          <Image 
-            src={avatar}
-            alt={name}
-            width={100}
-            height={100}
-            className='inline-block size-8 rounded-full ring-2 ring-dark-100'
-            style={{border: `3px solid ${color}`}}
-          />
+      {visibleCollaborators.map(({ avatar, name, color, connectionId, status, cursor }) => (
+        <li key={connectionId} className="relative">
+          <button
+            type="button"
+            onClick={() => followHandler(connectionId)}
+            title={`${name} · ${PRESENCE_STATUS_LABELS[status]}${followingId === connectionId ? ' · Following' : ''}`}
+            aria-pressed={followingId === connectionId}
+            className={cn('block rounded-full', followingId === connectionId && 'relative z-10 scale-110')}
+          >
+            <Image
+              src={avatar}
+              alt={name}
+              width={100}
+              height={100}
+              className='inline-block size-8 rounded-full ring-2 ring-dark-100'
+              style={{border: `3px solid ${color}`}}
+            />
+            <span className={cn('presence-dot', STATUS_DOT_CLASSES[status])} />
+          </button>
+          {cursor && (
+            <button
+              type="button"
+              onClick={() => jumpToCursor(cursor)}
+              title={`Jump to ${name}`}
+              aria-label={`Jump to ${name}`}
+              className="cursor-jump"
+            >
+              <LocateFixed className="size-2.5" />
+            </button>
+          )}
         </li>
       ))}
+
+      {hasOverflow && (
+        <li>
+          <Popover>
+            <PopoverTrigger className="collaborators-overflow" aria-label={`${overflowCollaborators.length} more people`}>
+              +{overflowCollaborators.length}
+            </PopoverTrigger>
+            <PopoverContent align="end" className="collaborators-popover">
+              {overflowCollaborators.map(({ avatar, name, connectionId, status, cursor }) => (
+                <div key={connectionId} className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => followHandler(connectionId)}
+                    aria-pressed={followingId === connectionId}
+                    className="collaborators-popover-item"
+                  >
+                    <span className="relative shrink-0">
+                      <Image src={avatar} alt={name} width={24} height={24} className="size-6 rounded-full" />
+                      <span className={cn('presence-dot', STATUS_DOT_CLASSES[status])} />
+                    </span>
+                    <span className="line-clamp-1 flex-1 text-sm text-white">{name}</span>
+                    <span className="text-xs text-blue-100">
+                      {followingId === connectionId ? 'Following' : PRESENCE_STATUS_LABELS[status]}
+                    </span>
+                  </button>
+                  {cursor && (
+                    <button
+                      type="button"
+                      onClick={() => jumpToCursor(cursor)}
+                      title={`Jump to ${name}`}
+                      aria-label={`Jump to ${name}`}
+                      className="rounded-md p-1.5 text-blue-100 hover:bg-dark-300"
+                    >
+                      <LocateFixed className="size-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </PopoverContent>
+          </Popover>
+        </li>
+      )}
     </ul>
   )
 }
 
 
-export default ActiveCollaborators
\ No newline at end of file
+export default ActiveCollaborators
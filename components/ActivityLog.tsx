@@ -0,0 +1,98 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { getAuditLog } from '@/lib/actions/audit.actions';
+import { AUDIT_ACTION_LABELS, dateConverter, getAuditEventDescription } from '@/lib/utils';
+import { Input } from './ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+
+// The value of the action filter that shows every event.
+const ALL_ACTIONS = 'all';
+
+/**
+ * The "Activity" tab of the ShareModal, only rendered for the owner of the document.
+ * It lists the audit log of the document, newest first, and can be filtered by action and by person,
+ * matching either the user who performed the action or the collaborator it targeted.
+ * The full log can be downloaded as JSON or CSV through the /api/audit-log route.
+ *
+ * @param {{ roomId: string }} props - The ID of the room.
+ */
+const ActivityLog = ({ roomId }: { roomId: string }) => {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [action, setAction] = useState<AuditAction | typeof ALL_ACTIONS>(ALL_ACTIONS);
+  const [person, setPerson] = useState('');
+
+  useEffect(() => {
+    getAuditLog({ roomId }).then((data) => {
+      if (data) setEvents(data);
+      setLoading(false);
+    });
+  }, [roomId]);
+
+  const personFilter = person.trim().toLowerCase();
+  const filteredEvents = events.filter((event) =>
+    (action === ALL_ACTIONS || event.action === action) &&
+    (!personFilter || [event.actor.name, event.actor.email, event.target].some((value) => value?.toLowerCase().includes(personFilter)))
+  );
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <Select value={action} onValueChange={(value: AuditAction | typeof ALL_ACTIONS) => setAction(value)}>
+          <SelectTrigger className="shad-select flex-1 rounded-md bg-dark-400">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="border-none bg-dark-200">
+            <SelectItem value={ALL_ACTIONS} className="shad-select-item">All activity</SelectItem>
+            {Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value} className="shad-select-item">{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          aria-label="Filter by person"
+          placeholder="Filter by person"
+          value={person}
+          onChange={(e) => setPerson(e.target.value)}
+          className="share-input flex-1 rounded-md bg-dark-400"
+        />
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-blue-100">Loading activity...</p>
+      ) : filteredEvents.length === 0 ? (
+        <p className="text-sm text-blue-100">{events.length === 0 ? 'No activity yet.' : 'No activity matches these filters.'}</p>
+      ) : (
+        <ul className="activity-list">
+          {filteredEvents.map((event) => (
+            <li key={event.id} className="activity-list-item">
+              <p className="text-sm text-white">
+                <span className="font-semibold">{event.actor.name}</span> {getAuditEventDescription(event)}
+              </p>
+              <p className="text-xs text-blue-100">
+                {event.actor.email} · <time dateTime={event.createdAt} title={new Date(event.createdAt).toLocaleString()}>{dateConverter(event.createdAt)}</time>
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-end gap-2 text-sm">
+        <span className="text-blue-100">Export:</span>
+        <a href={`/api/audit-log?roomId=${roomId}&format=json`} download className="text-blue-100 underline hover:text-white">JSON</a>
+        <a href={`/api/audit-log?roomId=${roomId}&format=csv`} download className="text-blue-100 underline hover:text-white">CSV</a>
+      </div>
+    </div>
+  )
+}
+
+export default ActivityLog
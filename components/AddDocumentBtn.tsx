@@ -1,17 +1,18 @@
 'use client';
 
 import { createDocument } from '@/lib/actions/room.actions';
+import { isActionError } from '@/lib/utils';
 import { Button } from './ui/button'
 import Image from 'next/image'
 import { useRouter } from 'next/navigation';
 
 /**
  * This component renders a button that allows the user to create a new document.
- * When the button is clicked, it calls the `createDocument` function with the
- * `userId` and `email` props, and then redirects the user to the newly created
- * document's route.
+ * When the button is clicked, it calls the `createDocument` function, which creates
+ * the document for the signed in user, and then redirects the user to the newly
+ * created document's route.
  */
-const AddDocumentBtn = ({ userId, email }: AddDocumentBtnProps) => {
+const AddDocumentBtn = ({ folderId }: AddDocumentBtnProps) => {
   /**
    * Get the `router` object from `next/navigation` so that we can use it to
    * redirect the user to the newly created document.
@@ -26,17 +27,17 @@ const AddDocumentBtn = ({ userId, email }: AddDocumentBtnProps) => {
   const addDocumentHandler = async () => {
     try {
       /**
-       * Call the `createDocument` function with the `userId` and `email` props.
+       * Call the `createDocument` function with the `folderId` prop.
        * This function returns a promise that resolves with the newly created
        * document's metadata.
        */
-      const room = await createDocument({ userId, email });
+      const room = await createDocument({ folderId });
 
       /**
        * If the document was successfully created, redirect the user to the newly
        * created document's route.
        */
-      if(room) router.push(`/documents/${room.id}`);
+      if(room && !isActionError(room)) router.push(`/documents/${room.id}`);
     } catch (error) {
       /**
        * If there was an error creating the document, log the error to the console.
@@ -9,8 +9,12 @@ import { useEffect, useRef, useState } from 'react';
 import { Input } from './ui/input';
 import Image from 'next/image';
 import { updateDocument } from '@/lib/actions/room.actions';
+import { hasRole, isActionError } from '@/lib/utils';
 import Loader from './Loader';
 import ShareModal from './ShareModal';
+import ExportMenu from './ExportMenu';
+import SaveTemplateModal from './SaveTemplateModal';
+import { LexicalEditor } from 'lexical';
 
 /**
  * The CollaborativeRoom component is a React functional component that renders a collaborative room.
@@ -27,14 +31,19 @@ import ShareModal from './ShareModal';
  *
  * The component renders a Header component, which displays the title of the room, a button to edit the title, and a list of collaborators associated with the room.
  * The title is rendered as a paragraph element. If the user is an editor, a button is displayed to edit the title.
- * If the user is not an editor, a "View only" tag is displayed.
- * The list of collaborators is rendered as an ActiveCollaborators component.
+ * If the user is a commenter, a "Comment only" tag is displayed, and viewers get a "View only" tag.
+ * The list of collaborators is rendered as an ActiveCollaborators component, which also shares whether the
+ * current user is active, idle or only viewing the document, and records when they were last in it.
  * The button to edit the title is rendered as an Input component.
  * The Input component is rendered conditionally based on the current user type and the editing state.
  * The Input component has an onChange event handler that updates the documentTitle state.
  * The Input component has an onKeyDown event handler that updates the document title.
  * The Input component has a ref that is used to focus the input field when the editing state is true.
  *
+ * The component also renders an ExportMenu component, which downloads the document as Markdown, HTML or PDF.
+ * It reads the editor state through a ref that the Editor component fills in, like the SaveTemplateModal
+ * component, which saves the content of the document as a team template.
+ *
  * The component also renders a ShareModal component, which is used to manage who can view and edit the document.
  * The ShareModal component is rendered conditionally based on the current user type.
  *
@@ -52,6 +61,8 @@ const CollaborativeRoom = ({ roomId, roomMetadata, users, currentUserType }: Col
   // Refs
   const containerRef = useRef<HTMLDivElement>(null); // Ref for the container of the title and editing button
   const inputRef = useRef<HTMLDivElement>(null); // Ref for the input field
+  const editorRef = useRef<LexicalEditor | null>(null); // Ref for the Lexical editor, used to export its content
+  const [followingId, setFollowingId] = useState<number | null>(null); // The connection ID of the followed collaborator
 
   // Function to update the document title
   const updateTitleHandler = async (e: React.KeyboardEvent<HTMLInputElement>) => {
@@ -62,7 +73,10 @@ const CollaborativeRoom = ({ roomId, roomMetadata, users, currentUserType }: Col
         if(documentTitle !== roomMetadata.title) {
           const updatedDocument = await updateDocument(roomId, documentTitle); // Update the document title
 
-          if(updatedDocument) {
+          if(isActionError(updatedDocument)) {
+            setDocumentTitle(roomMetadata.title); // Revert the title the user is not allowed to change
+            setEditing(false);
+          } else if(updatedDocument) {
             setEditing(false); // Set editing state to false
           }
         }
@@ -107,7 +121,12 @@ const CollaborativeRoom = ({ roomId, roomMetadata, users, currentUserType }: Col
 
   // Render the collaborative room interface
   return (
-    <RoomProvider id={roomId}>
+    <RoomProvider id={roomId} initialPresence={{
+      cursor: null,
+      viewport: null,
+      lastActiveAt: Date.now(),
+      status: currentUserType === 'editor' ? 'active' : 'viewing',
+    }}>
       <ClientSideSuspense fallback={<Loader />}>
         <div className="collaborative-room">
           <Header>
@@ -140,14 +159,30 @@ const CollaborativeRoom = ({ roomId, roomMetadata, users, currentUserType }: Col
                 />
               )}
 
-              {currentUserType !== 'editor' && !editing && (
+              {currentUserType === 'commenter' && !editing && (
+                <p className="view-only-tag">Comment only</p>
+              )}
+
+              {currentUserType === 'viewer' && !editing && (
                 <p className="view-only-tag">View only</p>
               )}
 
               {loading && <p className="text-sm text-gray-400">Just a Moment, We are Saving...</p>}
             </div>
             <div className="flex w-full flex-1 justify-end gap-2 sm:gap-3">
-              <ActiveCollaborators />
+              <ActiveCollaborators
+                roomId={roomId}
+                currentUserType={currentUserType}
+                editorRef={editorRef}
+                followingId={followingId}
+                onFollowingChange={setFollowingId}
+              />
+
+              <ExportMenu roomId={roomId} title={documentTitle} editorRef={editorRef} />
+
+              {hasRole(currentUserType, 'editor') && (
+                <SaveTemplateModal roomId={roomId} title={documentTitle} editorRef={editorRef} />
+              )}
 
               <ShareModal 
                 roomId={roomId}
@@ -164,7 +199,13 @@ const CollaborativeRoom = ({ roomId, roomMetadata, users, currentUserType }: Col
               </SignedIn>
             </div>
           </Header>
-          <Editor roomId={roomId} currentUserType={currentUserType} />
+          <Editor
+            roomId={roomId}
+            currentUserType={currentUserType}
+            editorRef={editorRef}
+            followingId={followingId}
+            onStopFollowing={() => setFollowingId(null)}
+          />
         </div>
       </ClientSideSuspense>
     </RoomProvider>
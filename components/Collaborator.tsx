@@ -3,17 +3,24 @@ import React, { useState } from 'react'
 import UserTypeSelector from './UserTypeSelector';
 import { Button } from './ui/button';
 import { removeCollaborator, updateDocumentAccess } from '@/lib/actions/room.actions';
+import { dateConverter, isActionError } from '@/lib/utils';
 
 /**
  * A component that renders a single collaborator in a list of collaborators.
  * It shows the collaborator's avatar, name, and email address. It also shows
  * a UserTypeSelector component that allows the user to change the user type
- * of the collaborator. If the user is the owner of the document, it renders
- * an "Owner" label instead of the UserTypeSelector component.
+ * of the collaborator. If the collaborator is the current owner of the document
+ * (the `creatorId` of the room metadata, which changes when the ownership is
+ * transferred), it renders an "Owner" label instead of the UserTypeSelector component.
  *
- * @param {{ roomId: string, creatorId: string, collaborator: User, email: string, user: User }} props
+ * Below the email address, it shows whether the collaborator is online, i.e. in the document right now,
+ * or when they were last seen in it, if they ever opened it.
+ *
+ * If the signed in user is not allowed to make the change, the error returned by the server is shown below the collaborator.
+ *
+ * @param {{ roomId: string, creatorId: string, collaborator: User, email: string, isOnline?: boolean, lastSeenAt?: string }} props
  */
-const Collaborator = ({ roomId, creatorId, collaborator, email, user }: CollaboratorProps) => {
+const Collaborator = ({ roomId, creatorId, collaborator, email, isOnline = false, lastSeenAt }: CollaboratorProps) => {
   /**
    * The current user type of the collaborator. This is used to keep track of
    * the user type of the collaborator as it is being updated.
@@ -26,6 +33,11 @@ const Collaborator = ({ roomId, creatorId, collaborator, email, user }: Collabor
    */
   const [loading, setLoading] = useState(false);
 
+  /**
+   * The message of the last error returned by the server, if any.
+   */
+  const [error, setError] = useState('');
+
   /**
    * This function is responsible for updating the user type of a collaborator on a
    * collaborative document. It takes in the new user type and updates the document
@@ -33,8 +45,8 @@ const Collaborator = ({ roomId, creatorId, collaborator, email, user }: Collabor
    *
    * It first sets the loading state to true, indicating that the update is in
    * progress. It then calls the updateDocumentAccess function from the
-   * @/lib/actions/room.actions module, passing in the roomId, email, new userType,
-   * and the user doing the update.
+   * @/lib/actions/room.actions module, passing in the roomId, email and new userType.
+   * The user doing the update is the signed in user, as checked on the server.
    *
    * Once the update is complete, it sets the loading state back to false.
    *
@@ -43,16 +55,18 @@ const Collaborator = ({ roomId, creatorId, collaborator, email, user }: Collabor
   const shareDocumentHandler = async (type: string) => {
     // Set the loading state to true to indicate that the update is in progress.
     setLoading(true);
+    setError('');
 
     // Call the updateDocumentAccess function from the @/lib/actions/room.actions module,
-    // passing in the roomId, email, new userType, and the user doing the update.
-    await updateDocumentAccess({ 
+    // passing in the roomId, email and new userType.
+    const result = await updateDocumentAccess({ 
       roomId, 
       email, 
       userType: type as UserType, 
-      updatedBy: user 
     });
 
+    if (isActionError(result)) setError(result.error.message);
+
     // Set the loading state back to false to indicate that the update is complete.
     setLoading(false);
   }
@@ -70,10 +84,13 @@ const Collaborator = ({ roomId, creatorId, collaborator, email, user }: Collabor
   const removeCollaboratorHandler = async (email: string) => {
     // Set the loading state to true to indicate that the removal is in progress.
     setLoading(true);
+    setError('');
 
     // Call the removeCollaborator function from the @/lib/actions/room.actions module,
     // passing in the roomId and email of the collaborator to be removed.
-    await removeCollaborator({ roomId, email });
+    const result = await removeCollaborator({ roomId, email });
+
+    if (isActionError(result)) setError(result.error.message);
 
     // Set the loading state back to false to indicate that the removal is complete.
     setLoading(false);
@@ -99,11 +116,20 @@ const Collaborator = ({ roomId, creatorId, collaborator, email, user }: Collabor
           <p className="text-sm font-light text-blue-100">
             {collaborator.email}
           </p>
+          {isOnline ? (
+            <p className="flex items-center gap-1 text-xs text-green-500">
+              <span className="size-1.5 rounded-full bg-green-500" />
+              Online
+            </p>
+          ) : lastSeenAt && (
+            <p className="text-xs text-blue-100/50">Last seen {dateConverter(lastSeenAt).toLowerCase()}</p>
+          )}
+          {error && <p className="text-sm text-red-500">{error}</p>}
         </div>
       </div>
 
       {creatorId === collaborator.id ? (
-        <p className="text-sm font-bold text-red-600">Administrator</p>
+        <p className="text-sm font-bold text-red-600">Owner</p>
       ): (
         <div className="flex items-center">
           <UserTypeSelector 
@@ -0,0 +1,79 @@
+'use client';
+
+import Image from 'next/image';
+import { useState } from 'react';
+
+import { createFolder } from '@/lib/actions/folder.actions';
+import { isActionError } from '@/lib/utils';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+/**
+ * A modal dialog that creates a folder in the current folder of the library,
+ * or at the top of the library when `parentId` is null.
+ */
+const CreateFolderModal = ({ parentId }: { parentId: string | null }) => {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [name, setName] = useState('');
+
+  const createFolderHandler = async () => {
+    setLoading(true);
+
+    const folder = await createFolder({ name, parentId });
+
+    setLoading(false);
+
+    if (folder && !isActionError(folder)) {
+      setName('');
+      setOpen(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" className="flex gap-1 bg-dark-400 shadow-md">
+          <Image src="/assets/icons/add.svg" alt="add" width={24} height={24} />
+          <p className="hidden sm:block">New folder</p>
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="shad-dialog">
+        <DialogHeader>
+          <DialogTitle>New folder</DialogTitle>
+          <DialogDescription>
+            {parentId ? 'The folder is created inside the current folder, and shared with the same people.' : 'The folder is created at the top of your library.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Label htmlFor="folder-name" className="mt-6 text-white">Folder name</Label>
+        <Input
+          id="folder-name"
+          placeholder="e.g. Product specs"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="share-input"
+        />
+
+        <DialogFooter className="mt-5">
+          <Button onClick={createFolderHandler} disabled={loading || !name.trim()} className="gradient-blue w-full">
+            {loading ? 'Creating...' : 'Create folder'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default CreateFolderModal
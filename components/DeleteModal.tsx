@@ -3,7 +3,8 @@
 import Image from "next/image";
 import { useState } from "react";
 
-import { deleteDocument } from "@/lib/actions/room.actions";
+import { deleteDocument, deleteDocumentForever } from "@/lib/actions/room.actions";
+import { isActionError, TRASH_RETENTION_DAYS } from "@/lib/utils";
 
 import {
   Dialog,
@@ -21,24 +22,29 @@ import { Button } from "./ui/button";
 /**
  * DeleteModal component is a modal that allows users to delete a document.
  * 
- * It takes a single prop, `roomId`, which is the ID of the document to be deleted.
+ * It takes a `roomId` prop, which is the ID of the document to be deleted, and an optional
+ * `permanent` prop. By default the document is moved to the trash, from which it can be restored.
+ * When `permanent` is true, the document (which must already be in the trash) is deleted forever.
  * 
- * The DeleteModal component uses two state variables: `open` and `loading`.
+ * The DeleteModal component uses three state variables: `open`, `loading` and `error`.
  * 
  * - `open` is a boolean that determines whether the modal is open or closed.
  * - `loading` is a boolean that determines whether the deletion process is in progress.
+ * - `error` is the message returned by the server when the user is not allowed to delete the document.
  * 
  * The `deleteDocumentHandler` function is the event handler for the delete button.
  * It sets the `loading` state to true to indicate that the deletion process has started.
- * It then attempts to delete the document using the `deleteDocument` function from the
- * actions/room.actions file. If the deletion is successful, it closes the modal by setting
- * the `open` state to false. If the deletion fails, it logs the error message to the console.
+ * It then attempts to delete the document using the `deleteDocument` or `deleteDocumentForever`
+ * function from the actions/room.actions file. If the deletion is successful, it closes the modal by setting
+ * the `open` state to false. If the server refuses the deletion, its error is shown in the modal.
+ * If the deletion fails for another reason, it logs the error message to the console.
  * Finally, it sets the `loading` state to false to indicate that the deletion process has ended.
  */
-export const DeleteModal = ({ roomId }: DeleteModalProps) => {
+export const DeleteModal = ({ roomId, permanent = false }: DeleteModalProps) => {
   // State variables
   const [open, setOpen] = useState(false); // Determines whether the modal is open or closed
   const [loading, setLoading] = useState(false); // Determines whether the deletion process is in progress
+  const [error, setError] = useState(''); // The error returned by the server, if any
 
   /**
    * This function handles the deletion of a document.
@@ -47,13 +53,20 @@ export const DeleteModal = ({ roomId }: DeleteModalProps) => {
   const deleteDocumentHandler = async () => {
     // Set the loading state to true to indicate that the deletion process is in progress
     setLoading(true);
+    setError("");
 
     try {
-      // Attempt to delete the document
-      await deleteDocument(roomId);
+      // Attempt to delete the document, or to move it to the trash
+      const result = permanent
+        ? await deleteDocumentForever(roomId)
+        : await deleteDocument(roomId);
 
-      // If the deletion is successful, close the modal
-      setOpen(false);
+      // If the deletion is successful, close the modal. Otherwise, show why it was refused.
+      if (isActionError(result)) {
+        setError(result.error.message);
+      } else {
+        setOpen(false);
+      }
     } catch (error) {
       // If the deletion fails, log the error message to the console
       console.log("Error notif:", error);
@@ -91,13 +104,18 @@ export const DeleteModal = ({ roomId }: DeleteModalProps) => {
             className="mb-4"
           />
           {/* Title of the modal */}
-          <DialogTitle>Remove document</DialogTitle>
+          <DialogTitle>{permanent ? "Delete forever" : "Move to trash"}</DialogTitle>
           {/* Description of the modal */}
           <DialogDescription>
-          Are you certain you want to remove this document? This action is irreversible and cannot be undone.
+            {permanent
+              ? "Are you certain you want to delete this document forever? This action is irreversible and cannot be undone."
+              : `This document will be moved to the trash. You can restore it from there within ${TRASH_RETENTION_DAYS} days, after which it is deleted forever.`}
           </DialogDescription>
         </DialogHeader>
 
+        {/* Error returned by the server */}
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
         <DialogFooter className="mt-5">
           {/* Cancel button */}
           <DialogClose asChild className="w-full bg-dark-400 text-white">
@@ -111,7 +129,7 @@ export const DeleteModal = ({ roomId }: DeleteModalProps) => {
             className="gradient-red w-full"
           >
             {/* Text and loading state of the delete button */}
-            {loading ? "Deleting..." : "Delete"}
+            {loading ? "Deleting..." : permanent ? "Delete forever" : "Move to trash"}
           </Button>
         </DialogFooter>
       </DialogContent>
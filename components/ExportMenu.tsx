@@ -0,0 +1,96 @@
+'use client';
+
+import Image from 'next/image';
+import { useState } from 'react';
+
+import { exportToHtml, exportToMarkdown, getExportFileName } from '@/lib/export';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+
+/**
+ * Triggers a download of a file in the browser.
+ */
+const downloadFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = fileName;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * The ExportMenu component renders the "Export" button of the CollaborativeRoom header.
+ *
+ * Markdown and HTML are generated in the browser from the current Lexical editor state.
+ * The PDF is rendered server-side by the /api/export-pdf route, which also checks that the
+ * user has access to the room. Every exported file is named after the title of the document.
+ *
+ * @param {ExportMenuProps} props - The room ID, the title of the document and a ref to the editor.
+ */
+const ExportMenu = ({ roomId, title, editorRef }: ExportMenuProps) => {
+  const [loading, setLoading] = useState(false);
+
+  // Read the current editor state as a serialized object.
+  const getEditorState = () => editorRef.current?.getEditorState().toJSON();
+
+  const exportMarkdownHandler = () => {
+    const state = getEditorState();
+    if (!state) return;
+
+    downloadFile(new Blob([exportToMarkdown(state, window.location.origin)], { type: 'text/markdown' }), getExportFileName(title, 'md'));
+  }
+
+  const exportHtmlHandler = () => {
+    const state = getEditorState();
+    if (!state) return;
+
+    downloadFile(new Blob([exportToHtml(state, title, window.location.origin)], { type: 'text/html' }), getExportFileName(title, 'html'));
+  }
+
+  const exportPdfHandler = async () => {
+    const state = getEditorState();
+    if (!state) return;
+
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/export-pdf', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ roomId, content: JSON.stringify(state) }),
+      });
+
+      if (!response.ok) throw new Error(await response.text());
+
+      downloadFile(await response.blob(), getExportFileName(title, 'pdf'));
+    } catch (error) {
+      console.log(`Error happened while exporting a PDF: ${error}`);
+    }
+
+    setLoading(false);
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger className="flex h-10 items-center gap-1 rounded-md px-2 text-blue-100 hover:bg-dark-300">
+        <Image src="/assets/icons/file.svg" alt="export" width={20} height={20} />
+        <p className="hidden sm:block">{loading ? 'Exporting...' : 'Export'}</p>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="export-menu">
+        <button type="button" className="export-menu-item" onClick={exportMarkdownHandler}>
+          Markdown (.md)
+        </button>
+        <button type="button" className="export-menu-item" onClick={exportHtmlHandler}>
+          HTML (.html)
+        </button>
+        <button type="button" className="export-menu-item" onClick={exportPdfHandler} disabled={loading}>
+          PDF (.pdf)
+        </button>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export default ExportMenu
@@ -0,0 +1,26 @@
+import Link from 'next/link';
+import { Fragment } from 'react';
+
+/**
+ * Renders the path from the top of the library to the current folder.
+ * Every folder of the path links to its own view of the library.
+ *
+ * @param {{ path: Folder[] }} props - The folders from the outermost one to the current one, see getFolderPath.
+ */
+const FolderBreadcrumbs = ({ path }: { path: Folder[] }) => {
+  return (
+    <nav aria-label="Breadcrumb" className="folder-breadcrumbs">
+      <Link href="/" className="folder-breadcrumb">Library</Link>
+      {path.map((folder, index) => (
+        <Fragment key={folder.id}>
+          <span className="text-blue-100">/</span>
+          {index === path.length - 1
+            ? <span className="folder-breadcrumb-current" aria-current="page">{folder.name}</span>
+            : <Link href={`/?folder=${folder.id}`} className="folder-breadcrumb">{folder.name}</Link>}
+        </Fragment>
+      ))}
+    </nav>
+  )
+}
+
+export default FolderBreadcrumbs
@@ -0,0 +1,148 @@
+'use client';
+
+import { createDocument } from '@/lib/actions/room.actions';
+import { IMPORT_EXTENSIONS, importFile } from '@/lib/import';
+import { isActionError } from '@/lib/utils';
+import { Button } from './ui/button'
+import Image from 'next/image'
+import { useRouter } from 'next/navigation';
+import { useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+
+/**
+ * This component renders a button that creates a new document from a Markdown, HTML or .docx file.
+ *
+ * The file is converted to Lexical nodes in the browser. If the file contains constructs that the
+ * editor does not support, they are listed in a dialog and the user decides whether to continue.
+ * The new document takes its title from the first heading of the file, or from the file name, and
+ * is seeded with the converted content the first time it is opened.
+ */
+const ImportDocumentBtn = ({ folderId }: ImportDocumentBtnProps) => {
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [pendingImport, setPendingImport] = useState<ImportResult | null>(null);
+
+  /**
+   * Creates the document from a converted file and redirects the user to it.
+   */
+  const createImportedDocument = async ({ title, content }: ImportResult) => {
+    setLoading(true);
+
+    const room = await createDocument({ title, content, folderId });
+
+    setLoading(false);
+    setPendingImport(null);
+
+    if(isActionError(room)) {
+      setError(room.error.message);
+    } else if(room) {
+      router.push(`/documents/${room.id}`);
+    }
+  }
+
+  /**
+   * Converts the selected file. The document is created right away unless there are warnings to review.
+   */
+  const fileChangeHandler = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+
+    // Reset the input so that the same file can be selected again.
+    e.target.value = '';
+    if(!file) return;
+
+    setError('');
+    setLoading(true);
+
+    try {
+      const result = await importFile(file);
+
+      if(result.warnings.length > 0) {
+        setPendingImport(result);
+        setLoading(false);
+      } else {
+        await createImportedDocument(result);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'This file could not be imported.');
+      setLoading(false);
+    }
+  }
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={IMPORT_EXTENSIONS.join(',')}
+        onChange={fileChangeHandler}
+        className="hidden"
+      />
+      <Button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={loading}
+        className="flex gap-1 bg-dark-400 shadow-md"
+      >
+        <Image
+          src="/assets/icons/file.svg" alt="import" width={24} height={24}
+        />
+        <p className="hidden sm:block">{loading ? 'Importing...' : 'Import a file'}</p>
+      </Button>
+
+      <Dialog
+        open={pendingImport !== null || error !== ''}
+        onOpenChange={(open) => {
+          if(!open) {
+            setPendingImport(null);
+            setError('');
+          }
+        }}
+      >
+        <DialogContent className="shad-dialog">
+          <DialogHeader>
+            <DialogTitle>{error ? 'Import failed' : 'Some content cannot be imported'}</DialogTitle>
+            <DialogDescription>
+              {error || `"${pendingImport?.title}" contains content that the editor does not support yet:`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {pendingImport && (
+            <ul className="list-disc space-y-1 pl-5 text-sm text-blue-100">
+              {pendingImport.warnings.map((warning, index) => (
+                <li key={index}>{warning}</li>
+              ))}
+            </ul>
+          )}
+
+          <DialogFooter className="mt-5">
+            <DialogClose asChild className="w-full bg-dark-400 text-white">
+              <Button>Cancel</Button>
+            </DialogClose>
+            {pendingImport && (
+              <Button
+                onClick={() => createImportedDocument(pendingImport)}
+                disabled={loading}
+                className="gradient-blue w-full"
+              >
+                {loading ? 'Importing...' : 'Import anyway'}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
+
+export default ImportDocumentBtn
@@ -0,0 +1,110 @@
+'use client';
+
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { INSERT_TABLE_COMMAND } from '@lexical/table';
+import { useState } from 'react';
+
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+// Tables wider than this do not fit the width of the page.
+const MAX_COLUMNS = 10;
+const MAX_ROWS = 50;
+
+/**
+ * A modal dialog, opened from the toolbar of the editor, that inserts a table with
+ * the chosen number of rows and columns and an optional header row.
+ * It must be rendered inside the LexicalComposer of the editor.
+ */
+const InsertTableModal = () => {
+  const [editor] = useLexicalComposerContext();
+  const [open, setOpen] = useState(false);
+  const [rows, setRows] = useState('3');
+  const [columns, setColumns] = useState('3');
+  const [headerRow, setHeaderRow] = useState(true);
+
+  const rowCount = Number(rows);
+  const columnCount = Number(columns);
+  const isValid =
+    Number.isInteger(rowCount) && rowCount >= 1 && rowCount <= MAX_ROWS &&
+    Number.isInteger(columnCount) && columnCount >= 1 && columnCount <= MAX_COLUMNS;
+
+  const insertTableHandler = () => {
+    editor.dispatchCommand(INSERT_TABLE_COMMAND, {
+      rows,
+      columns,
+      includeHeaders: { rows: headerRow, columns: false },
+    });
+
+    setOpen(false);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger className="toolbar-item spaced" aria-label="Insert Table">
+        <i className="format table" />
+      </DialogTrigger>
+
+      <DialogContent className="shad-dialog">
+        <DialogHeader>
+          <DialogTitle>Insert table</DialogTitle>
+        </DialogHeader>
+
+        <div className="mt-4 flex gap-3">
+          <div className="flex flex-1 flex-col gap-2">
+            <Label htmlFor="table-rows" className="text-blue-100">Rows</Label>
+            <Input
+              id="table-rows"
+              type="number"
+              min={1}
+              max={MAX_ROWS}
+              value={rows}
+              onChange={(e) => setRows(e.target.value)}
+              className="share-input"
+            />
+          </div>
+          <div className="flex flex-1 flex-col gap-2">
+            <Label htmlFor="table-columns" className="text-blue-100">Columns</Label>
+            <Input
+              id="table-columns"
+              type="number"
+              min={1}
+              max={MAX_COLUMNS}
+              value={columns}
+              onChange={(e) => setColumns(e.target.value)}
+              className="share-input"
+            />
+          </div>
+        </div>
+
+        <label className="mt-3 flex items-center gap-2 text-sm text-blue-100">
+          <input type="checkbox" checked={headerRow} onChange={(e) => setHeaderRow(e.target.checked)} />
+          First row is a header
+        </label>
+
+        {!isValid && (
+          <p className="text-sm text-red-500">
+            A table can have 1 to {MAX_ROWS} rows and 1 to {MAX_COLUMNS} columns.
+          </p>
+        )}
+
+        <DialogFooter className="mt-5">
+          <Button onClick={insertTableHandler} disabled={!isValid} className="gradient-blue w-full">
+            Insert
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default InsertTableModal
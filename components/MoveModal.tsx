@@ -0,0 +1,111 @@
+'use client';
+
+import { useState } from 'react';
+
+import { moveDocument, moveFolder } from '@/lib/actions/folder.actions';
+import { getFolderPath, getFolderTreeIds } from '@/lib/utils';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+
+// The value of the select option that stands for the top of the library.
+const LIBRARY_ROOT = 'root';
+
+/**
+ * A modal dialog that moves a document or a folder into another folder, or to the top of the library.
+ * Only the folders the user can edit are offered, and a folder cannot be moved into itself or one of its subfolders.
+ *
+ * @param {MoveModalProps} props - The type and ID of the item to move, the folders of the user, the folder the item is in and the email of the user.
+ */
+const MoveModal = ({ itemType, itemId, folders, currentFolderId, email }: MoveModalProps) => {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [destination, setDestination] = useState(currentFolderId ?? LIBRARY_ROOT);
+
+  const excludedIds = itemType === 'folder' ? getFolderTreeIds(folders, itemId) : [];
+  const destinations = folders
+    .filter(({ id, usersAccesses }) => usersAccesses[email] === 'editor' && !excludedIds.includes(id))
+    .map((folder) => ({
+      id: folder.id,
+      label: getFolderPath(folders, folder.id).map(({ name }) => name).join(' / '),
+    }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  const moveHandler = async () => {
+    setLoading(true);
+
+    const folderId = destination === LIBRARY_ROOT ? null : destination;
+
+    if (itemType === 'folder') {
+      await moveFolder({ folderId: itemId, parentId: folderId });
+    } else {
+      await moveDocument({ roomId: itemId, folderId });
+    }
+
+    setLoading(false);
+    setOpen(false);
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (isOpen) setDestination(currentFolderId ?? LIBRARY_ROOT);
+        setOpen(isOpen);
+      }}
+    >
+      <DialogTrigger className="rounded-md px-2 py-1 text-sm text-blue-100 hover:bg-dark-300">
+        Move
+      </DialogTrigger>
+
+      <DialogContent className="shad-dialog">
+        <DialogHeader>
+          <DialogTitle>Move {itemType}</DialogTitle>
+          <DialogDescription>
+            {itemType === 'folder'
+              ? 'Everything inside the folder moves with it.'
+              : 'People with access to the destination folder will get access to the document.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Select value={destination} onValueChange={setDestination}>
+          <SelectTrigger className="shad-select mt-4 w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="border-none bg-dark-200">
+            <SelectItem value={LIBRARY_ROOT} className="shad-select-item">Library</SelectItem>
+            {destinations.map(({ id, label }) => (
+              <SelectItem key={id} value={id} className="shad-select-item">{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <DialogFooter className="mt-5">
+          <Button
+            onClick={moveHandler}
+            disabled={loading || destination === (currentFolderId ?? LIBRARY_ROOT)}
+            className="gradient-blue w-full"
+          >
+            {loading ? 'Moving...' : 'Move'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default MoveModal
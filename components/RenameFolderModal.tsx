@@ -0,0 +1,69 @@
+'use client';
+
+import Image from 'next/image';
+import { useState } from 'react';
+
+import { renameFolder } from '@/lib/actions/folder.actions';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { Input } from './ui/input';
+
+/**
+ * A modal dialog that renames a folder.
+ */
+const RenameFolderModal = ({ folder }: { folder: Folder }) => {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [name, setName] = useState(folder.name);
+
+  const renameFolderHandler = async () => {
+    setLoading(true);
+
+    await renameFolder({ folderId: folder.id, name });
+
+    setLoading(false);
+    setOpen(false);
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (isOpen) setName(folder.name);
+        setOpen(isOpen);
+      }}
+    >
+      <DialogTrigger className="min-w-9 rounded-xl bg-transparent p-2 transition-all">
+        <Image src="/assets/icons/edit.svg" alt="rename" width={20} height={20} />
+      </DialogTrigger>
+
+      <DialogContent className="shad-dialog">
+        <DialogHeader>
+          <DialogTitle>Rename folder</DialogTitle>
+        </DialogHeader>
+
+        <Input
+          aria-label="Folder name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="share-input mt-4"
+        />
+
+        <DialogFooter className="mt-5">
+          <Button onClick={renameFolderHandler} disabled={loading || !name.trim()} className="gradient-blue w-full">
+            {loading ? 'Saving...' : 'Rename'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default RenameFolderModal
@@ -0,0 +1,38 @@
+'use client';
+
+import { restoreDocument } from '@/lib/actions/room.actions';
+import { isActionError } from '@/lib/utils';
+import { useState } from 'react';
+import { Button } from './ui/button';
+
+/**
+ * This component renders a button that restores a document from the trash.
+ * Once restored, the document shows up in the document library again.
+ * If the user is not allowed to restore it, the error returned by the server is shown next to the button.
+ */
+const RestoreDocumentBtn = ({ roomId }: { roomId: string }) => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const restoreDocumentHandler = async () => {
+    setLoading(true);
+    setError('');
+
+    const result = await restoreDocument(roomId);
+
+    if (isActionError(result)) setError(result.error.message);
+
+    setLoading(false);
+  }
+
+  return (
+    <>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      <Button type="button" onClick={restoreDocumentHandler} disabled={loading} className="gradient-blue">
+        {loading ? 'Restoring...' : 'Restore'}
+      </Button>
+    </>
+  )
+}
+
+export default RestoreDocumentBtn
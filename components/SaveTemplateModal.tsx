@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+
+import { saveTemplate } from '@/lib/actions/template.actions';
+import { isActionError } from '@/lib/utils';
+import { serializeEditorState } from './editor/utils';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+/**
+ * A modal dialog that saves the current content of the document as a team template.
+ * The template is named after the document by default, and shows up in the
+ * "Start from template" gallery of the home page for everyone.
+ *
+ * @param {SaveTemplateModalProps} props - The room ID, the title of the document and a ref to the editor.
+ */
+const SaveTemplateModal = ({ roomId, title, editorRef }: SaveTemplateModalProps) => {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [name, setName] = useState(title);
+  const [description, setDescription] = useState('');
+  const [error, setError] = useState('');
+
+  const saveTemplateHandler = async () => {
+    if (!editorRef.current) return;
+
+    setLoading(true);
+    setError('');
+
+    const template = await saveTemplate({
+      roomId,
+      name,
+      description,
+      content: serializeEditorState(editorRef.current),
+    });
+
+    setLoading(false);
+
+    if (isActionError(template)) {
+      setError(template.error.message);
+    } else if (template) {
+      setDescription('');
+      setOpen(false);
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        // Suggest the current title of the document every time the dialog is opened.
+        if (isOpen) setName(title);
+        setOpen(isOpen);
+      }}
+    >
+      <DialogTrigger className="flex h-10 items-center gap-1 rounded-md px-2 text-blue-100 hover:bg-dark-300">
+        <p className="hidden text-sm sm:block">Save as template</p>
+      </DialogTrigger>
+
+      <DialogContent className="shad-dialog">
+        <DialogHeader>
+          <DialogTitle>Save as team template</DialogTitle>
+          <DialogDescription>Everyone on the team will be able to start new documents from this content.</DialogDescription>
+        </DialogHeader>
+
+        <Label htmlFor="template-name" className="mt-6 text-white">Template name</Label>
+        <Input
+          id="template-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="share-input"
+        />
+
+        <Label htmlFor="template-description" className="text-white">Description</Label>
+        <Input
+          id="template-description"
+          placeholder="What is this template for?"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          className="share-input"
+        />
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <DialogFooter className="mt-5">
+          <Button onClick={saveTemplateHandler} disabled={loading || !name.trim()} className="gradient-blue w-full">
+            {loading ? 'Saving...' : 'Save template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default SaveTemplateModal
@@ -0,0 +1,56 @@
+'use client';
+
+import Image from 'next/image';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { useEffect, useState } from 'react';
+
+import { Input } from './ui/input';
+
+// How long to wait after the last keystroke before searching.
+const SEARCH_DELAY = 300;
+
+/**
+ * A search box that searches the titles and the content of every document the user can access.
+ * The query is kept in the `q` search param of the home page, which renders the results.
+ */
+const SearchBar = () => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const currentQuery = searchParams.get('q') ?? '';
+
+  const [query, setQuery] = useState(currentQuery);
+
+  // Keep the input in sync when the query changes through navigation, e.g. with the back button.
+  useEffect(() => {
+    setQuery(currentQuery);
+  }, [currentQuery]);
+
+  useEffect(() => {
+    if (query.trim() === currentQuery.trim()) return;
+
+    const timeout = setTimeout(() => {
+      const params = new URLSearchParams();
+      if (query.trim()) params.set('q', query.trim());
+
+      router.replace(params.size > 0 ? `${pathname}?${params}` : pathname);
+    }, SEARCH_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [query, currentQuery, pathname, router]);
+
+  return (
+    <div className="search-bar">
+      <Image src="/assets/icons/search.svg" alt="search" width={20} height={20} />
+      <Input
+        type="search"
+        placeholder="Search documents"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        className="search-input"
+      />
+    </div>
+  )
+}
+
+export default SearchBar
@@ -0,0 +1,63 @@
+import Image from 'next/image';
+import Link from 'next/link';
+import { dateConverter } from '@/lib/utils';
+
+/**
+ * Renders parts of a title or snippet, with the matching parts highlighted.
+ */
+const HighlightedText = ({ parts }: { parts: SearchSnippetPart[] }) => (
+  <>
+    {parts.map(({ text, match }, index) => match
+      ? <mark key={index} className="search-highlight">{text}</mark>
+      : <span key={index}>{text}</span>
+    )}
+  </>
+)
+
+/**
+ * A component that renders the results of a search. Each result links to the document,
+ * with the first matching term in the `q` search param so that the editor scrolls to it.
+ *
+ * @param {{ query: string, results: SearchResult[] }} props - The query and the matching documents.
+ */
+const SearchResults = ({ query, results }: { query: string; results: SearchResult[] }) => {
+  if (results.length === 0) {
+    return (
+      <div className="document-list-empty">
+        <Image src="/assets/icons/search.svg" alt="search" width={40} height={40} className="mx-auto" />
+        <p className="text-blue-100">No documents match &quot;{query}&quot;.</p>
+      </div>
+    )
+  }
+
+  return (
+    <ul className="document-ul">
+      {results.map(({ roomId, titleParts, snippets, updatedAt }) => {
+        const term = snippets[0]?.term ?? query;
+
+        return (
+          <li key={roomId} className="document-list-item">
+            <Link href={`/documents/${roomId}?q=${encodeURIComponent(term)}`} className="flex flex-1 items-start gap-4">
+              <div className="hidden rounded-md bg-dark-500 p-2 sm:block">
+                <Image src="/assets/icons/document.svg" alt="file" width={40} height={40} />
+              </div>
+              <div className="min-w-0 space-y-1">
+                <p className="line-clamp-1 text-lg"><HighlightedText parts={titleParts} /></p>
+                {snippets.map((snippet, index) => (
+                  <p key={index} className="search-snippet">
+                    {snippet.truncatedStart && '…'}
+                    <HighlightedText parts={snippet.parts} />
+                    {snippet.truncatedEnd && '…'}
+                  </p>
+                ))}
+                <p className="text-sm font-light text-blue-100">Updated {dateConverter(updatedAt)}</p>
+              </div>
+            </Link>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+export default SearchResults
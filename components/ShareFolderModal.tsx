@@ -0,0 +1,96 @@
+'use client';
+
+import Image from 'next/image';
+import { useState } from 'react';
+
+import { shareFolder } from '@/lib/actions/folder.actions';
+import { isActionError } from '@/lib/utils';
+import UserTypeSelector from './UserTypeSelector';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+/**
+ * A modal dialog that shares a folder with another user. The user gets the selected role on the folder,
+ * on its subfolders and on every document inside them, and is notified for each document.
+ *
+ * @param {{ folder: Folder, user: User }} props - The folder to share and the user sharing it.
+ */
+const ShareFolderModal = ({ folder, user }: { folder: Folder; user: User }) => {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const [email, setEmail] = useState('');
+  const [userType, setUserType] = useState<UserType>('viewer');
+  const [error, setError] = useState('');
+
+  const shareFolderHandler = async () => {
+    setLoading(true);
+    setError('');
+
+    const result = await shareFolder({ folderId: folder.id, email: email.trim(), userType });
+
+    if (isActionError(result)) {
+      setError(result.error.message);
+    }
+
+    setLoading(false);
+    setEmail('');
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button className="gradient-blue flex h-10 gap-1 px-4" disabled={folder.usersAccesses[user.email] !== 'editor'}>
+          <Image src="/assets/icons/internet.svg" alt="share" width={20} height={20} />
+          <p className="mr-1 hidden sm:block">Share folder</p>
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="shad-dialog">
+        <DialogHeader>
+          <DialogTitle>Share &quot;{folder.name}&quot;</DialogTitle>
+          <DialogDescription>Everything inside the folder, including its subfolders, is shared with the same role.</DialogDescription>
+        </DialogHeader>
+
+        <Label htmlFor="folder-email" className="mt-6 text-white">Enter The Email address</Label>
+        <div className="flex items-center gap-3">
+          <div className="flex flex-1 rounded-md bg-dark-400">
+            <Input
+              id="folder-email"
+              placeholder="Enter email address"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="share-input"
+            />
+            <UserTypeSelector userType={userType} setUserType={setUserType} />
+          </div>
+          <Button type="submit" onClick={shareFolderHandler} className="gradient-blue flex h-full gap-1 px-5" disabled={loading || !email.trim()}>
+            {loading ? 'Sharing...' : 'Share Access'}
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <ul className="my-2 flex flex-col gap-2">
+          {Object.entries(folder.usersAccesses).map(([memberEmail, memberType]) => (
+            <li key={memberEmail} className="flex items-center justify-between gap-2 py-1 text-sm">
+              <p className="line-clamp-1 text-white">{memberEmail}</p>
+              <p className="text-blue-100">{memberEmail === folder.createdBy ? 'owner' : memberType}</p>
+            </li>
+          ))}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default ShareFolderModal
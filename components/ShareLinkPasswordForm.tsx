@@ -0,0 +1,55 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+import { joinWithShareLink } from '@/lib/actions/share.actions';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+
+/**
+ * A form that asks for the password of a protected share link.
+ * Once the password is accepted, the visitor is a collaborator and is taken to the document.
+ */
+const ShareLinkPasswordForm = ({ roomId, token }: { roomId: string; token: string }) => {
+  const router = useRouter();
+
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const submitHandler = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    const result = await joinWithShareLink({ roomId, token, password });
+
+    if (result.error) {
+      setError(result.error);
+      setLoading(false);
+      return;
+    }
+
+    router.push(`/documents/${roomId}`);
+  }
+
+  return (
+    <form onSubmit={submitHandler} className="flex w-full max-w-[360px] flex-col gap-3">
+      <Input
+        type="password"
+        aria-label="Password"
+        placeholder="Password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        className="share-input rounded-md bg-dark-400"
+      />
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      <Button type="submit" disabled={loading || !password} className="gradient-blue w-full">
+        {loading ? 'Opening...' : 'Open document'}
+      </Button>
+    </form>
+  )
+}
+
+export default ShareLinkPasswordForm
@@ -0,0 +1,172 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { getShareLink, revokeShareLink, saveShareLink } from '@/lib/actions/share.actions';
+import { isActionError } from '@/lib/utils';
+import UserTypeSelector from './UserTypeSelector';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+/**
+ * Converts an ISO date to the value of a date input, in the local time zone.
+ */
+const toDateInputValue = (isoDate: string | null) => {
+  if (!isoDate) return '';
+
+  const date = new Date(isoDate);
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+}
+
+/**
+ * The "Anyone with the link" section of the ShareModal. Editors can turn link sharing on with a role,
+ * an optional expiry date and an optional password, change those settings, and revoke the link.
+ * Visitors still sign in through Clerk, and join the collaborators list the first time they open the link.
+ */
+const ShareLinkSection = ({ roomId }: { roomId: string }) => {
+  const [link, setLink] = useState<ShareLinkSettings | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const [userType, setUserType] = useState<UserType>('viewer');
+  const [expiryDate, setExpiryDate] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getShareLink({ roomId }).then((settings) => {
+      setLink(settings);
+
+      if (settings) {
+        setUserType(settings.userType);
+        setExpiryDate(toDateInputValue(settings.expiresAt));
+      }
+    });
+  }, [roomId]);
+
+  const shareUrl = link ? `${window.location.origin}/share/${roomId}/${link.token}` : '';
+
+  /**
+   * Saves the settings of the link. An empty password field keeps the current password,
+   * unless `removePassword` is set.
+   */
+  const saveLinkHandler = async ({ removePassword = false } = {}) => {
+    setLoading(true);
+    setError('');
+
+    const settings = await saveShareLink({
+      roomId,
+      userType,
+      // The link stays valid until the end of the selected day.
+      expiresAt: expiryDate ? new Date(`${expiryDate}T23:59:59`).toISOString() : null,
+      password: removePassword ? '' : password || undefined,
+    });
+
+    if (isActionError(settings)) {
+      setError(settings.error.message);
+    } else if (settings) {
+      setLink(settings);
+      setPassword('');
+    }
+
+    setLoading(false);
+  }
+
+  const revokeLinkHandler = async () => {
+    setLoading(true);
+    setError('');
+
+    const result = await revokeShareLink({ roomId });
+
+    if (isActionError(result)) {
+      setError(result.error.message);
+    } else {
+      setLink(null);
+      setPassword('');
+    }
+
+    setLoading(false);
+  }
+
+  const copyLinkHandler = async () => {
+    await navigator.clipboard.writeText(shareUrl);
+
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  }
+
+  return (
+    <div className="share-link-section">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-semibold text-white">Anyone with the link</p>
+          <p className="text-xs text-blue-100">
+            {link ? 'Link sharing is on. Visitors sign in and join as collaborators.' : 'Link sharing is off.'}
+          </p>
+        </div>
+        <div className="rounded-md bg-dark-400">
+          <UserTypeSelector userType={userType} setUserType={setUserType} />
+        </div>
+      </div>
+
+      {link && (
+        <div className="flex items-center gap-2">
+          <Input readOnly aria-label="Share link" value={shareUrl} className="share-input rounded-md bg-dark-400" />
+          <Button type="button" onClick={copyLinkHandler} className="gradient-blue">
+            {copied ? 'Copied' : 'Copy'}
+          </Button>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <div className="flex flex-1 flex-col gap-1">
+          <Label htmlFor="share-link-expiry" className="text-xs text-blue-100">Expires on (optional)</Label>
+          <Input
+            id="share-link-expiry"
+            type="date"
+            value={expiryDate}
+            min={toDateInputValue(new Date().toISOString())}
+            onChange={(e) => setExpiryDate(e.target.value)}
+            className="share-input rounded-md bg-dark-400"
+          />
+        </div>
+        <div className="flex flex-1 flex-col gap-1">
+          <Label htmlFor="share-link-password" className="text-xs text-blue-100">
+            {link?.hasPassword ? 'New password' : 'Password (optional)'}
+          </Label>
+          <Input
+            id="share-link-password"
+            type="password"
+            placeholder={link?.hasPassword ? 'Unchanged' : 'No password'}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="share-input rounded-md bg-dark-400"
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      <div className="flex items-center justify-end gap-2">
+        {link?.hasPassword && (
+          <Button type="button" variant="ghost" onClick={() => saveLinkHandler({ removePassword: true })} disabled={loading} className="text-blue-100">
+            Remove password
+          </Button>
+        )}
+        {link && (
+          <Button type="button" onClick={revokeLinkHandler} disabled={loading} className="gradient-red">
+            Revoke link
+          </Button>
+        )}
+        <Button type="button" onClick={() => saveLinkHandler()} disabled={loading} className="gradient-blue">
+          {loading ? 'Saving...' : link ? 'Update link' : 'Create link'}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default ShareLinkSection
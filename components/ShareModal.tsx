@@ -10,15 +10,20 @@ import {
 } from "@/components/ui/dialog"
 
 
-import { useSelf } from '@liveblocks/react/suspense';
-import React, { useState } from 'react'
+import { useOthers, useSelf } from '@liveblocks/react/suspense';
+import React, { useEffect, useState } from 'react'
 import { Button } from "./ui/button";
 import Image from "next/image";
 import { Label } from "./ui/label";
 import { Input } from "./ui/input";
 import UserTypeSelector from "./UserTypeSelector";
 import Collaborator from "./Collaborator";
+import ShareLinkSection from "./ShareLinkSection";
+import TransferOwnershipSection from "./TransferOwnershipSection";
+import ActivityLog from "./ActivityLog";
+import { getLastSeen } from "@/lib/actions/presence.actions";
 import { updateDocumentAccess } from "@/lib/actions/room.actions";
+import { cn, isActionError } from "@/lib/utils";
 
 /**
  * A modal dialog component that allows the user to share a document with another user.
@@ -35,39 +40,62 @@ import { updateDocumentAccess } from "@/lib/actions/room.actions";
  
  * When the user submits the form, it calls the shareDocumentHandler function, which sends a request to the server to update the document access.
  * The request is done using the updateDocumentAccess function from the @/lib/actions/room.actions module.
- * The function takes the roomId, email, userType, and updatedBy as parameters.
- * The updatedBy parameter is the user object that is currently logged in.
+ * The function takes the roomId, email and userType as parameters. The server checks that the
+ * signed in user can edit the document, and the error it returns, if any, is shown below the form.
+ 
+ * Below the form, the ShareLinkSection component manages the "Anyone with the link" settings of the document.
+ * The owner of the document also gets the TransferOwnershipSection component, to hand the document to another collaborator,
+ * and an "Activity" tab that shows the audit log of the document in the ActivityLog component.
  
  * The component also renders a list of collaborators associated with the document.
  * Each collaborator is rendered as a Collaborator component.
- * The Collaborator component takes the collaborator object as a prop, as well as the roomId, creatorId, and user object.
+ * The Collaborator component takes the collaborator object as a prop, as well as the roomId and creatorId.
+ * Collaborators who are in the room right now are shown as online, and the others with when they were last seen,
+ * as recorded by the ActiveCollaborators component and fetched with getLastSeen whenever the dialog opens.
  */
 const ShareModal = ({ roomId, collaborators, creatorId, currentUserType }: ShareDocumentDialogProps) => {
   const user = useSelf();
+  const others = useOthers();
 
   const [open, setOpen] = useState(false);
   const [loading, setLoading] = useState(false);
 
   const [email, setEmail] = useState('');
   const [userType, setUserType] = useState<UserType>('viewer');
+  const [error, setError] = useState('');
+  const [tab, setTab] = useState<'sharing' | 'activity'>('sharing');
+  const [lastSeen, setLastSeen] = useState<LastSeenRecord>({});
+
+  const isOwner = user.info.id === creatorId;
+  const onlineIds = new Set([user.info.id, ...others.map((other) => other.info.id)]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    getLastSeen({ roomId }).then((data) => {
+      if (data) setLastSeen(data);
+    });
+  }, [open, roomId]);
 
   /**
    * A function that is called when the user submits the form.
    * It sends a request to the server to update the document access.
    * The request is done using the updateDocumentAccess function from the @/lib/actions/room.actions module.
-   * The function takes the roomId, email, userType, and updatedBy as parameters.
-   * The updatedBy parameter is the user object that is currently logged in.
+   * The function takes the roomId, email and userType as parameters.
+   * The user doing the update is the signed in user, as checked on the server.
    */
   const shareDocumentHandler = async () => {
     setLoading(true);
+    setError('');
 
-    await updateDocumentAccess({
+    const result = await updateDocumentAccess({
       roomId,
       email,
       userType: userType as UserType,
-      updatedBy: user.info,
     });
 
+    if (isActionError(result)) setError(result.error.message);
+
     setLoading(false);
   }
 
@@ -94,47 +122,69 @@ const ShareModal = ({ roomId, collaborators, creatorId, currentUserType }: Share
           <DialogDescription>Specify User Permissions for Viewing and Editing</DialogDescription>
         </DialogHeader>
 
-        <Label htmlFor="email" className="mt-6 text-white">
-          Enter The Email address
-        </Label>
-        <div className="flex items-center gap-3">
-          <div className="flex flex-1 rounded-md bg-dark-400">
-            <Input
-              id="email"
-              placeholder="Enter email address"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              className="share-input"
-            />
-            <UserTypeSelector
-              userType={userType}
-              setUserType={setUserType}
-            />
-          </div>
-          <Button
-            type="submit"
-            onClick={shareDocumentHandler}
-            className={`bg-gradient-to-r from-blue-500 to-green-500 flex h-full gap-1 px-5 text-white font-medium transition-colors duration-300 ${loading ? 'opacity-50 cursor-not-allowed' : 'hover:bg-green-600'}`}
-            disabled={loading}
-          >
-            {loading ? 'Processing....' : 'Share Access'}
-          </Button>
-        </div>
-
-        <div className="my-2 space-y-2">
-          <ul className="flex flex-col">
-            {collaborators.map((collaborator) => (
-              <Collaborator
-                key={collaborator.id}
-                roomId={roomId}
-                creatorId={creatorId}
-                email={collaborator.email}
-                collaborator={collaborator}
-                user={user.info}
-              />
-            ))}
-          </ul>
-        </div>
+        {isOwner && (
+          <nav className="library-tabs mt-4 px-0">
+            <button type="button" onClick={() => setTab('sharing')} className={cn('library-tab', tab === 'sharing' && 'library-tab-active')}>Sharing</button>
+            <button type="button" onClick={() => setTab('activity')} className={cn('library-tab', tab === 'activity' && 'library-tab-active')}>Activity</button>
+          </nav>
+        )}
+
+        {isOwner && tab === 'activity' ? (
+          <ActivityLog roomId={roomId} />
+        ) : (
+          <>
+            <Label htmlFor="email" className="mt-6 text-white">
+              Enter The Email address
+            </Label>
+            <div className="flex items-center gap-3">
+              <div className="flex flex-1 rounded-md bg-dark-400">
+                <Input
+                  id="email"
+                  placeholder="Enter email address"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="share-input"
+                />
+                <UserTypeSelector
+                  userType={userType}
+                  setUserType={setUserType}
+                />
+              </div>
+              <Button
+                type="submit"
+                onClick={shareDocumentHandler}
+                className={`bg-gradient-to-r from-blue-500 to-green-500 flex h-full gap-1 px-5 text-white font-medium transition-colors duration-300 ${loading ? 'opacity-50 cursor-not-allowed' : 'hover:bg-green-600'}`}
+                disabled={loading}
+              >
+                {loading ? 'Processing....' : 'Share Access'}
+              </Button>
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+
+            <ShareLinkSection roomId={roomId} />
+
+            {isOwner && (
+              <TransferOwnershipSection roomId={roomId} collaborators={collaborators} ownerEmail={user.info.email} />
+            )}
+
+            <div className="my-2 space-y-2">
+              <ul className="flex flex-col">
+                {collaborators.map((collaborator) => (
+                  <Collaborator
+                    key={collaborator.id}
+                    roomId={roomId}
+                    creatorId={creatorId}
+                    email={collaborator.email}
+                    collaborator={collaborator}
+                    isOnline={onlineIds.has(collaborator.id)}
+                    lastSeenAt={lastSeen[collaborator.id]}
+                  />
+                ))}
+              </ul>
+            </div>
+          </>
+        )}
       </DialogContent>
     </Dialog>
   )
@@ -0,0 +1,137 @@
+'use client';
+
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { $nodesOfType } from 'lexical';
+import React, { useEffect, useState } from 'react';
+
+import { dateConverter, getUserColor } from '@/lib/utils';
+import { $resolveSuggestions, SuggestionNode, type SuggestionAuthor, type SuggestionType } from './editor/SuggestionNode';
+import { Button } from './ui/button';
+
+// A suggestion of the document, gathered from the nodes that share its ID.
+type SuggestionSummary = {
+  id: string;
+  type: SuggestionType;
+  author: SuggestionAuthor;
+  createdAt: string;
+  text: string;
+  nodeKey: string;
+};
+
+/**
+ * Lists the suggestions of the document in the order they appear in it.
+ */
+const $getSuggestions = () => {
+  const suggestions = new Map<string, SuggestionSummary>();
+
+  $nodesOfType(SuggestionNode).forEach((node) => {
+    const id = node.getSuggestionId();
+    const existing = suggestions.get(id);
+
+    if (existing) {
+      existing.text += ` ${node.getTextContent()}`;
+      return;
+    }
+
+    suggestions.set(id, {
+      id,
+      type: node.getSuggestionType(),
+      author: node.getAuthor(),
+      createdAt: node.getCreatedAt(),
+      text: node.getTextContent(),
+      nodeKey: node.getKey(),
+    });
+  });
+
+  return Array.from(suggestions.values());
+}
+
+/**
+ * The Suggestions component renders a card for every suggestion made in suggestion mode, above the comments.
+ * Each card shows who suggested what, in the color of its author, and scrolls to the suggestion when clicked.
+ *
+ * Editors, including the owner of the document, can accept or reject each suggestion, or all of them at once.
+ * Every action is a single update, so it is synced to collaborators at once and is a single step to undo.
+ *
+ * @param {SuggestionsProps} props - The type of the current user.
+ */
+const Suggestions = ({ currentUserType }: SuggestionsProps) => {
+  const [editor] = useLexicalComposerContext();
+  const [suggestions, setSuggestions] = useState<SuggestionSummary[]>([]);
+
+  const canResolve = currentUserType === 'editor';
+
+  useEffect(() => {
+    setSuggestions(editor.getEditorState().read($getSuggestions));
+
+    return editor.registerUpdateListener(({ editorState }) => {
+      const nextSuggestions = editorState.read($getSuggestions);
+
+      setSuggestions((current) =>
+        JSON.stringify(current) === JSON.stringify(nextSuggestions) ? current : nextSuggestions,
+      );
+    });
+  }, [editor]);
+
+  if (suggestions.length === 0) return null;
+
+  const resolveHandler = (accept: boolean, ids?: string[]) => {
+    editor.update(() => $resolveSuggestions(accept, ids), { tag: 'history-push' });
+  }
+
+  const scrollToSuggestion = (nodeKey: string) => {
+    editor.getElementByKey(nodeKey)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }
+
+  return (
+    <div className="suggestions">
+      <div className="flex items-center gap-2">
+        <p className="text-sm font-semibold text-white">Suggestions ({suggestions.length})</p>
+        {canResolve && (
+          <div className="ml-auto flex gap-1">
+            <Button type="button" onClick={() => resolveHandler(true)} className="suggestion-btn">
+              Accept all
+            </Button>
+            <Button type="button" onClick={() => resolveHandler(false)} className="suggestion-btn">
+              Reject all
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <ul className="flex flex-col gap-2">
+        {suggestions.map((suggestion) => (
+          <li
+            key={suggestion.id}
+            className="suggestion-card"
+            style={{ borderLeftColor: getUserColor(suggestion.author.id) }}
+          >
+            <button type="button" onClick={() => scrollToSuggestion(suggestion.nodeKey)} className="w-full text-left">
+              <p className="text-xs text-blue-100">
+                {suggestion.author.name} · {dateConverter(suggestion.createdAt)}
+              </p>
+              <p className="line-clamp-3 text-sm text-white">
+                <span className="font-semibold">{suggestion.type === 'insert' ? 'Add' : 'Delete'}: </span>
+                <span className={suggestion.type === 'delete' ? 'line-through' : ''}>
+                  {suggestion.text.trim() ? `"${suggestion.text}"` : 'a line break'}
+                </span>
+              </p>
+            </button>
+            {canResolve && (
+              <div className="mt-2 flex gap-1">
+                <Button type="button" onClick={() => resolveHandler(true, [suggestion.id])} className="suggestion-btn">
+                  Accept
+                </Button>
+                <Button type="button" onClick={() => resolveHandler(false, [suggestion.id])} className="suggestion-btn">
+                  Reject
+                </Button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default Suggestions
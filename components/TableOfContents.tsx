@@ -0,0 +1,108 @@
+'use client';
+
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import React, { useEffect, useState } from 'react';
+
+import { cn } from '@/lib/utils';
+import { getScrollContainer } from './editor/plugins/FollowPlugin';
+import { useTableOfContents } from './editor/plugins/TableOfContentsPlugin';
+import { scrollToHeading } from './editor/utils';
+
+// A heading counts as the current section once it is scrolled this close to the top of the editor, in pixels.
+const ACTIVE_HEADING_OFFSET = 80;
+
+/**
+ * Finds the heading of the section at the top of the scroll container: the last heading scrolled
+ * past its top. Once the container is scrolled to the bottom, it is the last heading instead,
+ * since the headings of short sections at the end of the document never reach the top.
+ */
+const getActiveHeadingKey = (entries: TableOfContentsEntry[], getElement: (key: string) => HTMLElement | null, container: HTMLElement) => {
+  if (container.scrollTop + container.clientHeight >= container.scrollHeight - 1) {
+    return entries[entries.length - 1]?.key ?? null;
+  }
+
+  const top = container.getBoundingClientRect().top + ACTIVE_HEADING_OFFSET;
+  let activeKey: string | null = null;
+
+  for (const { key } of entries) {
+    const element = getElement(key);
+    if (!element || element.getBoundingClientRect().top > top) break;
+
+    activeKey = key;
+  }
+
+  return activeKey;
+}
+
+/**
+ * The TableOfContents component renders an outline of the document next to the editor, built from its headings.
+ * The outline is updated as the document changes, whoever changes it, and highlights the section in view.
+ * Clicking a heading scrolls the editor to it, and the outline can be collapsed to make room for the document.
+ */
+const TableOfContents = () => {
+  const [editor] = useLexicalComposerContext();
+  const entries = useTableOfContents();
+  const [open, setOpen] = useState(true);
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+
+  // Highlight the section in view, at most once per frame while the editor scrolls.
+  useEffect(() => {
+    let frame = 0;
+    let container: HTMLElement | null = null;
+
+    const updateActiveKey = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        if (container) setActiveKey(getActiveHeadingKey(entries, (key) => editor.getElementByKey(key), container));
+      });
+    };
+
+    const unregister = editor.registerRootListener((root) => {
+      container?.removeEventListener('scroll', updateActiveKey);
+      container = root ? getScrollContainer(editor) : null;
+      container?.addEventListener('scroll', updateActiveKey, { passive: true });
+      updateActiveKey();
+    });
+
+    return () => {
+      unregister();
+      cancelAnimationFrame(frame);
+      container?.removeEventListener('scroll', updateActiveKey);
+    };
+  }, [editor, entries]);
+
+  return (
+    <nav className={cn('outline-sidebar', open && 'lg:w-[220px]')} aria-label="Document outline">
+      <button type="button" className="outline-sidebar-toggle" onClick={() => setOpen(!open)} aria-expanded={open}>
+        Outline
+        <span className="ml-auto text-sm font-normal text-blue-100">{open ? 'Hide' : 'Show'}</span>
+      </button>
+
+      {open && (
+        entries.length === 0 ? (
+          <p className="text-sm text-blue-100">Headings of the document are listed here.</p>
+        ) : (
+          <ul className="flex flex-col gap-0.5">
+            {entries.map(({ key, text, level }) => (
+              <li key={key} style={{ paddingLeft: `${(level - 1) * 12}px` }}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    scrollToHeading(editor, key);
+                    setActiveKey(key);
+                  }}
+                  aria-current={activeKey === key ? 'location' : undefined}
+                  className={cn('outline-sidebar-item', activeKey === key && 'outline-sidebar-item-active')}
+                >
+                  {text}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </nav>
+  )
+}
+
+export default TableOfContents
@@ -0,0 +1,105 @@
+'use client';
+
+import { createDocumentFromTemplate, deleteTemplate, getTemplates } from '@/lib/actions/template.actions';
+import { fillTemplateDate } from '@/lib/templates';
+import { isActionError } from '@/lib/utils';
+import { Button } from './ui/button'
+import Image from 'next/image'
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './ui/dialog';
+
+/**
+ * This component renders the "Start from template" button of the home page and the gallery it opens.
+ *
+ * The gallery lists the built-in templates followed by the templates saved by the team.
+ * Clicking a template creates a new document with its content and a templated title,
+ * e.g. "Meeting notes – 2026-10-19", and redirects the user to it.
+ * Users can delete the team templates they saved themselves.
+ */
+const TemplatePicker = ({ email, folderId }: TemplatePickerProps) => {
+  const router = useRouter();
+
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [templates, setTemplates] = useState<DocumentTemplate[]>([]);
+
+  // Fetch the templates every time the gallery is opened, so new team templates show up.
+  useEffect(() => {
+    if (open) getTemplates().then(setTemplates);
+  }, [open]);
+
+  const createFromTemplateHandler = async (templateId: string) => {
+    setLoading(true);
+
+    const room = await createDocumentFromTemplate({ templateId, folderId });
+
+    setLoading(false);
+
+    if(room && !isActionError(room)) router.push(`/documents/${room.id}`);
+  }
+
+  const deleteTemplateHandler = async (templateId: string) => {
+    await deleteTemplate({ templateId });
+
+    setTemplates(await getTemplates());
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" className="flex gap-1 bg-dark-400 shadow-md">
+          <Image src="/assets/icons/journal-text.svg" alt="template" width={24} height={24} />
+          <p className="hidden sm:block">Start from template</p>
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="shad-dialog template-dialog">
+        <DialogHeader>
+          <DialogTitle>Start from a template</DialogTitle>
+          <DialogDescription>
+            {loading ? 'Creating your document...' : 'Pick a template to copy its content into a new document.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="template-list custom-scrollbar">
+          {templates.map((template) => (
+            <li key={template.id} className="template-list-item">
+              <button
+                type="button"
+                disabled={loading}
+                onClick={() => createFromTemplateHandler(template.id)}
+                className="flex flex-1 flex-col items-start gap-1 text-left"
+              >
+                <p className="text-base font-semibold text-white">{template.name}</p>
+                <p className="text-sm text-blue-100">{template.description}</p>
+                <p className="text-xs text-blue-100/70">
+                  {template.builtIn ? 'Built-in' : `Saved by ${template.createdBy?.name}`} · {fillTemplateDate(template.title)}
+                </p>
+              </button>
+
+              {!template.builtIn && template.createdBy?.email === email && (
+                <Button
+                  type="button"
+                  onClick={() => deleteTemplateHandler(template.id)}
+                  className="remove-btn"
+                >
+                  Delete
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default TemplatePicker
@@ -0,0 +1,91 @@
+'use client';
+
+import { useState } from 'react';
+
+import { transferOwnership } from '@/lib/actions/room.actions';
+import { isActionError } from '@/lib/utils';
+import { Button } from './ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+
+/**
+ * The "Transfer ownership" section of the ShareModal, only rendered for the owner of the document.
+ * The owner picks another collaborator and confirms; they stay on as an editor afterwards.
+ *
+ * @param {{ roomId: string, collaborators: User[], ownerEmail: string }} props - The room, its collaborators and the email of the current owner.
+ */
+const TransferOwnershipSection = ({ roomId, collaborators, ownerEmail }: { roomId: string; collaborators: User[]; ownerEmail: string }) => {
+  const [email, setEmail] = useState('');
+  const [confirming, setConfirming] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const candidates = collaborators.filter((collaborator) => collaborator.email !== ownerEmail);
+  const newOwner = candidates.find((collaborator) => collaborator.email === email);
+
+  const transferHandler = async () => {
+    // The first click asks for a confirmation, since only the new owner can transfer the document back.
+    if (!confirming) {
+      setConfirming(true);
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    const result = await transferOwnership({ roomId, email });
+
+    setLoading(false);
+    setConfirming(false);
+
+    if (isActionError(result)) {
+      setError(result.error.message);
+    } else {
+      setEmail('');
+    }
+  }
+
+  if (candidates.length === 0) return null;
+
+  return (
+    <div className="share-link-section">
+      <div>
+        <p className="text-sm font-semibold text-white">Transfer ownership</p>
+        <p className="text-xs text-blue-100">The new owner can manage everyone&apos;s access. You will stay on as an editor.</p>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Select
+          value={email}
+          onValueChange={(value) => {
+            setEmail(value);
+            setConfirming(false);
+          }}
+        >
+          <SelectTrigger className="shad-select flex-1 rounded-md bg-dark-400">
+            <SelectValue placeholder="Choose a collaborator" />
+          </SelectTrigger>
+          <SelectContent className="border-none bg-dark-200">
+            {candidates.map((collaborator) => (
+              <SelectItem key={collaborator.email} value={collaborator.email} className="shad-select-item">
+                {collaborator.name} ({collaborator.email})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" onClick={transferHandler} disabled={loading || !newOwner} className="gradient-red">
+          {loading ? 'Transferring...' : confirming ? `Make ${newOwner?.name} the owner` : 'Transfer'}
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  )
+}
+
+export default TransferOwnershipSection
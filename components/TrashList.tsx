@@ -0,0 +1,56 @@
+import Image from 'next/image';
+import { DeleteModal } from './DeleteModal';
+import RestoreDocumentBtn from './RestoreDocumentBtn';
+import { dateConverter, TRASH_RETENTION_DAYS } from '@/lib/utils';
+
+/**
+ * Returns the number of days left before a trashed document is deleted forever.
+ */
+const getDaysLeft = (trashedAt: string) => {
+  const trashedFor = (Date.now() - new Date(trashedAt).getTime()) / (24 * 60 * 60 * 1000);
+
+  return Math.max(0, Math.ceil(TRASH_RETENTION_DAYS - trashedFor));
+}
+
+/**
+ * A component that renders the documents in the trash, each with a Restore and a Delete forever action.
+ * Trashed documents cannot be opened, so the items are not links.
+ *
+ * @param {{ documents: Object[] }} props - The trashed rooms returned by getTrashedDocuments.
+ */
+const TrashList = ({ documents }: { documents: any[] }) => {
+  if (documents.length === 0) {
+    return (
+      <div className="document-list-empty">
+        <Image src="/assets/icons/delete.svg" alt="trash" width={40} height={40} className="mx-auto" />
+        <p className="text-blue-100">The trash is empty.</p>
+      </div>
+    )
+  }
+
+  return (
+    <ul className="document-ul">
+      {documents.map(({ id, metadata }) => (
+        <li key={id} className="document-list-item">
+          <div className="flex flex-1 items-center gap-4">
+            <div className="hidden rounded-md bg-dark-500 p-2 opacity-60 sm:block">
+              <Image src="/assets/icons/document.svg" alt="file" width={40} height={40} />
+            </div>
+            <div className="space-y-1">
+              <p className="line-clamp-1 text-lg">{metadata.title}</p>
+              <p className="text-sm font-light text-blue-100">
+                Moved to trash {dateConverter(metadata.trashedAt)} · Deleted forever in {getDaysLeft(metadata.trashedAt)} days
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <RestoreDocumentBtn roomId={id} />
+            <DeleteModal roomId={id} permanent />
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export default TrashList
@@ -15,9 +15,10 @@ The component returns a `Select` component from a UI library. The `value` prop o
 
 Inside the `Select` component, there is a `SelectTrigger` component with a `className` of "shad-select". Inside the `SelectTrigger`, there is a `SelectValue` component.
 
-Below the `SelectTrigger`, there is a `SelectContent` component with a `className` of "border-none bg-dark-200". Inside the `SelectContent`, there are two `SelectItem` components.
-The first `SelectItem` has a `value` of "viewer" and displays "can view".
-The second `SelectItem` has a `value` of "editor" and displays "can edit". */
+Below the `SelectTrigger`, there is a `SelectContent` component with a `className` of "border-none bg-dark-200". Inside the `SelectContent`, there are three `SelectItem` components.
+The first `SelectItem` has a `value` of "viewer" and displays "Read-Only Access".
+The second `SelectItem` has a `value` of "commenter" and displays "Comment Access".
+The third `SelectItem` has a `value` of "editor" and displays "Edit Access". */
 const UserTypeSelector = ({ userType, setUserType, onClickHandler }: UserTypeSelectorParams) => {
   const accessChangeHandler = (type: UserType) => {
     setUserType(type);
@@ -31,6 +32,7 @@ const UserTypeSelector = ({ userType, setUserType, onClickHandler }: UserTypeSel
       </SelectTrigger>
       <SelectContent className="border-none bg-dark-200">
         <SelectItem value="viewer" className="shad-select-item">Read-Only Access</SelectItem>
+        <SelectItem value="commenter" className="shad-select-item">Comment Access</SelectItem>
         <SelectItem value="editor" className="shad-select-item">Edit Access</SelectItem>
       </SelectContent>
     </Select>
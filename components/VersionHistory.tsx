@@ -0,0 +1,233 @@
+'use client';
+
+import { ClickableLinkPlugin } from '@lexical/react/LexicalClickableLinkPlugin';
+import { LexicalComposer } from '@lexical/react/LexicalComposer';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { ContentEditable } from '@lexical/react/LexicalContentEditable';
+import { LexicalErrorBoundary } from '@lexical/react/LexicalErrorBoundary';
+import { RichTextPlugin } from '@lexical/react/LexicalRichTextPlugin';
+import Image from 'next/image';
+import React, { useCallback, useEffect, useState } from 'react';
+
+import { createSnapshot, getSnapshot, getSnapshots } from '@/lib/actions/snapshot.actions';
+import { dateConverter, isActionError } from '@/lib/utils';
+import EditorNodes from './editor/nodes';
+import Theme from './editor/plugins/Theme';
+import { replaceEditorContent, serializeEditorState } from './editor/utils';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Input } from './ui/input';
+
+/**
+ * Returns the label displayed for a snapshot: its name if it has one, otherwise a
+ * description based on how the snapshot was created.
+ */
+const getSnapshotLabel = ({ name, kind }: DocumentSnapshotSummary) => {
+  if (name) return name;
+
+  return kind === 'auto' ? 'Autosave' : 'Saved version';
+}
+
+/**
+ * The SnapshotPreview component renders a snapshot in a read-only editor.
+ * It uses its own LexicalComposer, so previewing a snapshot never touches the live document.
+ */
+const SnapshotPreview = ({ snapshot }: { snapshot: DocumentSnapshot }) => {
+  const initialConfig = {
+    namespace: 'SnapshotPreview',
+    nodes: EditorNodes,
+    onError: (error: Error) => console.error(error),
+    theme: Theme,
+    editable: false,
+    editorState: snapshot.content,
+  };
+
+  return (
+    <LexicalComposer initialConfig={initialConfig}>
+      <div className="editor-container version-preview custom-scrollbar">
+        <RichTextPlugin
+          contentEditable={<ContentEditable className="editor-input" />}
+          placeholder={null}
+          ErrorBoundary={LexicalErrorBoundary}
+        />
+        <ClickableLinkPlugin newTab />
+      </div>
+    </LexicalComposer>
+  );
+}
+
+/**
+ * The VersionHistory component renders the list of snapshots of the document next to the comments.
+ *
+ * Everyone with access to the document can preview a snapshot. Editors can also save a named
+ * version of the current content, and restore a snapshot. Before a restore, the current content
+ * is saved as a new snapshot, so that the restore itself can be undone by restoring that snapshot.
+ *
+ * @param {VersionHistoryProps} props - The room ID and the type of the current user.
+ */
+const VersionHistory = ({ roomId, currentUserType }: VersionHistoryProps) => {
+  const [editor] = useLexicalComposerContext();
+
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [name, setName] = useState('');
+  const [snapshots, setSnapshots] = useState<DocumentSnapshotSummary[]>([]);
+  const [preview, setPreview] = useState<DocumentSnapshot | null>(null);
+
+  const canEdit = currentUserType === 'editor';
+
+  // Fetch the list of snapshots of the room.
+  const loadSnapshots = useCallback(async () => {
+    const data = await getSnapshots({ roomId });
+
+    if (data) setSnapshots(data);
+  }, [roomId]);
+
+  // Refresh the list every time the panel is opened.
+  useEffect(() => {
+    if (open) loadSnapshots();
+  }, [open, loadSnapshots]);
+
+  // Save the current content as a named, manual snapshot.
+  const saveVersionHandler = async () => {
+    setLoading(true);
+
+    await createSnapshot({
+      roomId,
+      content: serializeEditorState(editor),
+      kind: 'manual',
+      name,
+    });
+
+    setName('');
+    await loadSnapshots();
+    setLoading(false);
+  }
+
+  // Load the full snapshot and show it in the preview dialog.
+  const previewHandler = async (snapshotId: string) => {
+    setLoading(true);
+
+    const snapshot = await getSnapshot({ roomId, snapshotId });
+
+    if (snapshot) setPreview(snapshot);
+    setLoading(false);
+  }
+
+  // Save the current content, then replace it with the content of the previewed snapshot.
+  const restoreHandler = async () => {
+    if (!preview) return;
+
+    setLoading(true);
+
+    const backup = await createSnapshot({
+      roomId,
+      content: serializeEditorState(editor),
+      kind: 'restore',
+      name: `Before restoring "${getSnapshotLabel(preview)}"`,
+    });
+
+    // Never overwrite the document if the current content could not be saved first.
+    if (backup && !isActionError(backup)) {
+      replaceEditorContent(editor, preview.content);
+      setPreview(null);
+    }
+
+    await loadSnapshots();
+    setLoading(false);
+  }
+
+  return (
+    <div className="version-history">
+      <button type="button" className="version-history-toggle" onClick={() => setOpen(!open)}>
+        <Image src="/assets/icons/journal-text.svg" alt="history" width={20} height={20} />
+        <p>Version history</p>
+        <span className="ml-auto text-sm text-blue-100">{open ? 'Hide' : 'Show'}</span>
+      </button>
+
+      {open && (
+        <>
+          {canEdit && (
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Name this version (optional)"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="share-input"
+              />
+              <Button onClick={saveVersionHandler} disabled={loading} className="gradient-blue">
+                Save
+              </Button>
+            </div>
+          )}
+
+          {snapshots.length === 0 && (
+            <p className="text-sm text-blue-100">No versions saved yet.</p>
+          )}
+
+          <ul className="version-list custom-scrollbar">
+            {snapshots.map((snapshot) => (
+              <li key={snapshot.id} className="version-list-item">
+                <Image
+                  src={snapshot.author.avatar}
+                  alt={snapshot.author.name}
+                  width={32}
+                  height={32}
+                  className="size-8 rounded-full"
+                />
+                <div className="flex-1">
+                  <p className="line-clamp-1 text-sm font-semibold text-white">{getSnapshotLabel(snapshot)}</p>
+                  <p className="text-xs text-blue-100">
+                    {snapshot.author.name} · {dateConverter(snapshot.createdAt)}
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  onClick={() => previewHandler(snapshot.id)}
+                  disabled={loading}
+                  className="bg-transparent text-blue-100"
+                >
+                  Preview
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <Dialog open={preview !== null} onOpenChange={(isOpen) => !isOpen && setPreview(null)}>
+        <DialogContent className="shad-dialog version-dialog">
+          {preview && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{getSnapshotLabel(preview)}</DialogTitle>
+                <DialogDescription>
+                  Saved by {preview.author.name} {dateConverter(preview.createdAt)}
+                </DialogDescription>
+              </DialogHeader>
+
+              <SnapshotPreview snapshot={preview} />
+
+              {canEdit && (
+                <DialogFooter>
+                  <Button onClick={restoreHandler} disabled={loading} className="gradient-blue w-full">
+                    {loading ? 'Restoring...' : 'Restore this version'}
+                  </Button>
+                </DialogFooter>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+export default VersionHistory
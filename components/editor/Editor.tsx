@@ -2,22 +2,52 @@
 
 import Theme from './plugins/Theme';
 import ToolbarPlugin from './plugins/ToolbarPlugin';
-import { HeadingNode } from '@lexical/rich-text';
+import EditorNodes from './nodes';
+import { SHORTCUT_TRANSFORMERS } from './markdown';
 import { AutoFocusPlugin } from '@lexical/react/LexicalAutoFocusPlugin';
 import { LexicalComposer } from '@lexical/react/LexicalComposer';
 import { RichTextPlugin } from '@lexical/react/LexicalRichTextPlugin';
 import { ContentEditable } from '@lexical/react/LexicalContentEditable';
 import { HistoryPlugin } from '@lexical/react/LexicalHistoryPlugin';
 import { LexicalErrorBoundary } from '@lexical/react/LexicalErrorBoundary';
-import React from 'react';
+import { EditorRefPlugin } from '@lexical/react/LexicalEditorRefPlugin';
+import { ListPlugin } from '@lexical/react/LexicalListPlugin';
+import { CheckListPlugin } from '@lexical/react/LexicalCheckListPlugin';
+import { TabIndentationPlugin } from '@lexical/react/LexicalTabIndentationPlugin';
+import { LinkPlugin } from '@lexical/react/LexicalLinkPlugin';
+import { ClickableLinkPlugin } from '@lexical/react/LexicalClickableLinkPlugin';
+import { TablePlugin } from '@lexical/react/LexicalTablePlugin';
+import { HorizontalRulePlugin } from '@lexical/react/LexicalHorizontalRulePlugin';
+import React, { useState } from 'react';
 
 import { FloatingComposer, FloatingThreads, liveblocksConfig, LiveblocksPlugin, useEditorStatus } from '@liveblocks/react-lexical'
 import Loader from '../Loader';
 
 import FloatingToolbarPlugin from './plugins/FloatingToolbarPlugin'
+import SnapshotPlugin from './plugins/SnapshotPlugin';
+import InitialContentPlugin from './plugins/InitialContentPlugin';
+import SearchIndexPlugin from './plugins/SearchIndexPlugin';
+import SearchMatchPlugin from './plugins/SearchMatchPlugin';
+import AutoLinkPlugin from './plugins/AutoLinkPlugin';
+import FloatingLinkEditorPlugin from './plugins/FloatingLinkEditorPlugin';
+import CodeHighlightPlugin from './plugins/CodeHighlightPlugin';
+import CodeActionMenuPlugin from './plugins/CodeActionMenuPlugin';
+import TableActionMenuPlugin from './plugins/TableActionMenuPlugin';
+import ImagesPlugin from './plugins/ImagesPlugin';
+import SlashCommandPlugin from './plugins/SlashCommandPlugin';
+import MarkdownShortcutsPlugin from './plugins/MarkdownShortcutsPlugin';
+import SuggestionPlugin from './plugins/SuggestionPlugin';
+import CollaboratorCursorsPlugin from './plugins/CollaboratorCursorsPlugin';
+import FollowPlugin from './plugins/FollowPlugin';
+import FindReplacePlugin from './plugins/FindReplacePlugin';
+import TableOfContentsPlugin from './plugins/TableOfContentsPlugin';
 import { useThreads } from '@liveblocks/react/suspense';
 import Comments from '../Comments';
+import Suggestions from '../Suggestions';
+import TableOfContents from '../TableOfContents';
 import { DeleteModal } from '../DeleteModal';
+import VersionHistory from '../VersionHistory';
+import { isSafeUrl } from '@/lib/utils';
 
 // Catch any errors that occur during Lexical updates and log them
 // or throw them as needed. If you don't throw them, Lexical will
@@ -57,20 +87,37 @@ function Placeholder() {
  * @param {Object} props - An object containing the roomId and currentUserType props.
  * @param {string} props.roomId - A string that identifies the room that the editor is associated with.
  * @param {string} props.currentUserType - A string that indicates the type of user that is currently logged in.
+ * @param {EditorRef} props.editorRef - An optional ref that receives the Lexical editor, e.g. to export its content.
+ * @param {number | null} props.followingId - The connection ID of the collaborator the current user follows, if any.
+ * @param {Function} props.onStopFollowing - Called when the current user stops following the collaborator.
  * @return {JSX.Element} A JSX element that represents the editor interface.
  */
-export function Editor({ roomId, currentUserType }: { roomId: string, currentUserType: UserType }) {
+export function Editor({
+  roomId,
+  currentUserType,
+  editorRef,
+  followingId = null,
+  onStopFollowing = () => {},
+}: {
+  roomId: string,
+  currentUserType: UserType,
+  editorRef?: EditorRef,
+  followingId?: number | null,
+  onStopFollowing?: () => void,
+}) {
   // Use the useEditorStatus hook to get the status of the editor.
   const status = useEditorStatus();
   // Use the useThreads hook to get the threads associated with the editor.
   const { threads } = useThreads();
+  // Whether the changes of the current user are recorded as suggestions, toggled from the toolbar by editors.
+  const [isSuggesting, setIsSuggesting] = useState(false);
 
   // Create an initial configuration object for the LexicalComposer using the liveblocksConfig function.
   const initialConfig = liveblocksConfig({
     // Set the namespace for the editor to "Editor".
     namespace: 'Editor',
-    // Set the nodes for the editor to include the HeadingNode.
-    nodes: [HeadingNode],
+    // Set the nodes for the editor to the nodes shared by every editor in the application.
+    nodes: EditorNodes,
     // Set an error handler that logs the error and throws it.
     onError: (error: Error) => {
       console.error(error);
@@ -79,6 +126,7 @@ export function Editor({ roomId, currentUserType }: { roomId: string, currentUse
     // Set the theme for the editor to the Theme object.
     theme: Theme,
     // Set the editable property to true if the current user is an editor.
+    // Commenters and viewers get a read-only document.
     editable: currentUserType === 'editor',
   });
 
@@ -86,9 +134,13 @@ export function Editor({ roomId, currentUserType }: { roomId: string, currentUse
   return (
     // Wrap the editor interface in a LexicalComposer component with the initialConfig object.
     <LexicalComposer initialConfig={initialConfig}>
+      {editorRef && <EditorRefPlugin editorRef={editorRef} />}
       <div className="editor-container size-full">
         <div className="toolbar-wrapper flex min-w-full justify-between">
-          <ToolbarPlugin />
+          <ToolbarPlugin
+            isSuggesting={isSuggesting}
+            onToggleSuggesting={currentUserType === 'editor' ? () => setIsSuggesting(!isSuggesting) : undefined}
+          />
           {/* If the current user is an editor, render the DeleteModal component with the roomId prop. */}
           {currentUserType === 'editor' && <DeleteModal roomId={roomId} />}
         </div>
@@ -96,27 +148,77 @@ export function Editor({ roomId, currentUserType }: { roomId: string, currentUse
         <div className="editor-wrapper flex flex-col items-center justify-start">
           {/* If the editor is not loaded or is still loading, render a Loader component. */}
           {status === 'not-loaded' || status === 'loading' ? <Loader /> : (
-            <div className="editor-inner min-h-[1100px] relative mb-5 h-fit w-full max-w-[800px] shadow-md lg:mb-10">
-              <RichTextPlugin
-                contentEditable={
-                  <ContentEditable className="editor-input h-full" />
-                }
-                // Set the placeholder for the editor to the Placeholder component.
-                placeholder={<Placeholder />}
-                // Set the ErrorBoundary for the editor to the LexicalErrorBoundary component.
-                ErrorBoundary={LexicalErrorBoundary}
-              />
-              {/* If the current user is an editor, render the FloatingToolbarPlugin component. */}
-              {currentUserType === 'editor' && <FloatingToolbarPlugin />}
-              <HistoryPlugin />
-              <AutoFocusPlugin />
-            </div>
+            <>
+              {/* An outline of the headings of the document, next to it. */}
+              <TableOfContents />
+              <div className="editor-inner min-h-[1100px] relative mb-5 h-fit w-full max-w-[800px] shadow-md lg:mb-10">
+                <RichTextPlugin
+                  contentEditable={
+                    <ContentEditable className="editor-input h-full" />
+                  }
+                  // Set the placeholder for the editor to the Placeholder component.
+                  placeholder={<Placeholder />}
+                  // Set the ErrorBoundary for the editor to the LexicalErrorBoundary component.
+                  ErrorBoundary={LexicalErrorBoundary}
+                />
+                {/* If the current user can comment (editors and commenters), render the FloatingToolbarPlugin component. */}
+                {(currentUserType === 'editor' || currentUserType === 'commenter') && <FloatingToolbarPlugin />}
+                {/* If the current user is an editor, take periodic snapshots of their changes. */}
+                {currentUserType === 'editor' && <SnapshotPlugin roomId={roomId} />}
+                {/* If the current user is an editor, seed a new room with the content it was created with. */}
+                {currentUserType === 'editor' && <InitialContentPlugin roomId={roomId} />}
+                {/* If the current user is an editor, keep the search index up to date with their changes. */}
+                {currentUserType === 'editor' && <SearchIndexPlugin roomId={roomId} />}
+                {/* Scroll to the match when the document is opened from a search result. */}
+                <SearchMatchPlugin />
+                {/* Ctrl/Cmd+F opens a find bar. Editors can also replace the matches, everyone else only finds them. */}
+                <FindReplacePlugin />
+                {/* Bulleted, numbered and check lists. Checking an item is a regular update, so it is synced by the LiveblocksPlugin. */}
+                <ListPlugin />
+                <CheckListPlugin />
+                {/* Tab and Shift+Tab indent and outdent the selected blocks, which nests list items. */}
+                <TabIndentationPlugin />
+                {/* Markdown typed in the editor, e.g. "# " or "**bold**", is converted to the matching block or format. */}
+                <MarkdownShortcutsPlugin transformers={SHORTCUT_TRANSFORMERS} />
+                {/* Pasting a URL over selected text links it, as long as the URL is safe. */}
+                <LinkPlugin validateUrl={isSafeUrl} />
+                <AutoLinkPlugin />
+                {/* Editors edit links through a popover, everyone else opens them in a new tab by clicking them. */}
+                {currentUserType === 'editor' ? <FloatingLinkEditorPlugin /> : <ClickableLinkPlugin newTab />}
+                {/* The highlighting of code blocks is made of nodes, so editors compute it and it is synced to everyone else. */}
+                {currentUserType === 'editor' && <CodeHighlightPlugin />}
+                <CodeActionMenuPlugin />
+                {/* Tab and Shift+Tab move between the cells of a table. The table handles the Tab key with COMMAND_PRIORITY_CRITICAL,
+                    above the COMMAND_PRIORITY_EDITOR of the TabIndentationPlugin, so cells are never indented whatever the order of the plugins. */}
+                <TablePlugin hasCellMerge hasTabHandler />
+                {currentUserType === 'editor' && <TableActionMenuPlugin />}
+                <HorizontalRulePlugin />
+                {/* If the current user is an editor, typing "/" opens a menu of blocks to insert. Plugins below can add to it. */}
+                {currentUserType === 'editor' && <SlashCommandPlugin />}
+                {/* If the current user is an editor, upload the images they add from the toolbar, paste or drop. */}
+                {currentUserType === 'editor' && <ImagesPlugin roomId={roomId} />}
+                {/* If the current user is an editor, they can insert a table of contents block from the slash menu. */}
+                {currentUserType === 'editor' && <TableOfContentsPlugin />}
+                {/* If the current user is an editor in suggestion mode, record their changes as suggestions. */}
+                {currentUserType === 'editor' && <SuggestionPlugin isSuggesting={isSuggesting} />}
+                {/* Share the selection of the current user, and show the selections of everyone else. */}
+                <CollaboratorCursorsPlugin />
+                {/* Share the part of the document the current user is looking at, and scroll along with the followed collaborator. */}
+                <FollowPlugin followingId={followingId} onStopFollowing={onStopFollowing} />
+                <HistoryPlugin />
+                <AutoFocusPlugin />
+              </div>
+            </>
           )}
 
           <LiveblocksPlugin>
             <FloatingComposer className="w-[350px]" />
             <FloatingThreads threads={threads} />
-            <Comments />
+            <div className="editor-sidebar">
+              <VersionHistory roomId={roomId} currentUserType={currentUserType} />
+              <Suggestions currentUserType={currentUserType} />
+              <Comments />
+            </div>
           </LiveblocksPlugin>
         </div>
       </div>
@@ -0,0 +1,162 @@
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { useLexicalEditable } from '@lexical/react/useLexicalEditable';
+import { useLexicalNodeSelection } from '@lexical/react/useLexicalNodeSelection';
+import { mergeRegister } from '@lexical/utils';
+import {
+  $getNodeByKey,
+  $getSelection,
+  $isNodeSelection,
+  CLICK_COMMAND,
+  COMMAND_PRIORITY_LOW,
+  KEY_BACKSPACE_COMMAND,
+  KEY_DELETE_COMMAND,
+  type NodeKey,
+} from 'lexical';
+import { useEffect, useRef, useState } from 'react';
+import * as React from 'react';
+
+import { $isImageNode, type ImageNode } from './ImageNode';
+
+// Images cannot be resized below this width, in pixels.
+const MIN_WIDTH = 100;
+
+type ImageComponentProps = {
+  nodeKey: NodeKey;
+  src: string;
+  altText: string;
+  caption: string;
+  width?: number;
+};
+
+/**
+ * Renders an ImageNode. Clicking the image selects it, and editors can then delete it, resize it
+ * by dragging the handles on its sides, and change its alternative text and caption.
+ */
+export default function ImageComponent({ nodeKey, src, altText, caption, width }: ImageComponentProps) {
+  const [editor] = useLexicalComposerContext();
+  const isEditable = useLexicalEditable();
+  const [isSelected, setSelected, clearSelection] = useLexicalNodeSelection(nodeKey);
+  const imageRef = useRef<HTMLImageElement | null>(null);
+
+  // The width while a handle is dragged, saved to the node when it is released.
+  const [resizeWidth, setResizeWidth] = useState<number | null>(null);
+  const [draftAltText, setDraftAltText] = useState(altText);
+  const [draftCaption, setDraftCaption] = useState(caption);
+
+  // Collaborators may change the image while it is selected.
+  useEffect(() => setDraftAltText(altText), [altText]);
+  useEffect(() => setDraftCaption(caption), [caption]);
+
+  const updateImage = (update: (node: ImageNode) => void) => {
+    editor.update(() => {
+      const node = $getNodeByKey(nodeKey);
+
+      if ($isImageNode(node)) update(node);
+    });
+  };
+
+  useEffect(() => {
+    const $deleteSelectedImage = (event: KeyboardEvent) => {
+      // Keys typed in the caption and alternative text fields edit the fields.
+      if (event.target instanceof HTMLInputElement) return false;
+      if (!isSelected || !$isNodeSelection($getSelection())) return false;
+
+      event.preventDefault();
+      $getNodeByKey(nodeKey)?.remove();
+      return true;
+    };
+
+    return mergeRegister(
+      editor.registerCommand(
+        CLICK_COMMAND,
+        (event) => {
+          if (event.target !== imageRef.current) return false;
+
+          if (!event.shiftKey) clearSelection();
+          setSelected(!isSelected);
+          return true;
+        },
+        COMMAND_PRIORITY_LOW,
+      ),
+      editor.registerCommand(KEY_DELETE_COMMAND, $deleteSelectedImage, COMMAND_PRIORITY_LOW),
+      editor.registerCommand(KEY_BACKSPACE_COMMAND, $deleteSelectedImage, COMMAND_PRIORITY_LOW),
+    );
+  }, [editor, nodeKey, isSelected, setSelected, clearSelection]);
+
+  /**
+   * Resizes the image while a handle is dragged. The left handle grows the image to the left,
+   * so the distance is counted the other way. The image keeps its aspect ratio.
+   */
+  const startResize = (event: React.PointerEvent, direction: 1 | -1) => {
+    const image = imageRef.current;
+    const root = editor.getRootElement();
+    if (!image || !root) return;
+
+    event.preventDefault();
+
+    const startX = event.clientX;
+    const startWidth = image.getBoundingClientRect().width;
+    const maxWidth = root.clientWidth - parseFloat(getComputedStyle(root).paddingLeft) - parseFloat(getComputedStyle(root).paddingRight);
+    let currentWidth = startWidth;
+
+    const onPointerMove = (moveEvent: PointerEvent) => {
+      currentWidth = Math.round(Math.min(maxWidth, Math.max(MIN_WIDTH, startWidth + (moveEvent.clientX - startX) * direction)));
+      setResizeWidth(currentWidth);
+    };
+
+    const onPointerUp = () => {
+      document.removeEventListener('pointermove', onPointerMove);
+      document.removeEventListener('pointerup', onPointerUp);
+
+      updateImage((node) => node.setWidth(currentWidth));
+      setResizeWidth(null);
+    };
+
+    document.addEventListener('pointermove', onPointerMove);
+    document.addEventListener('pointerup', onPointerUp);
+  };
+
+  const isEditing = isEditable && isSelected;
+  const displayedWidth = resizeWidth ?? width;
+
+  return (
+    <figure className="editor-image-figure" style={{ width: displayedWidth ? `${displayedWidth}px` : undefined }}>
+      <div className={`editor-image-frame ${isEditing ? 'selected' : ''}`}>
+        {/* The images of documents are served by an authenticated route, which next/image cannot optimize. */}
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img ref={imageRef} src={src} alt={altText} draggable={false} className="editor-image-img" />
+        {isEditing && (
+          <>
+            <span className="editor-image-handle left" onPointerDown={(event) => startResize(event, -1)} />
+            <span className="editor-image-handle right" onPointerDown={(event) => startResize(event, 1)} />
+          </>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="editor-image-fields">
+          <input
+            aria-label="Caption"
+            placeholder="Add a caption"
+            value={draftCaption}
+            onChange={(e) => setDraftCaption(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            onBlur={() => draftCaption !== caption && updateImage((node) => node.setCaption(draftCaption))}
+            className="editor-image-input"
+          />
+          <input
+            aria-label="Alternative text"
+            placeholder="Describe the image for screen readers"
+            value={draftAltText}
+            onChange={(e) => setDraftAltText(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            onBlur={() => draftAltText !== altText && updateImage((node) => node.setAltText(draftAltText))}
+            className="editor-image-input"
+          />
+        </div>
+      ) : (
+        caption && <figcaption className="editor-image-caption">{caption}</figcaption>
+      )}
+    </figure>
+  );
+}
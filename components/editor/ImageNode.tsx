@@ -0,0 +1,176 @@
+import {
+  $applyNodeReplacement,
+  DecoratorNode,
+  type DOMExportOutput,
+  type EditorConfig,
+  type LexicalNode,
+  type NodeKey,
+  type SerializedLexicalNode,
+  type Spread,
+} from 'lexical';
+import * as React from 'react';
+import { Suspense } from 'react';
+
+// The component is only needed once an image is rendered, so it is not loaded by server code using the nodes.
+const ImageComponent = React.lazy(() => import('./ImageComponent'));
+
+export type ImagePayload = {
+  src: string;
+  altText: string;
+  caption?: string;
+  width?: number;
+  key?: NodeKey;
+};
+
+export type SerializedImageNode = Spread<
+  {
+    src: string;
+    altText: string;
+    caption: string;
+    width?: number;
+  },
+  SerializedLexicalNode
+>;
+
+/**
+ * An image uploaded to the document, with its alternative text, a caption and the width it was resized to.
+ * Without a width, the image is shown at its natural size, up to the width of the page.
+ *
+ * The caption is a plain string rather than a nested editor, so that every property of the image
+ * is synced by the LiveblocksPlugin as a whole.
+ */
+export class ImageNode extends DecoratorNode<JSX.Element> {
+  __src: string;
+  __altText: string;
+  __caption: string;
+  __width: number | undefined;
+
+  static getType(): string {
+    return 'image';
+  }
+
+  static clone(node: ImageNode): ImageNode {
+    return new ImageNode(node.__src, node.__altText, node.__caption, node.__width, node.__key);
+  }
+
+  static importJSON(serializedNode: SerializedImageNode): ImageNode {
+    const { src, altText, caption, width } = serializedNode;
+
+    return $createImageNode({ src, altText, caption, width });
+  }
+
+  constructor(src: string, altText: string, caption = '', width?: number, key?: NodeKey) {
+    super(key);
+    this.__src = src;
+    this.__altText = altText;
+    this.__caption = caption;
+    this.__width = width;
+  }
+
+  exportJSON(): SerializedImageNode {
+    return {
+      type: 'image',
+      version: 1,
+      src: this.getSrc(),
+      altText: this.getAltText(),
+      caption: this.getCaption(),
+      width: this.getWidth(),
+    };
+  }
+
+  // Used when the image is copied to another application.
+  exportDOM(): DOMExportOutput {
+    const figure = document.createElement('figure');
+    const image = document.createElement('img');
+
+    image.setAttribute('src', this.getSrc());
+    image.setAttribute('alt', this.getAltText());
+    if (this.getWidth()) image.setAttribute('width', String(this.getWidth()));
+    figure.append(image);
+
+    if (this.getCaption()) {
+      const caption = document.createElement('figcaption');
+      caption.textContent = this.getCaption();
+      figure.append(caption);
+    }
+
+    return { element: figure };
+  }
+
+  createDOM(config: EditorConfig): HTMLElement {
+    const div = document.createElement('div');
+    const className = config.theme.image;
+
+    if (className) div.className = className;
+
+    return div;
+  }
+
+  updateDOM(): false {
+    return false;
+  }
+
+  isInline(): boolean {
+    return false;
+  }
+
+  getSrc(): string {
+    return this.getLatest().__src;
+  }
+
+  getAltText(): string {
+    return this.getLatest().__altText;
+  }
+
+  setAltText(altText: string): this {
+    const writable = this.getWritable();
+    writable.__altText = altText;
+    return writable;
+  }
+
+  getCaption(): string {
+    return this.getLatest().__caption;
+  }
+
+  setCaption(caption: string): this {
+    const writable = this.getWritable();
+    writable.__caption = caption;
+    return writable;
+  }
+
+  getWidth(): number | undefined {
+    return this.getLatest().__width;
+  }
+
+  setWidth(width: number | undefined): this {
+    const writable = this.getWritable();
+    writable.__width = width;
+    return writable;
+  }
+
+  getTextContent(): string {
+    return this.getCaption();
+  }
+
+  decorate(): JSX.Element {
+    return (
+      <Suspense fallback={null}>
+        <ImageComponent
+          nodeKey={this.getKey()}
+          src={this.__src}
+          altText={this.__altText}
+          caption={this.__caption}
+          width={this.__width}
+        />
+      </Suspense>
+    );
+  }
+}
+
+export function $createImageNode({ src, altText, caption, width, key }: ImagePayload): ImageNode {
+  return $applyNodeReplacement(new ImageNode(src, altText, caption, width, key));
+}
+
+export function $isImageNode(node: LexicalNode | null | undefined): node is ImageNode {
+  return node instanceof ImageNode;
+}
@@ -0,0 +1,213 @@
+import { nanoid } from 'nanoid';
+import {
+  $applyNodeReplacement,
+  $nodesOfType,
+  ElementNode,
+  type EditorConfig,
+  type LexicalNode,
+  type NodeKey,
+  type SerializedElementNode,
+  type Spread,
+} from 'lexical';
+
+import { getUserColor } from '@/lib/utils';
+
+// "insert" suggests adding the text of the node, "delete" suggests removing it.
+export type SuggestionType = 'insert' | 'delete';
+
+export type SuggestionAuthor = {
+  id: string;
+  name: string;
+};
+
+export type SerializedSuggestionNode = Spread<
+  {
+    suggestionType: SuggestionType;
+    suggestionId: string;
+    authorId: string;
+    authorName: string;
+    createdAt: string;
+  },
+  SerializedElementNode
+>;
+
+/**
+ * Text suggested in suggestion mode: an insertion, shown underlined, or a deletion, shown struck through,
+ * both in the color getUserColor gives their author. The suggested change is only applied once accepted.
+ *
+ * A suggestion can be split across several nodes, e.g. when a deletion spans several paragraphs,
+ * so the nodes of a suggestion share its ID, which the suggestion cards and the accept and reject
+ * actions go by. Suggestions are regular nodes, so they are synced to collaborators by the LiveblocksPlugin.
+ */
+export class SuggestionNode extends ElementNode {
+  __suggestionType: SuggestionType;
+  __suggestionId: string;
+  __authorId: string;
+  __authorName: string;
+  __createdAt: string;
+
+  static getType(): string {
+    return 'suggestion';
+  }
+
+  static clone(node: SuggestionNode): SuggestionNode {
+    return new SuggestionNode(
+      node.__suggestionType,
+      node.__suggestionId,
+      { id: node.__authorId, name: node.__authorName },
+      node.__createdAt,
+      node.__key,
+    );
+  }
+
+  static importJSON(serializedNode: SerializedSuggestionNode): SuggestionNode {
+    const { suggestionType, suggestionId, authorId, authorName, createdAt } = serializedNode;
+
+    return $applyNodeReplacement(
+      new SuggestionNode(suggestionType, suggestionId, { id: authorId, name: authorName }, createdAt),
+    );
+  }
+
+  constructor(type: SuggestionType, id: string, author: SuggestionAuthor, createdAt: string, key?: NodeKey) {
+    super(key);
+    this.__suggestionType = type;
+    this.__suggestionId = id;
+    this.__authorId = author.id;
+    this.__authorName = author.name;
+    this.__createdAt = createdAt;
+  }
+
+  exportJSON(): SerializedSuggestionNode {
+    return {
+      ...super.exportJSON(),
+      type: 'suggestion',
+      version: 1,
+      suggestionType: this.getSuggestionType(),
+      suggestionId: this.getSuggestionId(),
+      authorId: this.getAuthor().id,
+      authorName: this.getAuthor().name,
+      createdAt: this.getCreatedAt(),
+    };
+  }
+
+  createDOM(config: EditorConfig): HTMLElement {
+    const isInsertion = this.__suggestionType === 'insert';
+    const element = document.createElement(isInsertion ? 'ins' : 'del');
+    const className = isInsertion ? config.theme.suggestionInsert : config.theme.suggestionDelete;
+
+    if (className) element.className = className;
+    element.style.setProperty('--suggestion-color', getUserColor(this.__authorId));
+    element.dataset.suggestionId = this.__suggestionId;
+    element.title = `${isInsertion ? 'Insertion' : 'Deletion'} suggested by ${this.__authorName}`;
+
+    return element;
+  }
+
+  updateDOM(prevNode: SuggestionNode): boolean {
+    return prevNode.__suggestionType !== this.__suggestionType ||
+      prevNode.__suggestionId !== this.__suggestionId ||
+      prevNode.__authorId !== this.__authorId;
+  }
+
+  isInline(): true {
+    return true;
+  }
+
+  canBeEmpty(): false {
+    return false;
+  }
+
+  // Text typed at the edges of a suggestion is not part of it, SuggestionPlugin extends insertions itself.
+  canInsertTextBefore(): false {
+    return false;
+  }
+
+  canInsertTextAfter(): false {
+    return false;
+  }
+
+  // Copied text loses its suggestions, so pasting it does not suggest changes in the name of their author.
+  excludeFromCopy(): boolean {
+    return true;
+  }
+
+  getSuggestionType(): SuggestionType {
+    return this.getLatest().__suggestionType;
+  }
+
+  getSuggestionId(): string {
+    return this.getLatest().__suggestionId;
+  }
+
+  getAuthor(): SuggestionAuthor {
+    const self = this.getLatest();
+
+    return { id: self.__authorId, name: self.__authorName };
+  }
+
+  getCreatedAt(): string {
+    return this.getLatest().__createdAt;
+  }
+
+  /**
+   * Returns true if the node is part of a suggestion of the same type by the same author,
+   * so that the two can be merged.
+   */
+  isSameSuggestionKind(node: SuggestionNode): boolean {
+    return this.getSuggestionType() === node.getSuggestionType() && this.getAuthor().id === node.getAuthor().id;
+  }
+
+  /**
+   * Applies the suggested change: an insertion becomes regular text, and a deletion removes its text.
+   */
+  accept(): void {
+    if (this.getSuggestionType() === 'insert') {
+      this.unwrap();
+    } else {
+      this.remove();
+    }
+  }
+
+  /**
+   * Drops the suggested change: an insertion removes its text, and a deletion becomes regular text again.
+   */
+  reject(): void {
+    if (this.getSuggestionType() === 'insert') {
+      this.remove();
+    } else {
+      this.unwrap();
+    }
+  }
+
+  private unwrap(): void {
+    this.getChildren().forEach((child) => this.insertBefore(child));
+    this.remove();
+  }
+}
+
+/**
+ * Creates a suggestion node. The nodes of a change that spans several blocks are created with the same ID.
+ */
+export function $createSuggestionNode(type: SuggestionType, author: SuggestionAuthor, id = nanoid()): SuggestionNode {
+  return $applyNodeReplacement(new SuggestionNode(type, id, author, new Date().toISOString()));
+}
+
+export function $isSuggestionNode(node: LexicalNode | null | undefined): node is SuggestionNode {
+  return node instanceof SuggestionNode;
+}
+
+/**
+ * Accepts or rejects the suggestions with the given IDs, or every suggestion of the document without IDs.
+ * Called inside a single editor.update, so that it is a single step to undo.
+ */
+export function $resolveSuggestions(accept: boolean, ids?: string[]): void {
+  $nodesOfType(SuggestionNode)
+    .filter((node) => !ids || ids.includes(node.getSuggestionId()))
+    .forEach((node) => {
+      if (accept) {
+        node.accept();
+      } else {
+        node.reject();
+      }
+    });
+}
@@ -0,0 +1,78 @@
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { useLexicalEditable } from '@lexical/react/useLexicalEditable';
+import { useLexicalNodeSelection } from '@lexical/react/useLexicalNodeSelection';
+import { mergeRegister } from '@lexical/utils';
+import {
+  $getNodeByKey,
+  $getSelection,
+  $isNodeSelection,
+  CLICK_COMMAND,
+  COMMAND_PRIORITY_LOW,
+  KEY_BACKSPACE_COMMAND,
+  KEY_DELETE_COMMAND,
+  type NodeKey,
+} from 'lexical';
+import { useEffect, useRef } from 'react';
+import * as React from 'react';
+
+import { useTableOfContents } from './plugins/TableOfContentsPlugin';
+import { scrollToHeading } from './utils';
+
+/**
+ * Renders a TableOfContentsNode: the headings of the document, indented by level, which scroll to
+ * the heading when clicked. Clicking the block elsewhere selects it, so that editors can delete it.
+ */
+export default function TableOfContentsComponent({ nodeKey }: { nodeKey: NodeKey }) {
+  const [editor] = useLexicalComposerContext();
+  const isEditable = useLexicalEditable();
+  const [isSelected, setSelected, clearSelection] = useLexicalNodeSelection(nodeKey);
+  const entries = useTableOfContents();
+  const navRef = useRef<HTMLElement | null>(null);
+
+  useEffect(() => {
+    const $deleteSelectedTableOfContents = (event: KeyboardEvent) => {
+      if (!isSelected || !$isNodeSelection($getSelection())) return false;
+
+      event.preventDefault();
+      $getNodeByKey(nodeKey)?.remove();
+      return true;
+    };
+
+    return mergeRegister(
+      editor.registerCommand(
+        CLICK_COMMAND,
+        (event) => {
+          // Clicking a heading scrolls to it rather than selecting the block.
+          if (!(event.target instanceof Node) || !navRef.current?.contains(event.target)) return false;
+          if (event.target instanceof HTMLElement && event.target.closest('button')) return false;
+
+          if (!event.shiftKey) clearSelection();
+          setSelected(!isSelected);
+          return true;
+        },
+        COMMAND_PRIORITY_LOW,
+      ),
+      editor.registerCommand(KEY_DELETE_COMMAND, $deleteSelectedTableOfContents, COMMAND_PRIORITY_LOW),
+      editor.registerCommand(KEY_BACKSPACE_COMMAND, $deleteSelectedTableOfContents, COMMAND_PRIORITY_LOW),
+    );
+  }, [editor, nodeKey, isSelected, setSelected, clearSelection]);
+
+  return (
+    <nav ref={navRef} className={`editor-toc ${isEditable && isSelected ? 'selected' : ''}`} aria-label="Table of contents">
+      <p className="editor-toc-title">Table of contents</p>
+      {entries.length === 0 ? (
+        <p className="editor-toc-empty">Add headings to the document to list them here.</p>
+      ) : (
+        <ul>
+          {entries.map(({ key, text, level }) => (
+            <li key={key} style={{ paddingLeft: `${(level - 1) * 16}px` }}>
+              <button type="button" onClick={() => scrollToHeading(editor, key)} className="editor-toc-item">
+                {text}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </nav>
+  );
+}
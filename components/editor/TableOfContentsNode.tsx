@@ -0,0 +1,79 @@
+import {
+  $applyNodeReplacement,
+  DecoratorNode,
+  type EditorConfig,
+  type LexicalNode,
+  type NodeKey,
+  type SerializedLexicalNode,
+} from 'lexical';
+import * as React from 'react';
+import { Suspense } from 'react';
+
+// The component is only needed once a table of contents is rendered, so it is not loaded by server code using the nodes.
+const TableOfContentsComponent = React.lazy(() => import('./TableOfContentsComponent'));
+
+export type SerializedTableOfContentsNode = SerializedLexicalNode;
+
+/**
+ * A table of contents inserted in the document, which lists its headings.
+ *
+ * The node does not store the headings: every collaborator builds the list from their own copy of the
+ * document, so it is always up to date with the headings, whoever changes them.
+ */
+export class TableOfContentsNode extends DecoratorNode<JSX.Element> {
+  static getType(): string {
+    return 'table-of-contents';
+  }
+
+  static clone(node: TableOfContentsNode): TableOfContentsNode {
+    return new TableOfContentsNode(node.__key);
+  }
+
+  static importJSON(): TableOfContentsNode {
+    return $createTableOfContentsNode();
+  }
+
+  constructor(key?: NodeKey) {
+    super(key);
+  }
+
+  exportJSON(): SerializedTableOfContentsNode {
+    return {
+      type: 'table-of-contents',
+      version: 1,
+    };
+  }
+
+  createDOM(config: EditorConfig): HTMLElement {
+    const div = document.createElement('div');
+    const className = config.theme.tableOfContents;
+
+    if (className) div.className = className;
+
+    return div;
+  }
+
+  updateDOM(): false {
+    return false;
+  }
+
+  isInline(): boolean {
+    return false;
+  }
+
+  decorate(): JSX.Element {
+    return (
+      <Suspense fallback={null}>
+        <TableOfContentsComponent nodeKey={this.getKey()} />
+      </Suspense>
+    );
+  }
+}
+
+export function $createTableOfContentsNode(): TableOfContentsNode {
+  return $applyNodeReplacement(new TableOfContentsNode());
+}
+
+export function $isTableOfContentsNode(node: LexicalNode | null | undefined): node is TableOfContentsNode {
+  return node instanceof TableOfContentsNode;
+}
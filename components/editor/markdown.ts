@@ -0,0 +1,98 @@
+import {
+  BOLD_ITALIC_STAR,
+  BOLD_ITALIC_UNDERSCORE,
+  BOLD_STAR,
+  BOLD_UNDERSCORE,
+  CHECK_LIST,
+  CODE,
+  ElementTransformer,
+  HEADING,
+  INLINE_CODE,
+  ITALIC_STAR,
+  ITALIC_UNDERSCORE,
+  LINK,
+  ORDERED_LIST,
+  QUOTE,
+  STRIKETHROUGH,
+  Transformer,
+  UNORDERED_LIST,
+} from '@lexical/markdown';
+import {
+  $createHorizontalRuleNode,
+  $isHorizontalRuleNode,
+  HorizontalRuleNode,
+} from '@lexical/react/LexicalHorizontalRuleNode';
+
+/**
+ * Converts a line of three or more "-", "*" or "_" to a divider. @lexical/markdown has no transformer for it.
+ */
+export const HORIZONTAL_RULE: ElementTransformer = {
+  dependencies: [HorizontalRuleNode],
+  export: (node) => ($isHorizontalRuleNode(node) ? '---' : null),
+  regExp: /^(?:-{3,}|\*{3,}|_{3,})\s?$/,
+  replace: (parentNode, _children, _match, isImport) => {
+    const line = $createHorizontalRuleNode();
+
+    // While typing, the divider is inserted before the current block, which stays to type in.
+    if (isImport || parentNode.getNextSibling() !== null) {
+      parentNode.replace(line);
+    } else {
+      parentNode.insertBefore(line);
+    }
+
+    line.selectNext();
+  },
+  type: 'element',
+};
+
+/**
+ * The Markdown transformers supported by the editor.
+ * Only transformers whose nodes are registered in EditorNodes can be listed here,
+ * otherwise converting a document that uses them would throw.
+ */
+const MARKDOWN_TRANSFORMERS: Array<Transformer> = [
+  HEADING,
+  QUOTE,
+  HORIZONTAL_RULE,
+  // CHECK_LIST must come first, since "- [ ] " also matches UNORDERED_LIST.
+  CHECK_LIST,
+  UNORDERED_LIST,
+  ORDERED_LIST,
+  CODE,
+  INLINE_CODE,
+  BOLD_ITALIC_STAR,
+  BOLD_ITALIC_UNDERSCORE,
+  BOLD_STAR,
+  BOLD_UNDERSCORE,
+  ITALIC_STAR,
+  ITALIC_UNDERSCORE,
+  STRIKETHROUGH,
+  LINK,
+];
+
+// Headings typed as "# " to "### ", the levels offered by the ToolbarPlugin.
+const HEADING_SHORTCUT: ElementTransformer = { ...HEADING, regExp: /^(#{1,3})\s/ };
+
+/**
+ * The Markdown transformers applied while typing in the editor, e.g. "## " starts a heading, "- " a bulleted list,
+ * "```ts " a TypeScript code block and "**bold**" makes the text bold.
+ */
+export const SHORTCUT_TRANSFORMERS: Array<Transformer> = [
+  HEADING_SHORTCUT,
+  QUOTE,
+  HORIZONTAL_RULE,
+  CHECK_LIST,
+  UNORDERED_LIST,
+  ORDERED_LIST,
+  CODE,
+  INLINE_CODE,
+  BOLD_ITALIC_STAR,
+  BOLD_ITALIC_UNDERSCORE,
+  BOLD_STAR,
+  BOLD_UNDERSCORE,
+  ITALIC_STAR,
+  ITALIC_UNDERSCORE,
+  STRIKETHROUGH,
+];
+
+export default MARKDOWN_TRANSFORMERS;
@@ -0,0 +1,36 @@
+import { CodeHighlightNode, CodeNode } from '@lexical/code';
+import { AutoLinkNode, LinkNode } from '@lexical/link';
+import { ListItemNode, ListNode } from '@lexical/list';
+import { HorizontalRuleNode } from '@lexical/react/LexicalHorizontalRuleNode';
+import { HeadingNode, QuoteNode } from '@lexical/rich-text';
+import { TableCellNode, TableNode, TableRowNode } from '@lexical/table';
+import type { Klass, LexicalNode } from 'lexical';
+
+import { ImageNode } from './ImageNode';
+import { SuggestionNode } from './SuggestionNode';
+import { TableOfContentsNode } from './TableOfContentsNode';
+
+/**
+ * The Lexical nodes registered by every editor in the application.
+ * The collaborative editor and the read-only previews must share the same list,
+ * otherwise a serialized state created by one cannot be parsed by the other.
+ */
+const EditorNodes: Array<Klass<LexicalNode>> = [
+  HeadingNode,
+  QuoteNode,
+  ListNode,
+  ListItemNode,
+  LinkNode,
+  AutoLinkNode,
+  CodeNode,
+  CodeHighlightNode,
+  TableNode,
+  TableRowNode,
+  TableCellNode,
+  ImageNode,
+  HorizontalRuleNode,
+  SuggestionNode,
+  TableOfContentsNode,
+];
+
+export default EditorNodes;
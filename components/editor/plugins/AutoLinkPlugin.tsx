@@ -0,0 +1,38 @@
+import {
+  AutoLinkPlugin as LexicalAutoLinkPlugin,
+  createLinkMatcherWithRegExp,
+  type LinkMatcher,
+} from '@lexical/react/LexicalAutoLinkPlugin';
+import React from 'react';
+
+import { sanitizeUrl } from '@/lib/utils';
+
+const URL_REGEX =
+  /((https?:\/\/(www\.)?)|(www\.))[-a-zA-Z0-9@:%._+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b([-a-zA-Z0-9()@:%_+.~#?&//=]*)(?<![-.+():%])/;
+
+const EMAIL_REGEX =
+  /(([^<>()[\]\\.,;:\s@"]+(\.[^<>()[\]\\.,;:\s@"]+)*)|(".+"))@((\[[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}])|(([a-zA-Z\-0-9]+\.)+[a-zA-Z]{2,}))/;
+
+/**
+ * Creates a matcher that only links text whose URL passes sanitizeUrl, e.g. "www.example.com" links to "https://www.example.com/".
+ */
+function createSafeLinkMatcher(regExp: RegExp): LinkMatcher {
+  const matcher = createLinkMatcherWithRegExp(regExp);
+
+  return (text) => {
+    const match = matcher(text);
+    const url = match && sanitizeUrl(match.text);
+
+    return match && url ? { ...match, url } : null;
+  };
+}
+
+const MATCHERS = [createSafeLinkMatcher(URL_REGEX), createSafeLinkMatcher(EMAIL_REGEX)];
+
+/**
+ * Turns web addresses and email addresses into links as they are typed or pasted.
+ * The links follow their text, so editing the text of an automatic link updates its URL.
+ */
+export default function AutoLinkPlugin() {
+  return <LexicalAutoLinkPlugin matchers={MATCHERS} />;
+}
@@ -0,0 +1,124 @@
+import { $isCodeNode, getLanguageFriendlyName, normalizeCodeLang } from '@lexical/code';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { $getNearestNodeFromDOMNode } from 'lexical';
+import { useEffect, useState } from 'react';
+import * as React from 'react';
+import { createPortal } from 'react-dom';
+
+import { CODE_LANGUAGES, DEFAULT_CODE_LANGUAGE } from './CodeHighlightPlugin';
+
+// The code block under the mouse, and where it is on the screen.
+type HoveredCodeBlock = {
+  element: HTMLElement;
+  language: string;
+  rect: DOMRect;
+};
+
+/**
+ * A menu shown in the top right corner of the code block under the mouse.
+ * Editors can change the language of the block, and everyone can copy its content to the clipboard.
+ */
+export default function CodeActionMenuPlugin() {
+  const [editor] = useLexicalComposerContext();
+  const [codeBlock, setCodeBlock] = useState<HoveredCodeBlock | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const onMouseMove = (event: MouseEvent) => {
+      const target = event.target as HTMLElement | null;
+
+      // Keep the menu open while the mouse is over it.
+      if (target?.closest('.code-action-menu')) return;
+
+      const element = target?.closest<HTMLElement>('code.editor-code');
+
+      if (!element || !editor.getRootElement()?.contains(element)) {
+        setCodeBlock(null);
+        return;
+      }
+
+      // CodeNode writes its language to the DOM, so the editor state does not have to be read on every move.
+      const language = normalizeCodeLang(element.getAttribute('data-language') || DEFAULT_CODE_LANGUAGE);
+      const rect = element.getBoundingClientRect();
+
+      // Only re-render when the mouse moves to another block, or the block moved or changed language.
+      setCodeBlock((current) =>
+        current?.element === element && current.language === language &&
+        current.rect.top === rect.top && current.rect.right === rect.right
+          ? current
+          : { element, language, rect },
+      );
+    };
+
+    // The menu is positioned once per hover, so it is hidden until the mouse moves again after scrolling.
+    const onScroll = () => setCodeBlock(null);
+
+    document.addEventListener('mousemove', onMouseMove);
+    document.addEventListener('scroll', onScroll, true);
+
+    return () => {
+      document.removeEventListener('mousemove', onMouseMove);
+      document.removeEventListener('scroll', onScroll, true);
+    };
+  }, [editor]);
+
+  useEffect(() => setCopied(false), [codeBlock?.element]);
+
+  if (codeBlock === null) return null;
+
+  const changeLanguageHandler = (language: string) => {
+    editor.update(() => {
+      const node = $getNearestNodeFromDOMNode(codeBlock.element);
+
+      if ($isCodeNode(node)) node.setLanguage(language);
+    });
+
+    setCodeBlock({ ...codeBlock, language });
+  };
+
+  const copyHandler = async () => {
+    let content = '';
+
+    // Line breaks are <br> elements in the DOM, so the text is read from the node instead.
+    editor.update(() => {
+      content = $getNearestNodeFromDOMNode(codeBlock.element)?.getTextContent() ?? '';
+    });
+
+    await navigator.clipboard.writeText(content);
+
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return createPortal(
+    <div
+      className="code-action-menu"
+      style={{ top: codeBlock.rect.top + 4, left: codeBlock.rect.right - 4 }}
+    >
+      {editor.isEditable() ? (
+        <select
+          aria-label="Code language"
+          value={codeBlock.language}
+          onChange={(e) => changeLanguageHandler(e.target.value)}
+          className="code-action-menu-select"
+        >
+          {/* Blocks imported in another language keep it until a supported one is picked. */}
+          {!(codeBlock.language in CODE_LANGUAGES) && (
+            <option value={codeBlock.language}>{getLanguageFriendlyName(codeBlock.language)}</option>
+          )}
+          {Object.entries(CODE_LANGUAGES).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      ) : (
+        <span className="code-action-menu-language">
+          {CODE_LANGUAGES[codeBlock.language] ?? getLanguageFriendlyName(codeBlock.language)}
+        </span>
+      )}
+      <button type="button" onClick={copyHandler} className="code-action-menu-btn">
+        {copied ? 'Copied' : 'Copy'}
+      </button>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,38 @@
+import { PrismTokenizer, registerCodeHighlighting } from '@lexical/code';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { useEffect } from 'react';
+
+// @lexical/code loads Prism with a set of common languages, Bash and JSON have to be added.
+import 'prismjs/components/prism-bash';
+import 'prismjs/components/prism-json';
+
+/**
+ * The languages offered for code blocks, keyed by the name CodeNode stores once normalized
+ * by normalizeCodeLang, e.g. "python" is stored as "py".
+ */
+export const CODE_LANGUAGES: Record<string, string> = {
+  typescript: 'TypeScript',
+  js: 'JavaScript',
+  json: 'JSON',
+  bash: 'Bash',
+  sql: 'SQL',
+  py: 'Python',
+};
+
+// The language of new code blocks.
+export const DEFAULT_CODE_LANGUAGE = 'typescript';
+
+/**
+ * Highlights the syntax of code blocks with Prism, in the language of each block.
+ * Blocks without a language, e.g. imported from a Markdown fence without one, are highlighted as DEFAULT_CODE_LANGUAGE.
+ */
+export default function CodeHighlightPlugin() {
+  const [editor] = useLexicalComposerContext();
+
+  useEffect(
+    () => registerCodeHighlighting(editor, { ...PrismTokenizer, defaultLanguage: DEFAULT_CODE_LANGUAGE }),
+    [editor],
+  );
+
+  return null;
+}
@@ -0,0 +1,162 @@
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { createRectsFromDOMRange } from '@lexical/selection';
+import { mergeRegister } from '@lexical/utils';
+import { useOthers, useUpdateMyPresence } from '@liveblocks/react/suspense';
+import { $getSelection, $isRangeSelection, type LexicalEditor } from 'lexical';
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import * as React from 'react';
+
+import { cn } from '@/lib/utils';
+import { $getCursorPoint, $resolveCursorPoint } from '../utils';
+import { createDOMRange } from './FloatingToolbarPlugin';
+
+// The name of a collaborator fades out once they have not typed or moved their selection for this long.
+const IDLE_AFTER_MS = 10_000;
+
+type Box = { top: number; left: number; width: number; height: number };
+
+// Where the caret and the selected ranges of a collaborator are drawn, relative to the page of the editor.
+type CursorLayout = {
+  caret: Box;
+  selections: Box[];
+};
+
+/**
+ * Computes where to draw the cursor of a collaborator, or returns null if it is not in the current document.
+ */
+const getCursorLayout = (editor: LexicalEditor, container: HTMLElement, cursor: CursorPresence): CursorLayout | null => {
+  const origin = container.getBoundingClientRect();
+  const toBox = (rect: DOMRect) => ({
+    top: rect.top - origin.top,
+    left: rect.left - origin.left,
+    width: rect.width,
+    height: rect.height,
+  });
+
+  return editor.getEditorState().read(() => {
+    const anchor = $resolveCursorPoint(cursor.anchor);
+    const focus = $resolveCursorPoint(cursor.focus);
+    if (!anchor || !focus) return null;
+
+    const caretRange = createDOMRange(editor, focus.node, focus.offset, focus.node, focus.offset);
+    if (!caretRange) return null;
+
+    // A collapsed range in an empty block has no size, so the caret takes the height of the block instead.
+    let caretRect = caretRange.getBoundingClientRect();
+    if (caretRect.height === 0) {
+      const element = editor.getElementByKey(focus.node.getKey());
+      if (!element) return null;
+
+      caretRect = element.getBoundingClientRect();
+    }
+
+    const selectionRange = anchor.node.is(focus.node) && anchor.offset === focus.offset
+      ? null
+      : createDOMRange(editor, anchor.node, anchor.offset, focus.node, focus.offset);
+
+    return {
+      caret: { ...toBox(caretRect), width: 2 },
+      selections: selectionRange ? createRectsFromDOMRange(editor, selectionRange).map(toBox) : [],
+    };
+  });
+};
+
+/**
+ * Shares the selection of the current user through their Liveblocks presence, and draws the selections
+ * of the other users: a caret with their name, and their selected text, in the color of each user.
+ * The name of a user fades out when they are idle, and shows again as soon as they type or move their selection.
+ *
+ * Selections are shared as paths from the root of the document, see $getCursorPoint, so they are redrawn
+ * whenever the document changes. Viewers and commenters share their selection too, so that everyone can see
+ * what they are reading.
+ */
+export default function CollaboratorCursorsPlugin() {
+  const [editor] = useLexicalComposerContext();
+  const updateMyPresence = useUpdateMyPresence();
+  const others = useOthers();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const publishedRef = useRef('');
+
+  const [layouts, setLayouts] = useState<Map<number, CursorLayout>>(new Map());
+  // Bumped when the document or the size of the window changes, which moves the cursors of everyone.
+  const [revision, setRevision] = useState(0);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const onResize = () => setRevision((current) => current + 1);
+
+    window.addEventListener('resize', onResize);
+
+    return mergeRegister(
+      editor.registerUpdateListener(({ editorState, tags }) => {
+        setRevision((current) => current + 1);
+
+        const cursor = editorState.read(() => {
+          const selection = $getSelection();
+
+          return $isRangeSelection(selection)
+            ? { anchor: $getCursorPoint(selection.anchor), focus: $getCursorPoint(selection.focus) }
+            : null;
+        });
+
+        const published = JSON.stringify(cursor);
+        if (published === publishedRef.current) return;
+
+        publishedRef.current = published;
+
+        // Changes made by collaborators can move the cursor, but they do not make the current user active.
+        updateMyPresence(tags.has('collaboration') ? { cursor } : { cursor, lastActiveAt: Date.now() });
+      }),
+      () => window.removeEventListener('resize', onResize),
+    );
+  }, [editor, updateMyPresence]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const nextLayouts = new Map<number, CursorLayout>();
+
+    others.forEach(({ connectionId, presence }) => {
+      const layout = presence.cursor ? getCursorLayout(editor, container, presence.cursor) : null;
+
+      if (layout) nextLayouts.set(connectionId, layout);
+    });
+
+    setLayouts(nextLayouts);
+  }, [editor, others, revision]);
+
+  return (
+    <div ref={containerRef} className="collaborator-cursors" aria-hidden>
+      {others.map(({ connectionId, info, presence }) => {
+        const layout = layouts.get(connectionId);
+        if (!layout) return null;
+
+        const isIdle = now - presence.lastActiveAt > IDLE_AFTER_MS;
+
+        return (
+          <React.Fragment key={connectionId}>
+            {layout.selections.map((box, index) => (
+              <span key={index} className="collaborator-selection" style={{ ...box, backgroundColor: info.color }} />
+            ))}
+            <span
+              className="collaborator-caret"
+              data-connection-id={connectionId}
+              style={{ ...layout.caret, backgroundColor: info.color }}
+            >
+              <span className={cn('collaborator-label', isIdle && 'idle')} style={{ backgroundColor: info.color }}>
+                {info.name}
+              </span>
+            </span>
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+}
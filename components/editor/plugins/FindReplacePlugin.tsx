@@ -0,0 +1,334 @@
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { useLexicalEditable } from '@lexical/react/useLexicalEditable';
+import { $findMatchingParent } from '@lexical/utils';
+import {
+  $getNodeByKey,
+  $getRoot,
+  $isElementNode,
+  $isTextNode,
+  type NodeKey,
+  type TextNode,
+} from 'lexical';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import * as React from 'react';
+import { createPortal } from 'react-dom';
+
+// The names of the CSS highlights styled with ::highlight() in globals.css.
+const MATCH_HIGHLIGHT = 'find-match';
+const CURRENT_MATCH_HIGHLIGHT = 'find-match-current';
+
+type FindOptions = {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+};
+
+/**
+ * A match of the search. It can span several text nodes of the same block, e.g. when part of it is bold,
+ * so it is made of one segment per text node, with the offsets of the match inside that node.
+ */
+type FindMatch = {
+  segments: Array<{ key: NodeKey; start: number; end: number }>;
+  // The matched text and its capture groups, used to expand "$1" in regex replacements.
+  groups: string[];
+};
+
+/**
+ * Builds the regular expression of a search, or returns null if the query is empty or is not a valid regex.
+ */
+const getSearchPattern = (query: string, { caseSensitive, wholeWord, regex }: FindOptions) => {
+  if (!query) return null;
+
+  const source = regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+  try {
+    return new RegExp(wholeWord ? `\\b(?:${source})\\b` : source, caseSensitive ? 'g' : 'gi');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Finds the matches of a pattern in the document, in the order they appear.
+ * The text nodes of each block are searched together, so a match can cross a change of format.
+ */
+const $findMatches = (pattern: RegExp): FindMatch[] => {
+  const blocks = new Map<NodeKey, TextNode[]>();
+
+  $getRoot().getAllTextNodes().forEach((node) => {
+    const block = $findMatchingParent(node, (parent) => $isElementNode(parent) && !parent.isInline());
+    const key = block?.getKey() ?? 'root';
+
+    blocks.set(key, [...(blocks.get(key) ?? []), node]);
+  });
+
+  return Array.from(blocks.values()).flatMap((nodes) => {
+    let offset = 0;
+    const ranges = nodes.map((node) => {
+      const start = offset;
+      offset += node.getTextContentSize();
+
+      return { key: node.getKey(), start, end: offset };
+    });
+    const text = nodes.map((node) => node.getTextContent()).join('');
+
+    return Array.from(text.matchAll(pattern))
+      .filter((match) => match[0].length > 0)
+      .map((match) => {
+        const matchStart = match.index ?? 0;
+        const matchEnd = matchStart + match[0].length;
+
+        return {
+          segments: ranges
+            .filter(({ start, end }) => start < matchEnd && end > matchStart)
+            .map(({ key, start, end }) => ({
+              key,
+              start: Math.max(matchStart, start) - start,
+              end: Math.min(matchEnd, end) - start,
+            })),
+          groups: Array.from(match, (group) => group ?? ''),
+        };
+      });
+  });
+};
+
+/**
+ * Replaces a match with a text. The text is written in the first node of the match, so it takes its format.
+ */
+const $replaceMatch = ({ segments }: FindMatch, replacement: string) => {
+  segments.forEach(({ key, start, end }, index) => {
+    const node = $getNodeByKey(key);
+
+    if ($isTextNode(node)) node.spliceText(start, end - start, index === 0 ? replacement : '');
+  });
+};
+
+/**
+ * Expands "$&" and "$1" to "$99" in the replacement of a regex search, like String.prototype.replace.
+ */
+const expandReplacement = (replacement: string, groups: string[]) =>
+  replacement.replace(/\$(\$|&|\d{1,2})/g, (token, name: string) => {
+    if (name === '$') return '$';
+    if (name === '&') return groups[0];
+
+    return Number(name) < groups.length ? groups[Number(name)] : token;
+  });
+
+/**
+ * Builds a DOM range that covers a match, or returns null if the match is not rendered.
+ */
+const getMatchRange = (getElementByKey: (key: NodeKey) => HTMLElement | null, { segments }: FindMatch) => {
+  const first = segments[0];
+  const last = segments[segments.length - 1];
+  const startText = getElementByKey(first.key)?.firstChild;
+  const endText = getElementByKey(last.key)?.firstChild;
+
+  if (!startText || !endText) return null;
+
+  const range = document.createRange();
+
+  try {
+    range.setStart(startText, first.start);
+    range.setEnd(endText, last.end);
+  } catch {
+    return null;
+  }
+
+  return range;
+};
+
+/**
+ * A find bar opened with Ctrl/Cmd+F, which highlights every match in the document and moves between them.
+ * The search can be case sensitive, match whole words only, or be a regular expression.
+ *
+ * Editors can also replace the current match, or every match at once. Replacing every match is a single update,
+ * so it is a single step to undo. Viewers and commenters only get the find half, as the document is read-only for them.
+ * Matches are highlighted with the CSS Custom Highlight API, which does not touch the DOM managed by Lexical.
+ */
+export default function FindReplacePlugin() {
+  const [editor] = useLexicalComposerContext();
+  const isEditable = useLexicalEditable();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [options, setOptions] = useState<FindOptions>({ caseSensitive: false, wholeWord: false, regex: false });
+  const [matches, setMatches] = useState<FindMatch[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+
+  const pattern = useMemo(() => getSearchPattern(query, options), [query, options]);
+  const isInvalidRegex = options.regex && query !== '' && pattern === null;
+  const current = matches.length > 0 ? Math.min(currentIndex, matches.length - 1) : -1;
+  // The text node the current match starts in. The matches are searched again on every change of the document,
+  // but the key stays the same, so scrolling to the current match does not follow the edits.
+  const currentKey = current === -1 ? null : matches[current].segments[0].key;
+
+  // Ctrl/Cmd+F opens the find bar instead of the find of the browser, Escape closes it.
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'f' && (event.ctrlKey || event.metaKey) && !event.altKey) {
+        event.preventDefault();
+        setOpen(true);
+        inputRef.current?.select();
+      }
+    };
+
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // The matches are searched again on every change, including the changes of collaborators.
+  useEffect(() => {
+    if (!open || !pattern) {
+      setMatches([]);
+      return;
+    }
+
+    const search = () => setMatches(editor.getEditorState().read(() => $findMatches(pattern)));
+
+    search();
+    return editor.registerUpdateListener(search);
+  }, [editor, open, pattern]);
+
+  useEffect(() => setCurrentIndex(0), [query, options]);
+
+  useEffect(() => {
+    if (!open || typeof CSS === 'undefined' || !('highlights' in CSS)) return;
+
+    const getElementByKey = (key: NodeKey) => editor.getElementByKey(key);
+    const ranges = matches.map((match) => getMatchRange(getElementByKey, match));
+
+    CSS.highlights.set(MATCH_HIGHLIGHT, new Highlight(...ranges.filter((range): range is Range => range !== null)));
+
+    const currentRange = current === -1 ? null : ranges[current];
+    if (currentRange) CSS.highlights.set(CURRENT_MATCH_HIGHLIGHT, new Highlight(currentRange));
+
+    return () => {
+      CSS.highlights.delete(MATCH_HIGHLIGHT);
+      CSS.highlights.delete(CURRENT_MATCH_HIGHLIGHT);
+    };
+  }, [editor, open, matches, current]);
+
+  // Scrolls to the current match when it changes, unless it is already visible.
+  // Moving to another match in the same text node scrolls back to it too, hence the index in the dependencies.
+  useEffect(() => {
+    if (!open || currentKey === null) return;
+
+    const element = editor.getElementByKey(currentKey);
+    const rect = element?.getBoundingClientRect();
+
+    if (element && rect && (rect.top < 0 || rect.bottom > window.innerHeight)) {
+      element.scrollIntoView({ block: 'center' });
+    }
+  }, [editor, open, current, currentKey]);
+
+  if (!open) return null;
+
+  const goTo = (step: 1 | -1) => {
+    if (matches.length === 0) return;
+
+    setCurrentIndex((current + step + matches.length) % matches.length);
+  };
+
+  const getReplacement = (match: FindMatch) => (options.regex ? expandReplacement(replacement, match.groups) : replacement);
+
+  const replaceCurrent = () => {
+    if (current === -1) return;
+
+    const match = matches[current];
+
+    // The following match takes the index of the replaced one once the matches are searched again.
+    editor.update(() => $replaceMatch(match, getReplacement(match)), { tag: 'history-push' });
+  };
+
+  const replaceAll = () => {
+    // From the last match to the first, so that replacing a match does not move the offsets of the ones before it.
+    // The "history-push" tag keeps the HistoryPlugin from merging the replacements with the typing before them.
+    editor.update(
+      () => matches.slice().reverse().forEach((match) => $replaceMatch(match, getReplacement(match))),
+      { tag: 'history-push' },
+    );
+  };
+
+  const close = () => {
+    setOpen(false);
+    editor.focus();
+  };
+
+  const toggleOption = (option: keyof FindOptions) => setOptions({ ...options, [option]: !options[option] });
+
+  return createPortal(
+    <div className="find-bar" role="search" aria-label="Find in document">
+      <div className="find-bar-row">
+        <input
+          ref={inputRef}
+          autoFocus
+          aria-label="Find"
+          placeholder="Find"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              goTo(e.shiftKey ? -1 : 1);
+            } else if (e.key === 'Escape') {
+              e.preventDefault();
+              close();
+            }
+          }}
+          className="find-bar-input"
+        />
+        <span className={`find-bar-count ${isInvalidRegex ? 'text-red-500' : ''}`}>
+          {isInvalidRegex ? 'Invalid regex' : query ? `${current + 1} of ${matches.length}` : ''}
+        </span>
+        <button type="button" onClick={() => toggleOption('caseSensitive')} aria-pressed={options.caseSensitive} className="find-bar-btn" title="Match case">
+          Aa
+        </button>
+        <button type="button" onClick={() => toggleOption('wholeWord')} aria-pressed={options.wholeWord} className="find-bar-btn underline" title="Match whole word">
+          ab
+        </button>
+        <button type="button" onClick={() => toggleOption('regex')} aria-pressed={options.regex} className="find-bar-btn" title="Use regular expression">
+          .*
+        </button>
+        <button type="button" onClick={() => goTo(-1)} disabled={matches.length === 0} className="find-bar-btn" aria-label="Previous match">
+          ↑
+        </button>
+        <button type="button" onClick={() => goTo(1)} disabled={matches.length === 0} className="find-bar-btn" aria-label="Next match">
+          ↓
+        </button>
+        <button type="button" onClick={close} className="find-bar-btn" aria-label="Close">
+          ✕
+        </button>
+      </div>
+
+      {isEditable && (
+        <div className="find-bar-row">
+          <input
+            aria-label="Replace"
+            placeholder="Replace"
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                replaceCurrent();
+              } else if (e.key === 'Escape') {
+                e.preventDefault();
+                close();
+              }
+            }}
+            className="find-bar-input"
+          />
+          <button type="button" onClick={replaceCurrent} disabled={matches.length === 0} className="find-bar-btn px-2">
+            Replace
+          </button>
+          <button type="button" onClick={replaceAll} disabled={matches.length === 0} className="find-bar-btn px-2">
+            Replace all
+          </button>
+        </div>
+      )}
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,316 @@
+import {
+  autoUpdate,
+  flip,
+  hide,
+  offset,
+  shift,
+  useFloating,
+} from '@floating-ui/react-dom';
+import {
+  $createLinkNode,
+  $isAutoLinkNode,
+  $isLinkNode,
+  $toggleLink,
+  type LinkNode,
+} from '@lexical/link';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { $findMatchingParent, mergeRegister } from '@lexical/utils';
+import {
+  $getNodeByKey,
+  $getSelection,
+  $isRangeSelection,
+  $setSelection,
+  COMMAND_PRIORITY_LOW,
+  COMMAND_PRIORITY_NORMAL,
+  createCommand,
+  KEY_MODIFIER_COMMAND,
+  type LexicalCommand,
+  type LexicalNode,
+  type RangeSelection,
+} from 'lexical';
+import Image from 'next/image';
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import * as React from 'react';
+import { createPortal } from 'react-dom';
+
+import { sanitizeUrl } from '@/lib/utils';
+import { Button } from '../../ui/button';
+import { Input } from '../../ui/input';
+import { createDOMRange } from './FloatingToolbarPlugin';
+
+/**
+ * Opens the link popover: to edit the link at the selection, or to link the selected text.
+ * Dispatched by the link buttons of the toolbars and by Ctrl/Cmd+K.
+ */
+export const EDIT_LINK_COMMAND: LexicalCommand<void> = createCommand('EDIT_LINK_COMMAND');
+
+// "view" shows the URL of the selected link, "edit" changes it and "insert" links the selected text.
+type LinkEditorMode = 'view' | 'edit' | 'insert';
+
+/**
+ * Returns the link the node belongs to. Automatic links that were removed are not links anymore.
+ */
+function $getLinkNode(node: LexicalNode): LinkNode | null {
+  const linkNode = $findMatchingParent(node, $isLinkNode);
+
+  if (!$isLinkNode(linkNode) || ($isAutoLinkNode(linkNode) && linkNode.getIsUnlinked())) {
+    return null;
+  }
+
+  return linkNode;
+}
+
+/**
+ * A popover shown below the link at the selection, with the URL of the link and buttons to edit or remove it.
+ * It is also used to link the selected text from the toolbars or with Ctrl/Cmd+K.
+ * URLs are normalized and checked with sanitizeUrl, so javascript: and other unsafe URLs are rejected.
+ *
+ * Only rendered for editors: in read-only mode, clicking a link opens it in a new tab instead.
+ */
+export default function FloatingLinkEditorPlugin() {
+  const [editor] = useLexicalComposerContext();
+
+  const [link, setLink] = useState<{ key: string; url: string } | null>(null);
+  const [mode, setMode] = useState<LinkEditorMode>('view');
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState('');
+
+  // The text to link in insert mode, kept while the focus is in the popover.
+  const selectionRef = useRef<RangeSelection | null>(null);
+  const [insertRange, setInsertRange] = useState<Range | null>(null);
+
+  useEffect(() => {
+    return mergeRegister(
+      editor.registerUpdateListener(({ editorState }) => {
+        editorState.read(() => {
+          const selection = $getSelection();
+          const linkNode = $isRangeSelection(selection) ? $getLinkNode(selection.anchor.getNode()) : null;
+
+          setLink(linkNode ? { key: linkNode.getKey(), url: linkNode.getURL() } : null);
+        });
+      }),
+      editor.registerCommand(
+        EDIT_LINK_COMMAND,
+        () => {
+          const selection = $getSelection();
+          if (!editor.isEditable() || !$isRangeSelection(selection)) return false;
+
+          const linkNode = $getLinkNode(selection.anchor.getNode());
+
+          if (linkNode) {
+            setDraft(linkNode.getURL());
+            setMode('edit');
+          } else if (!selection.isCollapsed()) {
+            const { anchor, focus } = selection;
+
+            selectionRef.current = selection.clone();
+            setInsertRange(createDOMRange(editor, anchor.getNode(), anchor.offset, focus.getNode(), focus.offset));
+            setDraft('');
+            setMode('insert');
+          } else {
+            return false;
+          }
+
+          setError('');
+          return true;
+        },
+        COMMAND_PRIORITY_LOW,
+      ),
+      editor.registerCommand(
+        KEY_MODIFIER_COMMAND,
+        (event) => {
+          if (event.key.toLowerCase() !== 'k' || !(event.ctrlKey || event.metaKey)) return false;
+
+          event.preventDefault();
+          return editor.dispatchCommand(EDIT_LINK_COMMAND, undefined);
+        },
+        COMMAND_PRIORITY_NORMAL,
+      ),
+    );
+  }, [editor]);
+
+  // Moving to another link, or out of the link, cancels the changes to the previous one.
+  useEffect(() => {
+    setMode((currentMode) => (currentMode === 'edit' ? 'view' : currentMode));
+  }, [link?.key]);
+
+  const close = () => {
+    selectionRef.current = null;
+    setInsertRange(null);
+    setMode('view');
+    setError('');
+  };
+
+  const saveLink = () => {
+    const url = sanitizeUrl(draft);
+
+    if (!url) {
+      setError('Enter a valid web or email address.');
+      return;
+    }
+
+    editor.update(() => {
+      if (mode === 'insert') {
+        if (selectionRef.current) $setSelection(selectionRef.current.clone());
+        $toggleLink(url);
+        return;
+      }
+
+      const linkNode = link ? $getNodeByKey(link.key) : null;
+
+      // Automatic links follow their text, so a link with a custom URL must become a regular link.
+      if ($isAutoLinkNode(linkNode)) {
+        linkNode.replace($createLinkNode(url), true);
+      } else if ($isLinkNode(linkNode)) {
+        linkNode.setURL(url);
+      }
+    });
+
+    close();
+    editor.focus();
+  };
+
+  const removeLink = () => {
+    editor.update(() => {
+      const linkNode = link ? $getNodeByKey(link.key) : null;
+
+      // Automatic links are marked as unlinked, otherwise they would be linked again as soon as their text changes.
+      if ($isAutoLinkNode(linkNode)) {
+        linkNode.setIsUnlinked(true);
+      } else if ($isLinkNode(linkNode)) {
+        linkNode.getChildren().forEach((child) => linkNode.insertBefore(child));
+        linkNode.remove();
+      }
+    });
+
+    close();
+  };
+
+  if (mode === 'insert' ? insertRange === null : link === null) return null;
+
+  return (
+    <LinkEditor
+      reference={mode === 'insert' ? insertRange : editor.getElementByKey(link!.key)}
+      onClose={close}
+    >
+      {mode === 'view' ? (
+        <>
+          <a href={sanitizeUrl(link!.url) ?? undefined} target="_blank" rel="noopener noreferrer" className="link-editor-url">
+            {link!.url}
+          </a>
+          <button
+            onClick={() => {
+              setDraft(link!.url);
+              setMode('edit');
+            }}
+            className="floating-toolbar-btn"
+            aria-label="Edit link"
+          >
+            <Image src="/assets/icons/edit.svg" alt="edit" width={18} height={18} />
+          </button>
+          <button onClick={removeLink} className="floating-toolbar-btn" aria-label="Remove link">
+            <Image src="/assets/icons/close.svg" alt="remove" width={18} height={18} />
+          </button>
+        </>
+      ) : (
+        <div className="flex flex-col gap-1">
+          <div className="flex items-center gap-2">
+            <Input
+              autoFocus
+              aria-label="Link URL"
+              placeholder="Paste or type a link"
+              value={draft}
+              onChange={(e) => {
+                setDraft(e.target.value);
+                setError('');
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  saveLink();
+                } else if (e.key === 'Escape') {
+                  e.preventDefault();
+                  close();
+                  editor.focus();
+                }
+              }}
+              className="share-input h-8 w-[260px] rounded-md bg-dark-400"
+            />
+            <Button type="button" onClick={saveLink} className="gradient-blue h-8 px-4">
+              Save
+            </Button>
+          </div>
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+      )}
+    </LinkEditor>
+  );
+}
+
+/*
+The popover itself, positioned below the link, or below the selected text in insert mode.
+Clicking anywhere outside of it closes the editing form.
+*/
+function LinkEditor({
+  reference,
+  onClose,
+  children,
+}: {
+  reference: Range | HTMLElement | null;
+  onClose: () => void;
+  children: React.ReactNode;
+}) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  const {
+    refs: { setReference, setFloating },
+    strategy,
+    x,
+    y,
+  } = useFloating({
+    strategy: 'fixed',
+    placement: 'bottom-start',
+    middleware: [offset(8), flip({ padding: 20 }), shift({ padding: 20 }), hide({ padding: 20 })],
+    whileElementsMounted: autoUpdate,
+  });
+
+  useLayoutEffect(() => {
+    if (reference === null) return;
+
+    setReference({
+      getBoundingClientRect: () => reference.getBoundingClientRect(),
+    });
+  }, [setReference, reference]);
+
+  useEffect(() => {
+    const onMouseDown = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+
+    document.addEventListener('mousedown', onMouseDown);
+    return () => document.removeEventListener('mousedown', onMouseDown);
+  }, [onClose]);
+
+  if (reference === null) return null;
+
+  return createPortal(
+    <div
+      ref={(element) => {
+        containerRef.current = element;
+        setFloating(element);
+      }}
+      style={{
+        position: strategy,
+        top: 0,
+        left: 0,
+        transform: `translate3d(${Math.round(x)}px, ${Math.round(y)}px, 0)`,
+        minWidth: 'max-content',
+      }}
+    >
+      <div className="link-editor">{children}</div>
+    </div>,
+    document.body,
+  );
+}
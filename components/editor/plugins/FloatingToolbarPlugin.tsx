@@ -17,6 +17,8 @@ import { useEffect, useLayoutEffect, useState } from 'react';
 import * as React from 'react';
 import { createPortal } from 'react-dom';
 
+import { EDIT_LINK_COMMAND } from './FloatingLinkEditorPlugin';
+
 /*
 This is a React functional component named FloatingToolbar. It uses the useState and useEffect hooks from React 
 to manage state and side effects respectively. The component uses the useLexicalComposerContext hook to get the 
@@ -152,6 +154,26 @@ function Toolbar({
             height={24}
           />
         </button>
+        {/* Only editors can link the selected text, commenters get a read-only document. */}
+        {editor.isEditable() && (
+          <button
+            onClick={() => {
+              const isOpen = editor.dispatchCommand(EDIT_LINK_COMMAND, undefined);
+              if (isOpen) {
+                onRangeChange(null);
+              }
+            }}
+            className="floating-toolbar-btn"
+            aria-label="Insert link"
+          >
+            <Image
+              src="/assets/icons/insert-link.svg"
+              alt="link"
+              width={24}
+              height={24}
+            />
+          </button>
+        )}
       </div>
     </div>,
     container,
@@ -0,0 +1,161 @@
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { useOthers, useUpdateMyPresence } from '@liveblocks/react/suspense';
+import type { LexicalEditor } from 'lexical';
+import { useEffect } from 'react';
+import * as React from 'react';
+import { createPortal } from 'react-dom';
+
+import { $resolveCursorPoint } from '../utils';
+
+/**
+ * Returns the element that scrolls the document, around the editor.
+ */
+export const getScrollContainer = (editor: LexicalEditor) =>
+  editor.getRootElement()?.closest<HTMLElement>('.editor-wrapper') ?? null;
+
+/**
+ * Reads the part of the document visible at the top of the scroll container.
+ * The DOM children of the root element are the top-level blocks of the document, in order.
+ */
+const getViewport = (root: HTMLElement, container: HTMLElement): ViewportPresence | null => {
+  const top = container.getBoundingClientRect().top;
+  const blocks = Array.from(root.children);
+  const block = blocks.findIndex((element) => element.getBoundingClientRect().bottom > top);
+
+  if (block === -1) return null;
+
+  const rect = blocks[block].getBoundingClientRect();
+  const progress = rect.height > 0 ? (top - rect.top) / rect.height : 0;
+
+  return { block, progress: Math.min(Math.max(progress, 0), 1) };
+};
+
+/**
+ * Scrolls the container so that the viewport of another user is at its top.
+ */
+const scrollToViewport = (root: HTMLElement, container: HTMLElement, { block, progress }: ViewportPresence) => {
+  const element = root.children[block];
+  if (!element) return;
+
+  const rect = element.getBoundingClientRect();
+  container.scrollTop += rect.top + progress * rect.height - container.getBoundingClientRect().top;
+};
+
+/**
+ * Shares the part of the document the current user is looking at through their presence, and lets them
+ * follow another user, picked from ActiveCollaborators: the editor then scrolls along with the viewport
+ * of that user, and to their cursor when it moves out of sight, e.g. on a smaller screen.
+ *
+ * Following stops as soon as the follower scrolls or types, or when the followed user leaves the room.
+ * A banner shows who is being followed, with a button to stop.
+ */
+export default function FollowPlugin({
+  followingId,
+  onStopFollowing,
+}: {
+  followingId: number | null;
+  onStopFollowing: () => void;
+}) {
+  const [editor] = useLexicalComposerContext();
+  const updateMyPresence = useUpdateMyPresence();
+  const others = useOthers();
+  const leader = others.find(({ connectionId }) => connectionId === followingId) ?? null;
+
+  // Publish the viewport of the current user, at most once per frame while they scroll.
+  useEffect(() => {
+    let frame = 0;
+    let container: HTMLElement | null = null;
+
+    const publishViewport = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const root = editor.getRootElement();
+
+        if (root && container) updateMyPresence({ viewport: getViewport(root, container) });
+      });
+    };
+
+    const unregister = editor.registerRootListener((root) => {
+      container?.removeEventListener('scroll', publishViewport);
+      container = root ? getScrollContainer(editor) : null;
+      container?.addEventListener('scroll', publishViewport, { passive: true });
+      publishViewport();
+    });
+
+    return () => {
+      unregister();
+      cancelAnimationFrame(frame);
+      container?.removeEventListener('scroll', publishViewport);
+    };
+  }, [editor, updateMyPresence]);
+
+  // Stop following when the followed user leaves the room.
+  useEffect(() => {
+    if (followingId !== null && leader === null) onStopFollowing();
+  }, [followingId, leader, onStopFollowing]);
+
+  // Stop following as soon as the current user scrolls or types. Scrolling the container from
+  // scrollToViewport does not count, as it does not come with any of these events.
+  useEffect(() => {
+    const container = getScrollContainer(editor);
+    if (followingId === null || !container) return;
+
+    const stop = () => onStopFollowing();
+    const userScrollEvents = ['wheel', 'touchmove', 'pointerdown'] as const;
+
+    userScrollEvents.forEach((type) => container.addEventListener(type, stop, { passive: true }));
+    document.addEventListener('keydown', stop);
+
+    return () => {
+      userScrollEvents.forEach((type) => container.removeEventListener(type, stop));
+      document.removeEventListener('keydown', stop);
+    };
+  }, [editor, followingId, onStopFollowing]);
+
+  // The presence objects are replaced on every change, so the scrolling depends on their content instead.
+  const viewportBlock = leader?.presence.viewport?.block ?? null;
+  const viewportProgress = leader?.presence.viewport?.progress ?? 0;
+  const focus = leader?.presence.cursor?.focus ?? null;
+  const focusPath = focus ? focus.path.join('.') : null;
+  const focusOffset = focus?.offset ?? 0;
+  const focusType = focus?.type ?? 'text';
+
+  useEffect(() => {
+    const root = editor.getRootElement();
+    const container = getScrollContainer(editor);
+    if (!root || !container) return;
+
+    if (viewportBlock !== null) scrollToViewport(root, container, { block: viewportBlock, progress: viewportProgress });
+
+    const caretElement = focusPath !== null
+      ? editor.getEditorState().read(() => {
+          const path = focusPath ? focusPath.split('.').map(Number) : [];
+          const point = $resolveCursorPoint({ path, offset: focusOffset, type: focusType });
+
+          return point ? editor.getElementByKey(point.node.getKey()) : null;
+        })
+      : null;
+
+    if (caretElement) {
+      const caretRect = caretElement.getBoundingClientRect();
+      const containerRect = container.getBoundingClientRect();
+
+      if (caretRect.top < containerRect.top || caretRect.bottom > containerRect.bottom) {
+        caretElement.scrollIntoView({ block: 'nearest' });
+      }
+    }
+  }, [editor, viewportBlock, viewportProgress, focusPath, focusOffset, focusType]);
+
+  if (leader === null) return null;
+
+  return createPortal(
+    <div className="follow-banner" style={{ borderColor: leader.info.color }}>
+      <span className="size-2 rounded-full" style={{ backgroundColor: leader.info.color }} />
+      <p>Following {leader.info.name}</p>
+      <button type="button" onClick={onStopFollowing} className="follow-banner-btn">
+        Stop
+      </button>
+    </div>,
+    document.body,
+  );
+}
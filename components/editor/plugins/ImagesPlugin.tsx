@@ -0,0 +1,205 @@
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { $insertNodeToNearestRoot, mergeRegister } from '@lexical/utils';
+import {
+  $createRangeSelection,
+  $setSelection,
+  COMMAND_PRIORITY_EDITOR,
+  COMMAND_PRIORITY_LOW,
+  createCommand,
+  DRAGOVER_COMMAND,
+  DROP_COMMAND,
+  type LexicalCommand,
+  PASTE_COMMAND,
+} from 'lexical';
+import { useEffect, useRef, useState } from 'react';
+
+import { IMAGE_TYPES, MAX_IMAGE_SIZE } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../../ui/dialog';
+import { $createImageNode, type ImagePayload } from '../ImageNode';
+import { registerSlashCommands } from './SlashCommandPlugin';
+
+/**
+ * Inserts an image that is already stored, at the selection.
+ */
+export const INSERT_IMAGE_COMMAND: LexicalCommand<ImagePayload> = createCommand('INSERT_IMAGE_COMMAND');
+
+/**
+ * Uploads image files to the document and inserts them at the selection once uploaded.
+ * Dispatched by the toolbar, and when images are pasted or dropped in the editor.
+ */
+export const UPLOAD_IMAGES_COMMAND: LexicalCommand<File[]> = createCommand('UPLOAD_IMAGES_COMMAND');
+
+/**
+ * Opens the file picker of the browser to upload images. Dispatched by the toolbar and the slash menu.
+ */
+export const OPEN_IMAGE_PICKER_COMMAND: LexicalCommand<void> = createCommand('OPEN_IMAGE_PICKER_COMMAND');
+
+/**
+ * Returns the image files of a clipboard or a drag and drop.
+ */
+const getImageFiles = (dataTransfer: DataTransfer | null) =>
+  Array.from(dataTransfer?.files ?? []).filter((file) => file.type in IMAGE_TYPES);
+
+/**
+ * Uploads an image through the /api/images route, which stores it with the room.
+ *
+ * @param {string} roomId - The ID of the room the image is added to.
+ * @param {File} file - The image.
+ * @returns {Promise<string>} A promise that resolves to the URL of the stored image.
+ * @throws {Error} If the upload is rejected, with the reason as message.
+ */
+const uploadImage = async (roomId: string, file: File) => {
+  if (file.size > MAX_IMAGE_SIZE) {
+    throw new Error(`Images must be smaller than ${MAX_IMAGE_SIZE / 1024 / 1024} MB`);
+  }
+
+  const formData = new FormData();
+  formData.append('roomId', roomId);
+  formData.append('file', file);
+
+  const response = await fetch('/api/images', { method: 'POST', body: formData });
+
+  if (!response.ok) throw new Error(await response.text());
+
+  const { src } = await response.json();
+
+  return src as string;
+};
+
+/**
+ * Adds images to the document: picked from the toolbar or the slash menu, pasted, or dropped in the editor.
+ * Images are stored with the room through the storage backend, so only its collaborators can see them.
+ * The file name is used as alternative text until the editor writes a better one.
+ *
+ * Only rendered for editors, as viewers and commenters cannot change the document.
+ */
+export default function ImagesPlugin({ roomId }: { roomId: string }) {
+  const [editor] = useLexicalComposerContext();
+  const [error, setError] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const uploadImages = async (files: File[]) => {
+      for (const file of files) {
+        try {
+          const src = await uploadImage(roomId, file);
+          const altText = file.name.replace(/\.[^.]+$/, '');
+
+          editor.dispatchCommand(INSERT_IMAGE_COMMAND, { src, altText });
+        } catch (error) {
+          console.log(`Error happened while uploading an image: ${error}`);
+          setError(error instanceof Error && error.message ? error.message : 'The image could not be uploaded.');
+        }
+      }
+    };
+
+    return mergeRegister(
+      registerSlashCommands(editor, [{
+        title: 'Image',
+        icon: 'image',
+        keywords: ['picture', 'photo', 'upload'],
+        onSelect: () => inputRef.current?.click(),
+      }]),
+      editor.registerCommand(
+        OPEN_IMAGE_PICKER_COMMAND,
+        () => {
+          inputRef.current?.click();
+          return true;
+        },
+        COMMAND_PRIORITY_EDITOR,
+      ),
+      editor.registerCommand(
+        INSERT_IMAGE_COMMAND,
+        (payload) => {
+          $insertNodeToNearestRoot($createImageNode(payload));
+          return true;
+        },
+        COMMAND_PRIORITY_EDITOR,
+      ),
+      editor.registerCommand(
+        UPLOAD_IMAGES_COMMAND,
+        (files) => {
+          uploadImages(files);
+          return true;
+        },
+        COMMAND_PRIORITY_EDITOR,
+      ),
+      editor.registerCommand(
+        PASTE_COMMAND,
+        (event) => {
+          const files = event instanceof ClipboardEvent ? getImageFiles(event.clipboardData) : [];
+          if (files.length === 0) return false;
+
+          event.preventDefault();
+          return editor.dispatchCommand(UPLOAD_IMAGES_COMMAND, files);
+        },
+        COMMAND_PRIORITY_LOW,
+      ),
+      editor.registerCommand(
+        DRAGOVER_COMMAND,
+        (event) => {
+          if (!event.dataTransfer?.types.includes('Files')) return false;
+
+          // Dropping is only allowed where the default behavior of the event is prevented.
+          event.preventDefault();
+          return true;
+        },
+        COMMAND_PRIORITY_LOW,
+      ),
+      editor.registerCommand(
+        DROP_COMMAND,
+        (event) => {
+          const files = getImageFiles(event.dataTransfer);
+          if (files.length === 0) return false;
+
+          event.preventDefault();
+
+          // The images are inserted where they were dropped, rather than at the previous selection.
+          const range = document.caretRangeFromPoint?.(event.clientX, event.clientY);
+
+          if (range) {
+            const selection = $createRangeSelection();
+            selection.applyDOMRange(range);
+            $setSelection(selection);
+          }
+
+          return editor.dispatchCommand(UPLOAD_IMAGES_COMMAND, files);
+        },
+        COMMAND_PRIORITY_LOW,
+      ),
+    );
+  }, [editor, roomId]);
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={Object.keys(IMAGE_TYPES).join(',')}
+        multiple
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? []);
+
+          // Reset the input so that the same image can be selected again.
+          e.target.value = '';
+          if (files.length > 0) editor.dispatchCommand(UPLOAD_IMAGES_COMMAND, files);
+        }}
+        className="hidden"
+      />
+      <Dialog open={error !== ''} onOpenChange={(open) => !open && setError('')}>
+        <DialogContent className="shad-dialog">
+          <DialogHeader>
+            <DialogTitle>Upload failed</DialogTitle>
+            <DialogDescription>{error}</DialogDescription>
+          </DialogHeader>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
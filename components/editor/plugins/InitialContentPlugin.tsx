@@ -0,0 +1,28 @@
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { $getRoot } from 'lexical';
+import { useEffect } from 'react';
+
+import { takeInitialContent } from '@/lib/actions/room.actions';
+import { replaceEditorContent } from '../utils';
+
+/*
+This plugin seeds a new room with the content it was created with, e.g. an imported file.
+The content is stored server-side by createDocument and handed out only once by takeInitialContent.
+It is only applied if the document is still empty, so that it never overwrites what a collaborator
+already typed. It renders nothing and must only be mounted for editors, once the editor is loaded.
+*/
+export default function InitialContentPlugin({ roomId }: { roomId: string }) {
+  const [editor] = useLexicalComposerContext();
+
+  useEffect(() => {
+    takeInitialContent({ roomId }).then((content) => {
+      if (!content) return;
+
+      const isEmpty = editor.getEditorState().read(() => $getRoot().getTextContentSize() === 0);
+
+      if (isEmpty) replaceEditorContent(editor, content);
+    });
+  }, [editor, roomId]);
+
+  return null;
+}
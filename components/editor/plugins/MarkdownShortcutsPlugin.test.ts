@@ -0,0 +1,149 @@
+// @vitest-environment jsdom
+import { LexicalComposer } from '@lexical/react/LexicalComposer';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { ContentEditable } from '@lexical/react/LexicalContentEditable';
+import LexicalErrorBoundary from '@lexical/react/LexicalErrorBoundary';
+import { HistoryPlugin } from '@lexical/react/LexicalHistoryPlugin';
+import { RichTextPlugin } from '@lexical/react/LexicalRichTextPlugin';
+import { $getRoot, $getSelection, $isRangeSelection, LexicalEditor, UNDO_COMMAND } from 'lexical';
+import { act, createElement } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { SHORTCUT_TRANSFORMERS } from '../markdown';
+import EditorNodes from '../nodes';
+import MarkdownShortcutsPlugin from './MarkdownShortcutsPlugin';
+
+// Lets React flush the updates of act() synchronously.
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+let editor: LexicalEditor;
+let root: Root;
+
+// Hands the editor of the composer to the tests.
+const EditorCapture = () => {
+  [editor] = useLexicalComposerContext();
+
+  return null;
+};
+
+/**
+ * Types text at the selection one character at a time, each in its own update, like a user does.
+ */
+const type = async (text: string) => {
+  for (const character of text) {
+    await act(async () => {
+      editor.update(() => {
+        const selection = $getSelection();
+
+        if ($isRangeSelection(selection)) selection.insertText(character);
+      });
+    });
+  }
+};
+
+type SerializedNode = { type: string; tag?: string; listType?: string; language?: string; text?: string; format?: number; children?: SerializedNode[] };
+
+// The top-level blocks of the document.
+const readBlocks = () => editor.getEditorState().toJSON().root.children as unknown as SerializedNode[];
+
+const readText = () => editor.getEditorState().read(() => $getRoot().getTextContent());
+
+beforeEach(async () => {
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  root = createRoot(container);
+
+  await act(async () => {
+    root.render(
+      createElement(
+        LexicalComposer,
+        { initialConfig: { namespace: 'Test', nodes: EditorNodes, onError: (error: Error) => { throw error; } } },
+        createElement(RichTextPlugin, {
+          contentEditable: createElement(ContentEditable),
+          placeholder: null,
+          ErrorBoundary: LexicalErrorBoundary,
+        }),
+        createElement(HistoryPlugin),
+        createElement(MarkdownShortcutsPlugin, { transformers: SHORTCUT_TRANSFORMERS }),
+        createElement(EditorCapture),
+      ),
+    );
+  });
+
+  await act(async () => {
+    editor.update(() => $getRoot().selectEnd());
+  });
+});
+
+afterEach(async () => {
+  await act(async () => root.unmount());
+  document.body.innerHTML = '';
+});
+
+describe('MarkdownShortcutsPlugin', () => {
+  it.each([
+    ['# ', { type: 'heading', tag: 'h1' }],
+    ['## ', { type: 'heading', tag: 'h2' }],
+    ['### ', { type: 'heading', tag: 'h3' }],
+    ['> ', { type: 'quote' }],
+  ])('turns "%s" into a block', async (shortcut, block) => {
+    await type(`${shortcut}Title`);
+
+    expect(readBlocks()).toMatchObject([block]);
+    expect(readText()).toBe('Title');
+  });
+
+  it('only offers the heading levels of the toolbar', async () => {
+    await type('#### Title');
+
+    expect(readBlocks()).toMatchObject([{ type: 'paragraph' }]);
+    expect(readText()).toBe('#### Title');
+  });
+
+  it.each([
+    ['- ', 'bullet'],
+    ['1. ', 'number'],
+    ['[ ] ', 'check'],
+  ])('turns "%s" into a list', async (shortcut, listType) => {
+    await type(`${shortcut}Item`);
+
+    expect(readBlocks()).toMatchObject([{ type: 'list', listType }]);
+    expect(readText()).toBe('Item');
+  });
+
+  it('turns "```ts " into a TypeScript code block', async () => {
+    await type('```ts ');
+
+    expect(readBlocks()).toMatchObject([{ type: 'code', language: 'ts' }]);
+  });
+
+  it('turns "---" into a divider before the block being typed in', async () => {
+    await type('--- ');
+
+    expect(readBlocks().map(({ type: blockType }) => blockType)).toEqual(['horizontalrule', 'paragraph']);
+  });
+
+  it.each([
+    ['**bold**', 1],
+    ['*italic*', 2],
+    ['~~strike~~', 4],
+    ['`code`', 16],
+  ])('formats "%s" once it is closed', async (markdown, format) => {
+    await type(`Some ${markdown}`);
+
+    expect(readBlocks()[0].children).toMatchObject([{ text: 'Some ', format: 0 }, { format }]);
+    expect(readText()).toBe(`Some ${markdown.replace(/[*~`]/g, '')}`);
+  });
+
+  it('undoes a conversion without undoing the typing before it', async () => {
+    await type('Some ~~strike~~');
+
+    await act(async () => {
+      editor.dispatchCommand(UNDO_COMMAND, undefined);
+    });
+
+    expect(readText()).toBe('Some ~~strike~~');
+    expect(readBlocks()[0].children).toMatchObject([{ text: 'Some ~~strike~~', format: 0 }]);
+  });
+});
@@ -0,0 +1,36 @@
+import { registerMarkdownShortcuts, type Transformer } from '@lexical/markdown';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import type { LexicalEditor } from 'lexical';
+import { useEffect } from 'react';
+
+/**
+ * Converts Markdown typed in the editor to the nodes and formats of the ToolbarPlugin as soon as it is
+ * complete, e.g. "## " starts a heading and "**bold**" becomes bold text.
+ *
+ * Each conversion is an entry of its own in the history, so Undo turns it back into the typed characters.
+ * registerMarkdownShortcuts converts in a separate update, which the HistoryPlugin would otherwise merge
+ * with the typing before it, e.g. undoing "~~strike~~" would also remove the last "~".
+ */
+export default function MarkdownShortcutsPlugin({ transformers }: { transformers: Array<Transformer> }) {
+  const [editor] = useLexicalComposerContext();
+
+  useEffect(() => {
+    // The same editor, except that its updates are tagged to start a new entry in the history.
+    const historyPushEditor = new Proxy(editor, {
+      get(target, property) {
+        if (property === 'update') {
+          return (updateFn: () => void, options?: Parameters<LexicalEditor['update']>[1]) =>
+            target.update(updateFn, { ...options, tag: 'history-push' });
+        }
+
+        const value = Reflect.get(target, property);
+
+        return typeof value === 'function' ? value.bind(target) : value;
+      },
+    });
+
+    return registerMarkdownShortcuts(historyPushEditor, transformers);
+  }, [editor, transformers]);
+
+  return null;
+}
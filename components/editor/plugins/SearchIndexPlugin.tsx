@@ -0,0 +1,52 @@
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { useEditorStatus } from '@liveblocks/react-lexical';
+import { useEffect, useRef } from 'react';
+
+import { indexDocument } from '@/lib/actions/search.actions';
+import { serializeEditorState } from '../utils';
+
+// How long the editor must be idle before the search index is updated.
+const INDEX_DELAY = 3000;
+
+/*
+This plugin keeps the search index of the document up to date. The document is indexed once it is
+synchronized, so that documents created before the search existed are picked up, and then a few seconds
+after each local change. Updates coming from other collaborators carry the 'collaboration' tag and are
+ignored, since their own editor indexes them. Pending changes are flushed when the editor unmounts.
+It renders nothing and must only be mounted for users that can edit the document.
+*/
+export default function SearchIndexPlugin({ roomId }: { roomId: string }) {
+  const [editor] = useLexicalComposerContext();
+  const status = useEditorStatus();
+  const timeout = useRef<ReturnType<typeof setTimeout>>();
+  const hasChanges = useRef(false);
+  const isSynchronized = status === 'synchronized';
+
+  useEffect(() => {
+    if (!isSynchronized) return;
+
+    const updateIndex = () => {
+      hasChanges.current = false;
+      indexDocument({ roomId, content: serializeEditorState(editor) });
+    };
+
+    updateIndex();
+
+    const unregister = editor.registerUpdateListener(({ dirtyElements, dirtyLeaves, tags }) => {
+      if (tags.has('collaboration') || (dirtyElements.size === 0 && dirtyLeaves.size === 0)) return;
+
+      hasChanges.current = true;
+      clearTimeout(timeout.current);
+      timeout.current = setTimeout(updateIndex, INDEX_DELAY);
+    });
+
+    return () => {
+      unregister();
+      clearTimeout(timeout.current);
+
+      if (hasChanges.current) updateIndex();
+    };
+  }, [editor, isSynchronized, roomId]);
+
+  return null;
+}
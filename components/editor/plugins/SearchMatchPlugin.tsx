@@ -0,0 +1,60 @@
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { useEditorStatus } from '@liveblocks/react-lexical';
+import { $getRoot } from 'lexical';
+import { useSearchParams } from 'next/navigation';
+import { useEffect } from 'react';
+
+// The name of the CSS highlight styled with ::highlight(search-match) in globals.css.
+const HIGHLIGHT_NAME = 'search-match';
+
+/*
+This plugin scrolls to the first occurrence of the `q` search param once the document is synchronized,
+which is how search results open a document at the match. The match is highlighted with the CSS Custom
+Highlight API, which does not touch the DOM managed by Lexical nor the selection of the user.
+When the match spans several formatted pieces of text, the block that contains it is scrolled to instead.
+*/
+export default function SearchMatchPlugin() {
+  const [editor] = useLexicalComposerContext();
+  const status = useEditorStatus();
+  const query = useSearchParams().get('q')?.trim().toLowerCase();
+  const isSynchronized = status === 'synchronized';
+
+  useEffect(() => {
+    if (!isSynchronized || !query) return;
+
+    const match = editor.getEditorState().read(() => {
+      for (const node of $getRoot().getAllTextNodes()) {
+        const offset = node.getTextContent().toLowerCase().indexOf(query);
+
+        if (offset !== -1) return { key: node.getKey(), offset, inline: true };
+      }
+
+      const block = $getRoot().getChildren().find((child) => child.getTextContent().toLowerCase().includes(query));
+
+      return block ? { key: block.getKey(), offset: 0, inline: false } : null;
+    });
+
+    if (!match) return;
+
+    const element = editor.getElementByKey(match.key);
+
+    if (!element) return;
+
+    element.scrollIntoView({ block: 'center' });
+
+    const textNode = element.firstChild;
+
+    if (!match.inline || !textNode || typeof CSS === 'undefined' || !('highlights' in CSS)) return;
+
+    const range = document.createRange();
+    range.setStart(textNode, match.offset);
+    range.setEnd(textNode, match.offset + query.length);
+    CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(range));
+
+    return () => {
+      CSS.highlights.delete(HIGHLIGHT_NAME);
+    };
+  }, [editor, isSynchronized, query]);
+
+  return null;
+}
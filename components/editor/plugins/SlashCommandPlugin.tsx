@@ -0,0 +1,221 @@
+import { $createCodeNode } from '@lexical/code';
+import {
+  INSERT_CHECK_LIST_COMMAND,
+  INSERT_ORDERED_LIST_COMMAND,
+  INSERT_UNORDERED_LIST_COMMAND,
+} from '@lexical/list';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { INSERT_HORIZONTAL_RULE_COMMAND } from '@lexical/react/LexicalHorizontalRuleNode';
+import {
+  LexicalTypeaheadMenuPlugin,
+  MenuOption,
+  useBasicTypeaheadTriggerMatch,
+} from '@lexical/react/LexicalTypeaheadMenuPlugin';
+import { $createHeadingNode, $createQuoteNode } from '@lexical/rich-text';
+import { $setBlocksType } from '@lexical/selection';
+import { INSERT_TABLE_COMMAND } from '@lexical/table';
+import { $getSelection, $isRangeSelection, type LexicalEditor, type TextNode } from 'lexical';
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import * as React from 'react';
+import { createPortal } from 'react-dom';
+
+import { DEFAULT_CODE_LANGUAGE } from './CodeHighlightPlugin';
+
+/**
+ * A command of the slash menu.
+ * `icon` is the name of one of the `i.<name>` icons of the toolbar, and `keywords` are matched by the filter
+ * in addition to the title. `onSelect` runs inside an editor update, once the "/" and the filter are removed.
+ */
+export type SlashCommand = {
+  title: string;
+  icon: string;
+  keywords?: string[];
+  onSelect: (editor: LexicalEditor) => void;
+};
+
+// The commands registered for each editor, and the menus to re-render when they change.
+const slashCommands = new WeakMap<LexicalEditor, SlashCommand[]>();
+const slashCommandListeners = new WeakMap<LexicalEditor, Set<() => void>>();
+
+const NO_COMMANDS: SlashCommand[] = [];
+
+const setSlashCommands = (editor: LexicalEditor, commands: SlashCommand[]) => {
+  slashCommands.set(editor, commands);
+  slashCommandListeners.get(editor)?.forEach((listener) => listener());
+};
+
+/**
+ * Adds commands to the slash menu of an editor, after the commands already registered.
+ * Plugins call it when they are mounted, like editor.registerCommand, so the menu only offers what the editor supports.
+ *
+ * @param {LexicalEditor} editor - The editor.
+ * @param {SlashCommand[]} commands - The commands to add.
+ * @returns {() => void} A function that removes the commands.
+ */
+export function registerSlashCommands(editor: LexicalEditor, commands: SlashCommand[]) {
+  setSlashCommands(editor, [...(slashCommands.get(editor) ?? NO_COMMANDS), ...commands]);
+
+  return () => {
+    setSlashCommands(editor, (slashCommands.get(editor) ?? NO_COMMANDS).filter((command) => !commands.includes(command)));
+  };
+}
+
+/**
+ * Changes the blocks of the selection to another type of block.
+ */
+const $setSelectedBlocksType = (createBlock: Parameters<typeof $setBlocksType>[1]) => {
+  const selection = $getSelection();
+
+  if ($isRangeSelection(selection)) $setBlocksType(selection, createBlock);
+};
+
+// The commands every editor offers. Other plugins add their own with registerSlashCommands.
+const BUILT_IN_COMMANDS: SlashCommand[] = [
+  { title: 'Heading 1', icon: 'h1', keywords: ['title', 'h1'], onSelect: () => $setSelectedBlocksType(() => $createHeadingNode('h1')) },
+  { title: 'Heading 2', icon: 'h2', keywords: ['subtitle', 'h2'], onSelect: () => $setSelectedBlocksType(() => $createHeadingNode('h2')) },
+  { title: 'Heading 3', icon: 'h3', keywords: ['h3'], onSelect: () => $setSelectedBlocksType(() => $createHeadingNode('h3')) },
+  { title: 'Quote', icon: 'quote', keywords: ['blockquote', 'citation'], onSelect: () => $setSelectedBlocksType(() => $createQuoteNode()) },
+  {
+    title: 'Bulleted list',
+    icon: 'bullet-list',
+    keywords: ['unordered', 'ul'],
+    onSelect: (editor) => editor.dispatchCommand(INSERT_UNORDERED_LIST_COMMAND, undefined),
+  },
+  {
+    title: 'Numbered list',
+    icon: 'number-list',
+    keywords: ['ordered', 'ol'],
+    onSelect: (editor) => editor.dispatchCommand(INSERT_ORDERED_LIST_COMMAND, undefined),
+  },
+  {
+    title: 'Checklist',
+    icon: 'check-list',
+    keywords: ['todo', 'task', 'checkbox'],
+    onSelect: (editor) => editor.dispatchCommand(INSERT_CHECK_LIST_COMMAND, undefined),
+  },
+  {
+    title: 'Code block',
+    icon: 'code-block',
+    keywords: ['snippet', 'pre'],
+    onSelect: () => $setSelectedBlocksType(() => $createCodeNode(DEFAULT_CODE_LANGUAGE)),
+  },
+  {
+    title: 'Table',
+    icon: 'table',
+    keywords: ['grid', 'rows', 'columns'],
+    onSelect: (editor) =>
+      editor.dispatchCommand(INSERT_TABLE_COMMAND, { rows: '3', columns: '3', includeHeaders: { rows: true, columns: false } }),
+  },
+  {
+    title: 'Divider',
+    icon: 'horizontal-rule',
+    keywords: ['horizontal rule', 'separator', 'hr'],
+    onSelect: (editor) => editor.dispatchCommand(INSERT_HORIZONTAL_RULE_COMMAND, undefined),
+  },
+  {
+    title: 'Date',
+    icon: 'calendar',
+    keywords: ['today', 'time'],
+    onSelect: () => {
+      const selection = $getSelection();
+
+      if ($isRangeSelection(selection)) selection.insertText(new Date().toLocaleDateString(undefined, { dateStyle: 'long' }));
+    },
+  },
+];
+
+class SlashCommandOption extends MenuOption {
+  command: SlashCommand;
+
+  constructor(command: SlashCommand) {
+    super(command.title);
+    this.command = command;
+  }
+}
+
+/**
+ * A menu opened by typing "/" in the editor, which inserts blocks. Typing after the "/" filters the commands
+ * by title and keywords, the arrow keys move through them, and Enter or Tab runs the highlighted one.
+ *
+ * Only rendered for editors: viewers and commenters get a read-only editor, in which nothing can be inserted.
+ */
+export default function SlashCommandPlugin() {
+  const [editor] = useLexicalComposerContext();
+  const [query, setQuery] = useState<string | null>(null);
+
+  useEffect(() => registerSlashCommands(editor, BUILT_IN_COMMANDS), [editor]);
+
+  const subscribe = useCallback(
+    (onStoreChange: () => void) => {
+      const listeners = slashCommandListeners.get(editor) ?? new Set();
+
+      listeners.add(onStoreChange);
+      slashCommandListeners.set(editor, listeners);
+
+      return () => {
+        listeners.delete(onStoreChange);
+      };
+    },
+    [editor],
+  );
+
+  const getSnapshot = useCallback(() => slashCommands.get(editor) ?? NO_COMMANDS, [editor]);
+  const commands = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const checkForTriggerMatch = useBasicTypeaheadTriggerMatch('/', { minLength: 0 });
+
+  const options = useMemo(() => {
+    const search = query?.toLowerCase().trim() ?? '';
+
+    return commands
+      .filter(({ title, keywords = [] }) =>
+        [title, ...keywords].some((text) => text.toLowerCase().includes(search)),
+      )
+      .map((command) => new SlashCommandOption(command));
+  }, [commands, query]);
+
+  const onSelectOption = useCallback(
+    (option: SlashCommandOption, textNodeContainingQuery: TextNode | null, closeMenu: () => void) => {
+      textNodeContainingQuery?.remove();
+      option.command.onSelect(editor);
+      closeMenu();
+    },
+    [editor],
+  );
+
+  return (
+    <LexicalTypeaheadMenuPlugin<SlashCommandOption>
+      onQueryChange={setQuery}
+      onSelectOption={onSelectOption}
+      triggerFn={(text, currentEditor) => (currentEditor.isEditable() ? checkForTriggerMatch(text, currentEditor) : null)}
+      options={options}
+      menuRenderFn={(anchorElementRef, { selectedIndex, selectOptionAndCleanUp, setHighlightedIndex }) =>
+        anchorElementRef.current && options.length > 0
+          ? createPortal(
+              <div className="slash-menu" role="listbox" aria-label="Insert a block">
+                {options.map((option, index) => (
+                  <button
+                    key={option.key}
+                    ref={(element) => option.setRefElement(element)}
+                    type="button"
+                    role="option"
+                    aria-selected={selectedIndex === index}
+                    onClick={() => {
+                      setHighlightedIndex(index);
+                      selectOptionAndCleanUp(option);
+                    }}
+                    onMouseEnter={() => setHighlightedIndex(index)}
+                    className={`slash-menu-item ${selectedIndex === index ? 'selected' : ''}`}
+                  >
+                    <i className={`format ${option.command.icon}`} />
+                    {option.command.title}
+                  </button>
+                ))}
+              </div>,
+              anchorElementRef.current,
+            )
+          : null
+      }
+    />
+  );
+}
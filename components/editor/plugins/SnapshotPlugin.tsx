@@ -0,0 +1,44 @@
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { useEffect, useRef } from 'react';
+
+import { createSnapshot } from '@/lib/actions/snapshot.actions';
+import { serializeEditorState } from '../utils';
+
+// How often the document is checked for local changes that need an automatic snapshot.
+const SNAPSHOT_INTERVAL = 5 * 60 * 1000;
+
+/*
+This plugin takes an automatic snapshot of the document every few minutes, as long as the current
+user made changes since the last one. Updates coming from other collaborators carry the 'collaboration'
+tag and are ignored, so each editor only snapshots their own work and idle tabs never write anything.
+It renders nothing and must only be mounted for users that can edit the document.
+*/
+export default function SnapshotPlugin({ roomId }: { roomId: string }) {
+  const [editor] = useLexicalComposerContext();
+  const hasChanges = useRef(false);
+
+  useEffect(() => {
+    return editor.registerUpdateListener(({ dirtyElements, dirtyLeaves, tags }) => {
+      if (tags.has('collaboration') || (dirtyElements.size === 0 && dirtyLeaves.size === 0)) return;
+
+      hasChanges.current = true;
+    });
+  }, [editor]);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      if (!hasChanges.current) return;
+
+      hasChanges.current = false;
+      createSnapshot({
+        roomId,
+        content: serializeEditorState(editor),
+        kind: 'auto',
+      });
+    }, SNAPSHOT_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [editor, roomId]);
+
+  return null;
+}
@@ -0,0 +1,339 @@
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { $findMatchingParent, mergeRegister } from '@lexical/utils';
+import { useSelf } from '@liveblocks/react/suspense';
+import {
+  $createLineBreakNode,
+  $createTextNode,
+  $getSelection,
+  $isElementNode,
+  $isRangeSelection,
+  $isTextNode,
+  COMMAND_PRIORITY_CRITICAL,
+  CONTROLLED_TEXT_INSERTION_COMMAND,
+  COPY_COMMAND,
+  CUT_COMMAND,
+  DELETE_CHARACTER_COMMAND,
+  DELETE_LINE_COMMAND,
+  DELETE_WORD_COMMAND,
+  INSERT_LINE_BREAK_COMMAND,
+  INSERT_PARAGRAPH_COMMAND,
+  KEY_BACKSPACE_COMMAND,
+  KEY_DELETE_COMMAND,
+  PASTE_COMMAND,
+  REMOVE_TEXT_COMMAND,
+  type LexicalNode,
+  type RangeSelection,
+  type TextNode,
+} from 'lexical';
+import { nanoid } from 'nanoid';
+import { useEffect } from 'react';
+
+import {
+  $createSuggestionNode,
+  $isSuggestionNode,
+  type SuggestionAuthor,
+  type SuggestionNode,
+} from '../SuggestionNode';
+
+// How far a collapsed selection is extended by each delete command, as understood by RangeSelection.modify.
+type DeleteGranularity = 'character' | 'word' | 'lineboundary';
+
+/**
+ * Returns the suggestion the node is part of, if any.
+ */
+const $getSuggestionNode = (node: LexicalNode) =>
+  $findMatchingParent(node, $isSuggestionNode) as SuggestionNode | null;
+
+const $isInsertionBy = (suggestion: SuggestionNode | null, author: SuggestionAuthor) =>
+  suggestion !== null && suggestion.getSuggestionType() === 'insert' && suggestion.getAuthor().id === author.id;
+
+/**
+ * Merges a suggestion into its siblings when they are suggestions of the same kind by the same author,
+ * so that typing or deleting one character at a time makes a single suggestion. The older node is kept,
+ * so the suggestion keeps its ID and its card. Returns the node the suggestion ended up in.
+ */
+const $mergeWithSiblings = (suggestion: SuggestionNode) => {
+  let merged = suggestion;
+  const previous = merged.getPreviousSibling();
+  const next = merged.getNextSibling();
+
+  if ($isSuggestionNode(previous) && previous.isSameSuggestionKind(merged)) {
+    previous.append(...merged.getChildren());
+    merged.remove();
+    merged = previous;
+  }
+
+  if ($isSuggestionNode(next) && next.isSameSuggestionKind(merged)) {
+    if (merged === suggestion) {
+      next.splice(0, 0, merged.getChildren());
+      merged.remove();
+      merged = next;
+    } else {
+      merged.append(...next.getChildren());
+      next.remove();
+    }
+  }
+
+  return merged;
+};
+
+/**
+ * Builds the content of an insertion: text nodes in the format of the selection, with line breaks between lines.
+ */
+const $createSuggestedContent = (text: string, selection: RangeSelection) =>
+  text.split(/\r?\n/).flatMap((line, index): LexicalNode[] => {
+    const nodes: LexicalNode[] = index > 0 ? [$createLineBreakNode()] : [];
+
+    if (line) nodes.push($createTextNode(line).setFormat(selection.format).setStyle(selection.style));
+
+    return nodes;
+  });
+
+/**
+ * Suggests deleting the text of a selection, or of the given amount of text next to a collapsed selection.
+ * The text is wrapped in deletion suggestions instead of being removed, except for the text the author
+ * suggested inserting themself, which is simply removed. Text already suggested by others is left as it is.
+ * A deletion that would join two blocks only moves the selection, as the structure of the document is not tracked.
+ */
+const $suggestDeletion = (author: SuggestionAuthor, isBackward: boolean, granularity?: DeleteGranularity) => {
+  const selection = $getSelection();
+  if (!$isRangeSelection(selection)) return;
+
+  if (selection.isCollapsed() && granularity) selection.modify('extend', isBackward, granularity);
+  if (selection.isCollapsed()) return;
+
+  const id = nanoid();
+  const kept: TextNode[] = [];
+
+  selection.extract().filter($isTextNode).forEach((node) => {
+    const suggestion = $getSuggestionNode(node);
+
+    if ($isInsertionBy(suggestion, author)) {
+      node.remove();
+      return;
+    }
+
+    if (suggestion === null) {
+      const deletion = $createSuggestionNode('delete', author, id);
+
+      node.insertBefore(deletion);
+      deletion.append(node);
+      $mergeWithSiblings(deletion);
+    }
+
+    kept.push(node);
+  });
+
+  // The selection ends before the deleted text when deleting backward, and after it otherwise.
+  if (kept.length > 0) {
+    if (isBackward) {
+      kept[0].select(0, 0);
+    } else {
+      kept[kept.length - 1].select();
+    }
+    return;
+  }
+
+  // Only the author's own insertions were deleted, so the selection was moved next to them as they were removed.
+  const remaining = $getSelection();
+
+  if ($isRangeSelection(remaining)) {
+    const [start, end] = remaining.isBackward() ? [remaining.focus, remaining.anchor] : [remaining.anchor, remaining.focus];
+    const point = isBackward ? start : end;
+
+    remaining.anchor.set(point.key, point.offset, point.type);
+    remaining.focus.set(point.key, point.offset, point.type);
+  }
+};
+
+/**
+ * Suggests inserting text at the selection. A selected range is suggested for deletion first, and the text
+ * is inserted after it. Typing inside an insertion of the same author extends it instead of starting a new one.
+ */
+const $suggestInsertion = (author: SuggestionAuthor, text: string) => {
+  const initialSelection = $getSelection();
+  if ($isRangeSelection(initialSelection) && !initialSelection.isCollapsed()) $suggestDeletion(author, false);
+
+  const selection = $getSelection();
+  if (!$isRangeSelection(selection) || !text) return;
+
+  const { anchor } = selection;
+  const node = anchor.getNode();
+  const suggestion = $getSuggestionNode(node);
+
+  if ($isTextNode(node) && $isInsertionBy(suggestion, author) && !/[\r\n]/.test(text)) {
+    node.spliceText(anchor.offset, 0, text, true);
+    return;
+  }
+
+  const content = $createSuggestedContent(text, selection);
+
+  if ($isElementNode(node) && $isInsertionBy(suggestion, author)) {
+    // The selection is between the children of the insertion, e.g. after a suggested line break.
+    node.splice(anchor.offset, 0, content);
+  } else {
+    const insertion = $createSuggestionNode('insert', author).append(...content);
+
+    if (suggestion !== null) {
+      // Suggestions are not nested, so text typed inside the suggestion of someone else goes next to it.
+      const isAtStart = anchor.offset === 0 && (node.is(suggestion) || node.is(suggestion.getFirstDescendant()));
+
+      if (isAtStart) {
+        suggestion.insertBefore(insertion);
+      } else {
+        suggestion.insertAfter(insertion);
+      }
+    } else if ($isTextNode(node)) {
+      if (anchor.offset === 0) {
+        node.insertBefore(insertion);
+      } else if (anchor.offset === node.getTextContentSize()) {
+        node.insertAfter(insertion);
+      } else {
+        node.splitText(anchor.offset)[0].insertAfter(insertion);
+      }
+    } else {
+      selection.insertNodes([insertion]);
+    }
+
+    $mergeWithSiblings(insertion);
+  }
+
+  const last = content[content.length - 1];
+
+  if ($isTextNode(last)) {
+    last.select();
+  } else {
+    last.selectNext(0, 0);
+  }
+};
+
+/**
+ * Returns true if the event comes from an input inside the document, e.g. the caption of an image,
+ * which handles its own text.
+ */
+const isFromInput = (event: Event | null) =>
+  event?.target instanceof HTMLInputElement || event?.target instanceof HTMLTextAreaElement;
+
+/**
+ * Records the text typed, pasted and deleted by an editor in suggestion mode as suggestions attributed
+ * to them, instead of changing the document. The suggestions are accepted or rejected from their cards.
+ *
+ * Only text is tracked: Enter suggests a line break, and formatting, block types and inserted blocks
+ * such as tables and images are applied directly. Text typed through an input method composition
+ * is also applied directly, as the browser edits the DOM before Lexical can intercept it.
+ */
+export default function SuggestionPlugin({ isSuggesting }: { isSuggesting: boolean }) {
+  const [editor] = useLexicalComposerContext();
+  const self = useSelf();
+  const authorId = self.info.id;
+  const authorName = self.info.name;
+
+  useEffect(() => {
+    if (!isSuggesting) return;
+
+    const author: SuggestionAuthor = { id: authorId, name: authorName };
+
+    const $handleDelete = (isBackward: boolean, granularity: DeleteGranularity) => {
+      if (!$isRangeSelection($getSelection())) return false;
+
+      $suggestDeletion(author, isBackward, granularity);
+      return true;
+    };
+
+    const $handleInsert = (text: string) => {
+      if (!$isRangeSelection($getSelection())) return false;
+
+      $suggestInsertion(author, text);
+      return true;
+    };
+
+    // Lexical lets the browser insert most typed characters itself, so they are sent through
+    // CONTROLLED_TEXT_INSERTION_COMMAND instead, before Lexical handles the event.
+    const onBeforeInput = (event: InputEvent) => {
+      if (event.inputType !== 'insertText' || !event.data || isFromInput(event)) return;
+
+      event.preventDefault();
+      event.stopImmediatePropagation();
+      editor.dispatchCommand(CONTROLLED_TEXT_INSERTION_COMMAND, event.data);
+    };
+
+    return mergeRegister(
+      editor.registerRootListener((rootElement, prevRootElement) => {
+        prevRootElement?.removeEventListener('beforeinput', onBeforeInput, true);
+        rootElement?.addEventListener('beforeinput', onBeforeInput, true);
+      }),
+      () => editor.getRootElement()?.removeEventListener('beforeinput', onBeforeInput, true),
+      editor.registerCommand(
+        CONTROLLED_TEXT_INSERTION_COMMAND,
+        (eventOrText) => {
+          if (typeof eventOrText === 'string') return $handleInsert(eventOrText);
+
+          return $handleInsert(eventOrText.dataTransfer?.getData('text/plain') ?? eventOrText.data ?? '');
+        },
+        COMMAND_PRIORITY_CRITICAL,
+      ),
+      editor.registerCommand(
+        PASTE_COMMAND,
+        (event) => {
+          const clipboardData = event instanceof ClipboardEvent ? event.clipboardData : null;
+          const text = clipboardData?.getData('text/plain');
+
+          // Pasted files are left to the ImagesPlugin.
+          if (!text || isFromInput(event)) return false;
+
+          event.preventDefault();
+          return $handleInsert(text);
+        },
+        COMMAND_PRIORITY_CRITICAL,
+      ),
+      editor.registerCommand(
+        CUT_COMMAND,
+        (event) => {
+          if (isFromInput(event) || !$isRangeSelection($getSelection())) return false;
+
+          editor.dispatchCommand(COPY_COMMAND, event);
+          $suggestDeletion(author, true);
+          return true;
+        },
+        COMMAND_PRIORITY_CRITICAL,
+      ),
+      editor.registerCommand(INSERT_PARAGRAPH_COMMAND, () => $handleInsert('\n'), COMMAND_PRIORITY_CRITICAL),
+      editor.registerCommand(INSERT_LINE_BREAK_COMMAND, () => $handleInsert('\n'), COMMAND_PRIORITY_CRITICAL),
+      editor.registerCommand(
+        KEY_BACKSPACE_COMMAND,
+        (event) => {
+          if (isFromInput(event) || !$isRangeSelection($getSelection())) return false;
+
+          event.preventDefault();
+          return $handleDelete(true, 'character');
+        },
+        COMMAND_PRIORITY_CRITICAL,
+      ),
+      editor.registerCommand(
+        KEY_DELETE_COMMAND,
+        (event) => {
+          if (isFromInput(event) || !$isRangeSelection($getSelection())) return false;
+
+          event.preventDefault();
+          return $handleDelete(false, 'character');
+        },
+        COMMAND_PRIORITY_CRITICAL,
+      ),
+      editor.registerCommand(DELETE_CHARACTER_COMMAND, (isBackward) => $handleDelete(isBackward, 'character'), COMMAND_PRIORITY_CRITICAL),
+      editor.registerCommand(DELETE_WORD_COMMAND, (isBackward) => $handleDelete(isBackward, 'word'), COMMAND_PRIORITY_CRITICAL),
+      editor.registerCommand(DELETE_LINE_COMMAND, (isBackward) => $handleDelete(isBackward, 'lineboundary'), COMMAND_PRIORITY_CRITICAL),
+      editor.registerCommand(
+        REMOVE_TEXT_COMMAND,
+        () => {
+          if (!$isRangeSelection($getSelection())) return false;
+
+          $suggestDeletion(author, true);
+          return true;
+        },
+        COMMAND_PRIORITY_CRITICAL,
+      ),
+    );
+  }, [editor, isSuggesting, authorId, authorName]);
+
+  return null;
+}
@@ -0,0 +1,231 @@
+import {
+  autoUpdate,
+  flip,
+  offset,
+  shift,
+  useFloating,
+} from '@floating-ui/react-dom';
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import {
+  $computeTableMapSkipCellCheck,
+  $deleteTableColumn__EXPERIMENTAL,
+  $deleteTableRow__EXPERIMENTAL,
+  $getTableCellNodeFromLexicalNode,
+  $getTableNodeFromLexicalNodeOrThrow,
+  $getTableRowNodeFromTableCellNodeOrThrow,
+  $insertTableColumn__EXPERIMENTAL,
+  $insertTableRow__EXPERIMENTAL,
+  $isTableCellNode,
+  $isTableSelection,
+  $unmergeCell,
+  TableCellHeaderStates,
+  type TableCellNode,
+  type TableSelection,
+} from '@lexical/table';
+import { $getSelection, $isParagraphNode, $isRangeSelection } from 'lexical';
+import Image from 'next/image';
+import { useEffect, useLayoutEffect, useState } from 'react';
+import * as React from 'react';
+import { createPortal } from 'react-dom';
+
+// The state of the menu for the table cell at the selection.
+type TableMenuState = {
+  cellKey: string;
+  isHeaderRow: boolean;
+  canMerge: boolean;
+  canUnmerge: boolean;
+};
+
+/**
+ * Returns true if the cell only holds the empty paragraph every new cell starts with.
+ */
+function $isCellEmpty(cell: TableCellNode) {
+  const firstChild = cell.getFirstChild();
+
+  return cell.getChildrenSize() === 1 && $isParagraphNode(firstChild) && firstChild.isEmpty();
+}
+
+/**
+ * Merges the cells of a table selection into its top left cell, which spans the whole selection.
+ * The content of the other cells is moved to the merged cell, and empty cells are dropped.
+ * A table selection always covers whole merged cells, so the selected cells form a rectangle.
+ */
+function $mergeSelectedCells(selection: TableSelection) {
+  const cells = selection.getNodes().filter($isTableCellNode);
+  const [tableMap] = $computeTableMapSkipCellCheck($getTableNodeFromLexicalNodeOrThrow(cells[0]), null, null);
+
+  let top = Infinity;
+  let left = Infinity;
+  let bottom = -1;
+  let right = -1;
+
+  tableMap.forEach((row, rowIndex) => {
+    row.forEach(({ cell }, columnIndex) => {
+      if (!cells.some((selectedCell) => selectedCell.is(cell))) return;
+
+      top = Math.min(top, rowIndex);
+      left = Math.min(left, columnIndex);
+      bottom = Math.max(bottom, rowIndex);
+      right = Math.max(right, columnIndex);
+    });
+  });
+
+  const mergedCell = tableMap[top][left].cell;
+  mergedCell.setColSpan(right - left + 1).setRowSpan(bottom - top + 1);
+
+  cells.forEach((cell) => {
+    if (cell.is(mergedCell)) return;
+
+    if (!$isCellEmpty(cell)) {
+      // The empty paragraph of the merged cell is replaced by the content of the first cell that has some.
+      if ($isCellEmpty(mergedCell)) mergedCell.clear();
+      mergedCell.append(...cell.getChildren());
+    }
+
+    cell.remove();
+  });
+
+  mergedCell.selectEnd();
+}
+
+/**
+ * Reads the state of the menu from the selection, or returns null if the selection is not in a table.
+ */
+function $getTableMenuState(): TableMenuState | null {
+  const selection = $getSelection();
+  if (!$isRangeSelection(selection) && !$isTableSelection(selection)) return null;
+
+  const cell = $getTableCellNodeFromLexicalNode(selection.focus.getNode());
+  if (cell === null) return null;
+
+  const isTableSelection = $isTableSelection(selection);
+
+  return {
+    cellKey: cell.getKey(),
+    isHeaderRow: cell.hasHeaderState(TableCellHeaderStates.ROW),
+    canMerge: isTableSelection && selection.getNodes().filter($isTableCellNode).length > 1,
+    canUnmerge: !isTableSelection && (cell.getColSpan() > 1 || cell.getRowSpan() > 1),
+  };
+}
+
+/**
+ * A button in the corner of the table cell at the selection, which opens a menu to add and remove
+ * rows and columns, toggle the header row, merge and unmerge cells, and delete the table.
+ *
+ * Every action is a single update, so collaborators never see a half-changed table. Cells are
+ * separate nodes in the document synced by the LiveblocksPlugin, so collaborators editing
+ * different cells at the same time do not overwrite each other.
+ */
+export default function TableActionMenuPlugin() {
+  const [editor] = useLexicalComposerContext();
+  const [menu, setMenu] = useState<TableMenuState | null>(null);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    return editor.registerUpdateListener(({ editorState }) => {
+      const nextMenu = editorState.read($getTableMenuState);
+
+      setMenu((currentMenu) =>
+        JSON.stringify(currentMenu) === JSON.stringify(nextMenu) ? currentMenu : nextMenu,
+      );
+    });
+  }, [editor]);
+
+  useEffect(() => setOpen(false), [menu?.cellKey]);
+
+  const {
+    refs: { setReference, setFloating },
+    strategy,
+    x,
+    y,
+  } = useFloating({
+    strategy: 'fixed',
+    placement: 'right-start',
+    middleware: [offset({ mainAxis: -28, crossAxis: 4 }), flip(), shift({ padding: 8 })],
+    whileElementsMounted: autoUpdate,
+  });
+
+  useLayoutEffect(() => {
+    setReference(menu ? editor.getElementByKey(menu.cellKey) : null);
+  }, [editor, menu, setReference]);
+
+  if (menu === null || !editor.isEditable()) return null;
+
+  const runAction = (action: () => void) => {
+    editor.update(action);
+    setOpen(false);
+  };
+
+  const toggleHeaderRow = () => {
+    const selection = $getSelection();
+    if (!$isRangeSelection(selection) && !$isTableSelection(selection)) return;
+
+    const cell = $getTableCellNodeFromLexicalNode(selection.focus.getNode());
+    if (cell === null) return;
+
+    $getTableRowNodeFromTableCellNodeOrThrow(cell).getChildren().forEach((rowCell) => {
+      if (!$isTableCellNode(rowCell)) return;
+
+      const headerState = rowCell.getHeaderStyles() & ~TableCellHeaderStates.ROW;
+      rowCell.setHeaderStyles(menu.isHeaderRow ? headerState : headerState | TableCellHeaderStates.ROW);
+    });
+  };
+
+  const deleteTable = () => {
+    const selection = $getSelection();
+    if (!$isRangeSelection(selection) && !$isTableSelection(selection)) return;
+
+    $getTableNodeFromLexicalNodeOrThrow(selection.focus.getNode()).remove();
+  };
+
+  const mergeCells = () => {
+    const selection = $getSelection();
+    if ($isTableSelection(selection)) $mergeSelectedCells(selection);
+  };
+
+  const actions: Array<{ label: string; action: () => void; hidden?: boolean }> = [
+    { label: 'Insert row above', action: () => $insertTableRow__EXPERIMENTAL(false) },
+    { label: 'Insert row below', action: () => $insertTableRow__EXPERIMENTAL(true) },
+    { label: 'Insert column left', action: () => $insertTableColumn__EXPERIMENTAL(false) },
+    { label: 'Insert column right', action: () => $insertTableColumn__EXPERIMENTAL(true) },
+    { label: 'Delete row', action: $deleteTableRow__EXPERIMENTAL },
+    { label: 'Delete column', action: $deleteTableColumn__EXPERIMENTAL },
+    { label: menu.isHeaderRow ? 'Remove header row' : 'Make header row', action: toggleHeaderRow },
+    { label: 'Merge cells', action: mergeCells, hidden: !menu.canMerge },
+    { label: 'Unmerge cells', action: $unmergeCell, hidden: !menu.canUnmerge },
+    { label: 'Delete table', action: deleteTable },
+  ];
+
+  return createPortal(
+    <div
+      ref={setFloating}
+      className="table-action-menu"
+      style={{
+        position: strategy,
+        top: 0,
+        left: 0,
+        transform: `translate3d(${Math.round(x)}px, ${Math.round(y)}px, 0)`,
+      }}
+    >
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="table-action-menu-trigger"
+        aria-label="Table actions"
+        aria-expanded={open}
+      >
+        <Image src="/assets/icons/more.svg" alt="more" width={16} height={16} />
+      </button>
+      {open && (
+        <div className="table-action-menu-list">
+          {actions.filter(({ hidden }) => !hidden).map(({ label, action }) => (
+            <button key={label} type="button" onClick={() => runAction(action)} className="table-action-menu-item">
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>,
+    document.body,
+  );
+}
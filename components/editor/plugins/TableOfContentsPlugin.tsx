@@ -0,0 +1,65 @@
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { $insertNodeToNearestRoot, mergeRegister } from '@lexical/utils';
+import { COMMAND_PRIORITY_EDITOR, createCommand, type LexicalCommand } from 'lexical';
+import { useEffect, useState } from 'react';
+
+import { $createTableOfContentsNode } from '../TableOfContentsNode';
+import { $getTableOfContents } from '../utils';
+import { registerSlashCommands } from './SlashCommandPlugin';
+
+/**
+ * Inserts a table of contents block at the selection.
+ */
+export const INSERT_TABLE_OF_CONTENTS_COMMAND: LexicalCommand<void> = createCommand('INSERT_TABLE_OF_CONTENTS_COMMAND');
+
+/**
+ * Returns the headings of the document, kept up to date as the current user and their collaborators edit it.
+ * Used by the table of contents blocks and by the outline next to the editor.
+ *
+ * @returns {TableOfContentsEntry[]} The headings of the document, in order.
+ */
+export function useTableOfContents() {
+  const [editor] = useLexicalComposerContext();
+  const [entries, setEntries] = useState<TableOfContentsEntry[]>([]);
+
+  useEffect(() => {
+    setEntries(editor.getEditorState().read($getTableOfContents));
+
+    return editor.registerUpdateListener(({ editorState }) => {
+      const nextEntries = editorState.read($getTableOfContents);
+
+      setEntries((current) => (JSON.stringify(current) === JSON.stringify(nextEntries) ? current : nextEntries));
+    });
+  }, [editor]);
+
+  return entries;
+}
+
+/**
+ * Lets editors insert a table of contents block, from the slash menu.
+ * Only rendered for editors, as viewers and commenters cannot change the document.
+ */
+export default function TableOfContentsPlugin() {
+  const [editor] = useLexicalComposerContext();
+
+  useEffect(() => {
+    return mergeRegister(
+      registerSlashCommands(editor, [{
+        title: 'Table of contents',
+        icon: 'table-of-contents',
+        keywords: ['toc', 'outline', 'headings'],
+        onSelect: (editor) => editor.dispatchCommand(INSERT_TABLE_OF_CONTENTS_COMMAND, undefined),
+      }]),
+      editor.registerCommand(
+        INSERT_TABLE_OF_CONTENTS_COMMAND,
+        () => {
+          $insertNodeToNearestRoot($createTableOfContentsNode());
+          return true;
+        },
+        COMMAND_PRIORITY_EDITOR,
+      ),
+    );
+  }, [editor]);
+
+  return null;
+}
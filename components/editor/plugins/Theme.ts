@@ -8,6 +8,38 @@
  */
 export default {
   code: 'editor-code',
+  codeHighlight: {
+    atrule: 'editor-tokenAttr',
+    attr: 'editor-tokenAttr',
+    boolean: 'editor-tokenProperty',
+    builtin: 'editor-tokenSelector',
+    cdata: 'editor-tokenComment',
+    char: 'editor-tokenSelector',
+    class: 'editor-tokenFunction',
+    'class-name': 'editor-tokenFunction',
+    comment: 'editor-tokenComment',
+    constant: 'editor-tokenProperty',
+    deleted: 'editor-tokenProperty',
+    doctype: 'editor-tokenComment',
+    entity: 'editor-tokenOperator',
+    function: 'editor-tokenFunction',
+    important: 'editor-tokenVariable',
+    inserted: 'editor-tokenSelector',
+    keyword: 'editor-tokenAttr',
+    namespace: 'editor-tokenVariable',
+    number: 'editor-tokenProperty',
+    operator: 'editor-tokenOperator',
+    prolog: 'editor-tokenComment',
+    property: 'editor-tokenProperty',
+    punctuation: 'editor-tokenPunctuation',
+    regex: 'editor-tokenVariable',
+    selector: 'editor-tokenSelector',
+    string: 'editor-tokenSelector',
+    symbol: 'editor-tokenProperty',
+    tag: 'editor-tokenProperty',
+    url: 'editor-tokenOperator',
+    variable: 'editor-tokenVariable',
+  },
   heading: {
     h1: 'editor-heading-h1',
     h2: 'editor-heading-h2',
@@ -15,10 +47,13 @@ export default {
     h4: 'editor-heading-h4',
     h5: 'editor-heading-h5',
   },
+  hr: 'editor-hr',
   image: 'editor-image',
   link: 'editor-link',
   list: {
     listitem: 'editor-listitem',
+    listitemChecked: 'editor-listitem-checked',
+    listitemUnchecked: 'editor-listitem-unchecked',
     nested: {
       listitem: 'editor-nested-listitem',
     },
@@ -30,6 +65,14 @@ export default {
   placeholder: 'editor-placeholder',
   quote: 'editor-quote',
   rtl: 'rtl',
+  suggestionDelete: 'editor-suggestion-delete',
+  suggestionInsert: 'editor-suggestion-insert',
+  table: 'editor-table',
+  tableCell: 'editor-tableCell',
+  tableCellHeader: 'editor-tableCellHeader',
+  tableCellSelected: 'editor-tableCellSelected',
+  tableOfContents: 'editor-table-of-contents',
+  tableSelection: 'editor-tableSelection',
   text: {
     bold: 'editor-text-bold',
     code: 'editor-text-code',
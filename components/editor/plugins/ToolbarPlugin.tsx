@@ -5,8 +5,18 @@
  * LICENSE file in the root directory of this source tree.
  *
  */
+import { $createCodeNode } from '@lexical/code';
+import { $isLinkNode } from '@lexical/link';
+import {
+  $isListNode,
+  INSERT_CHECK_LIST_COMMAND,
+  INSERT_ORDERED_LIST_COMMAND,
+  INSERT_UNORDERED_LIST_COMMAND,
+  ListNode,
+  REMOVE_LIST_COMMAND,
+} from '@lexical/list';
 import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
-import { mergeRegister } from '@lexical/utils';
+import { $getNearestNodeOfType, mergeRegister } from '@lexical/utils';
 import {
   $createParagraphNode,
   $isRootOrShadowRoot,
@@ -36,13 +46,28 @@ import {
   useSyncExternalStore,
 } from 'react';
 
+import InsertTableModal from '../../InsertTableModal';
+import { DEFAULT_CODE_LANGUAGE } from './CodeHighlightPlugin';
+import { EDIT_LINK_COMMAND } from './FloatingLinkEditorPlugin';
+import { OPEN_IMAGE_PICKER_COMMAND } from './ImagesPlugin';
+
 const LowPriority = 1;
 
 function Divider() {
   return <div className="divider" />;
 }
 
-export default function ToolbarPlugin() {
+/**
+ * The toolbar of the editor. With `onToggleSuggesting`, which Editor only passes to editors,
+ * it also shows the toggle between editing and suggesting.
+ */
+export default function ToolbarPlugin({
+  isSuggesting = false,
+  onToggleSuggesting,
+}: {
+  isSuggesting?: boolean;
+  onToggleSuggesting?: () => void;
+}) {
   const [editor] = useLexicalComposerContext();
   const toolbarRef = useRef(null);
   const [canUndo, setCanUndo] = useState(false);
@@ -51,6 +76,8 @@ export default function ToolbarPlugin() {
   const [isItalic, setIsItalic] = useState(false);
   const [isUnderline, setIsUnderline] = useState(false);
   const [isStrikethrough, setIsStrikethrough] = useState(false);
+  const [isCode, setIsCode] = useState(false);
+  const [isLink, setIsLink] = useState(false);
   const activeBlock = useActiveBlock();
 
   const $updateToolbar = useCallback(() => {
@@ -61,6 +88,8 @@ export default function ToolbarPlugin() {
       setIsItalic(selection.hasFormat('italic'));
       setIsUnderline(selection.hasFormat('underline'));
       setIsStrikethrough(selection.hasFormat('strikethrough'));
+      setIsCode(selection.hasFormat('code'));
+      setIsLink($findMatchingParent(selection.anchor.getNode(), $isLinkNode) !== null);
     }
   }, []);
 
@@ -98,7 +127,7 @@ export default function ToolbarPlugin() {
     );
   }, [editor, $updateToolbar]);
 
-  function toggleBlock(type: 'h1' | 'h2' | 'h3' | 'quote') {
+  function toggleBlock(type: 'h1' | 'h2' | 'h3' | 'quote' | 'code') {
     const selection = $getSelection();
 
     if (activeBlock === type) {
@@ -120,6 +149,37 @@ export default function ToolbarPlugin() {
     if (type === 'quote') {
       return $setBlocksType(selection, () => $createQuoteNode());
     }
+
+    if (type === 'code') {
+      // A collapsed selection turns its block into a code block, a selected range is moved into a new one.
+      if (!$isRangeSelection(selection) || selection.isCollapsed()) {
+        return $setBlocksType(selection, () => $createCodeNode(DEFAULT_CODE_LANGUAGE));
+      }
+
+      const textContent = selection.getTextContent();
+      selection.insertNodes([$createCodeNode(DEFAULT_CODE_LANGUAGE)]);
+
+      const codeSelection = $getSelection();
+      if ($isRangeSelection(codeSelection)) {
+        codeSelection.insertRawText(textContent);
+      }
+    }
+  }
+
+  function toggleList(type: 'bullet' | 'number' | 'check') {
+    if (activeBlock === type) {
+      return editor.dispatchCommand(REMOVE_LIST_COMMAND, undefined);
+    }
+
+    if (type === 'bullet') {
+      return editor.dispatchCommand(INSERT_UNORDERED_LIST_COMMAND, undefined);
+    }
+
+    if (type === 'number') {
+      return editor.dispatchCommand(INSERT_ORDERED_LIST_COMMAND, undefined);
+    }
+
+    return editor.dispatchCommand(INSERT_CHECK_LIST_COMMAND, undefined);
   }
 
   return (
@@ -172,6 +232,57 @@ export default function ToolbarPlugin() {
       >
         <i className="format h3" />
       </button>
+      <button
+        onClick={() => editor.update(() => toggleBlock('code'))}
+        data-active={activeBlock === 'code' ? '' : undefined}
+        className={
+          'toolbar-item spaced ' + (activeBlock === 'code' ? 'active' : '')
+        }
+        aria-label="Code Block"
+      >
+        <i className="format code-block" />
+      </button>
+      <InsertTableModal />
+      <button
+        onClick={() => {
+          editor.dispatchCommand(OPEN_IMAGE_PICKER_COMMAND, undefined);
+        }}
+        className="toolbar-item spaced"
+        aria-label="Insert Image"
+      >
+        <i className="format image" />
+      </button>
+      <Divider />
+      <button
+        onClick={() => toggleList('bullet')}
+        data-active={activeBlock === 'bullet' ? '' : undefined}
+        className={
+          'toolbar-item spaced ' + (activeBlock === 'bullet' ? 'active' : '')
+        }
+        aria-label="Bulleted List"
+      >
+        <i className="format bullet-list" />
+      </button>
+      <button
+        onClick={() => toggleList('number')}
+        data-active={activeBlock === 'number' ? '' : undefined}
+        className={
+          'toolbar-item spaced ' + (activeBlock === 'number' ? 'active' : '')
+        }
+        aria-label="Numbered List"
+      >
+        <i className="format number-list" />
+      </button>
+      <button
+        onClick={() => toggleList('check')}
+        data-active={activeBlock === 'check' ? '' : undefined}
+        className={
+          'toolbar-item spaced ' + (activeBlock === 'check' ? 'active' : '')
+        }
+        aria-label="Checklist"
+      >
+        <i className="format check-list" />
+      </button>
       <Divider />
       <button
         onClick={() => {
@@ -209,6 +320,24 @@ export default function ToolbarPlugin() {
       >
         <i className="format strikethrough" />
       </button>
+      <button
+        onClick={() => {
+          editor.dispatchCommand(FORMAT_TEXT_COMMAND, 'code');
+        }}
+        className={'toolbar-item spaced ' + (isCode ? 'active' : '')}
+        aria-label="Format Code"
+      >
+        <i className="format code" />
+      </button>
+      <button
+        onClick={() => {
+          editor.dispatchCommand(EDIT_LINK_COMMAND, undefined);
+        }}
+        className={'toolbar-item spaced ' + (isLink ? 'active' : '')}
+        aria-label="Insert Link"
+      >
+        <i className="format link" />
+      </button>
       <Divider />
       <button
         onClick={() => {
@@ -246,6 +375,21 @@ export default function ToolbarPlugin() {
       >
         <i className="format justify-align" />
       </button>{' '}
+      {onToggleSuggesting && (
+        <>
+          <Divider />
+          <button
+            onClick={onToggleSuggesting}
+            className={'toolbar-item ' + (isSuggesting ? 'active' : '')}
+            aria-label="Suggesting"
+            aria-pressed={isSuggesting}
+            title="Suggest changes instead of editing directly"
+          >
+            <i className="format suggest" />
+            <span className="suggest-label">Suggesting</span>
+          </button>
+        </>
+      )}
     </div>
   );
 }
@@ -282,6 +426,12 @@ function useActiveBlock() {
         return element.getTag();
       }
 
+      // Nested lists can have a different type than the top-level list, e.g. a checklist inside a bulleted list.
+      if ($isListNode(element)) {
+        const list = $getNearestNodeOfType(anchor, ListNode);
+        return (list ?? element).getListType();
+      }
+
       return element.getType();
     });
   }, [editor]);
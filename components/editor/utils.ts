@@ -0,0 +1,125 @@
+import { $isHeadingNode } from '@lexical/rich-text';
+import {
+  $getRoot,
+  $isElementNode,
+  $isRootNode,
+  $isTextNode,
+  $parseSerializedNode,
+  LexicalEditor,
+  LexicalNode,
+  NodeKey,
+  PointType,
+  SerializedEditorState,
+  SerializedLexicalNode,
+} from 'lexical';
+
+/**
+ * Serializes the current state of an editor to a JSON string, so it can be stored server-side.
+ *
+ * @param {LexicalEditor} editor - The editor to serialize.
+ * @returns {string} The serialized editor state.
+ */
+export function serializeEditorState(editor: LexicalEditor) {
+  return JSON.stringify(editor.getEditorState().toJSON());
+}
+
+/**
+ * Replaces the whole content of the document with a serialized editor state.
+ *
+ * The nodes are rebuilt inside a regular update instead of calling setEditorState,
+ * so that the change is picked up by the LiveblocksPlugin and synced to every collaborator,
+ * and so that it can be undone through the HistoryPlugin.
+ *
+ * @param {LexicalEditor} editor - The editor to update.
+ * @param {string} content - The serialized editor state to apply.
+ */
+export function replaceEditorContent(editor: LexicalEditor, content: string) {
+  const { root } = JSON.parse(content) as SerializedEditorState;
+
+  editor.update(() => {
+    const rootNode = $getRoot();
+
+    rootNode.clear();
+    rootNode.append(
+      ...root.children.map((child) => $parseSerializedNode(child as SerializedLexicalNode)),
+    );
+  });
+}
+
+/**
+ * Describes a point of the selection in a way every collaborator can resolve, as the path of indexes
+ * from the root to the node of the point. It is published in the presence of the user.
+ *
+ * @param {PointType} point - The anchor or focus of a range selection.
+ * @returns {CursorPoint} The path to the node of the point, and the offset in that node.
+ */
+export function $getCursorPoint(point: PointType): CursorPoint {
+  const path: number[] = [];
+  let node: LexicalNode | null = point.getNode();
+
+  while (node !== null && !$isRootNode(node)) {
+    path.unshift(node.getIndexWithinParent());
+    node = node.getParent();
+  }
+
+  return { path, offset: point.offset, type: point.type };
+}
+
+/**
+ * Finds the node and offset a CursorPoint of a collaborator refers to in the current document.
+ * The document can change before the collaborator publishes their cursor again, so the offset is
+ * kept within the node, and null is returned if the path does not lead to a node of the right type anymore.
+ *
+ * @param {CursorPoint} point - The point published by a collaborator.
+ * @returns The node and the offset of the point, or null.
+ */
+export function $resolveCursorPoint({ path, offset, type }: CursorPoint): { node: LexicalNode; offset: number } | null {
+  let node: LexicalNode | null = $getRoot();
+
+  for (const index of path) {
+    node = $isElementNode(node) ? node.getChildAtIndex(index) : null;
+    if (node === null) return null;
+  }
+
+  if (type === 'text' && $isTextNode(node)) {
+    return { node, offset: Math.min(offset, node.getTextContentSize()) };
+  }
+
+  if (type === 'element' && $isElementNode(node)) {
+    return { node, offset: Math.min(offset, node.getChildrenSize()) };
+  }
+
+  return null;
+}
+
+// The levels of heading listed in a table of contents, which are the ones the ToolbarPlugin creates.
+const TABLE_OF_CONTENTS_TAGS = ['h1', 'h2', 'h3'];
+
+/**
+ * Lists the headings of the document for a table of contents, in order. Headings are always
+ * top-level blocks, and empty headings are left out since there is nothing to show for them.
+ *
+ * @returns {TableOfContentsEntry[]} The key, text and level of each heading.
+ */
+export function $getTableOfContents(): TableOfContentsEntry[] {
+  return $getRoot()
+    .getChildren()
+    .filter($isHeadingNode)
+    .filter((heading) => TABLE_OF_CONTENTS_TAGS.includes(heading.getTag()))
+    .map((heading) => ({
+      key: heading.getKey(),
+      text: heading.getTextContent().trim(),
+      level: Number(heading.getTag().slice(1)),
+    }))
+    .filter(({ text }) => text !== '');
+}
+
+/**
+ * Scrolls the editor to a heading of the table of contents, so that it is at the top of the page.
+ *
+ * @param {LexicalEditor} editor - The editor.
+ * @param {NodeKey} key - The key of the heading.
+ */
+export function scrollToHeading(editor: LexicalEditor, key: NodeKey) {
+  editor.getElementByKey(key)?.scrollIntoView({ block: 'start', behavior: 'smooth' });
+}
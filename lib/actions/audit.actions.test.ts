@@ -0,0 +1,20 @@
+import { expect } from 'vitest';
+
+import { TEST_USERS } from '@/test/fakes';
+import { describeGuardedRoomAction } from '@/test/guarded-action';
+import { recordAuditEvent } from '../audit';
+import { getAuditLog } from './audit.actions';
+
+describeGuardedRoomAction('getAuditLog', {
+  requiredRole: 'creator',
+  setup: (roomId) => recordAuditEvent({
+    roomId,
+    action: 'document.trashed',
+    actor: { name: 'Eddie Editor', email: TEST_USERS.editor.email },
+  }),
+  run: (roomId) => getAuditLog({ roomId }),
+  expectAllowed: (result) => {
+    expect(result).toEqual([expect.objectContaining({ action: 'document.trashed' })]);
+  },
+  deniedResult: () => undefined,
+});
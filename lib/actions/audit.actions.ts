@@ -0,0 +1,24 @@
+'use server';
+
+import { readAuditLog } from '../audit';
+import { authorizeRoom } from '../authorization';
+import { parseStringify } from '../utils';
+
+/**
+ * Retrieves the audit log of a document, newest event first. Only the owner of the document can read it.
+ *
+ * @param {Object} params - An object with a `roomId` property.
+ * @param {string} params.roomId - The ID of the room.
+ * @returns {Promise<AuditEvent[] | undefined>} A promise that resolves to the events of the room.
+ */
+export const getAuditLog = async ({ roomId }: { roomId: string }) => {
+  try {
+    await authorizeRoom(roomId, 'creator');
+
+    const events = await readAuditLog(roomId);
+
+    return parseStringify(events);
+  } catch (error) {
+    console.log(`Error happened while getting the audit log: ${error}`);
+  }
+}
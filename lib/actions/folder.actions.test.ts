@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest';
+
+import { createTestRoom, getTestRoom, liveblocks, signInAs, TEST_USERS } from '@/test/fakes';
+import { describeGuardedRoomAction } from '@/test/guarded-action';
+import { COLLECTIONS, readRecord, writeRecord } from '../store';
+import { getUserType } from '../utils';
+import { createFolder, getFolders, moveDocument, moveFolder, renameFolder, shareFolder } from './folder.actions';
+
+const { editor, viewer, commenter, stranger } = TEST_USERS;
+
+// The folder of the tests: the editor can edit it, and the viewer can only see it.
+const writeFolder = (id = 'folder-1', parentId: string | null = null) => writeRecord<Folder>(COLLECTIONS.folders, id, {
+  id,
+  name: `Folder ${id}`,
+  parentId,
+  createdBy: editor.email,
+  createdAt: new Date().toISOString(),
+  usersAccesses: { [editor.email]: 'editor', [viewer.email]: 'viewer' },
+});
+
+const readFolder = (id = 'folder-1') => readRecord<Folder | null>(COLLECTIONS.folders, id, null);
+
+const toActionError = (code: AuthorizationErrorCode) => ({ error: { code, message: expect.any(String) } });
+
+describe('getFolders', () => {
+  it('lists the folders the signed in user has access to', async () => {
+    await writeFolder();
+    signInAs('viewer');
+
+    expect(await getFolders()).toMatchObject([{ id: 'folder-1' }]);
+  });
+
+  it('lists nothing to a user without access', async () => {
+    await writeFolder();
+    signInAs('stranger');
+
+    expect(await getFolders()).toEqual([]);
+  });
+
+  it('lists nothing when nobody is signed in', async () => {
+    await writeFolder();
+
+    expect(await getFolders()).toEqual([]);
+  });
+});
+
+describe('createFolder', () => {
+  it('creates a folder inside a folder the user can edit, shared like its parent', async () => {
+    await writeFolder();
+    signInAs('editor');
+
+    const folder = await createFolder({ name: 'Specs', parentId: 'folder-1' });
+
+    expect(folder).toMatchObject({ name: 'Specs', parentId: 'folder-1', usersAccesses: { [editor.email]: 'editor', [viewer.email]: 'viewer' } });
+  });
+
+  it('is denied as unauthenticated when nobody is signed in', async () => {
+    expect(await createFolder({ name: 'Specs', parentId: null })).toEqual(toActionError('unauthenticated'));
+  });
+
+  it('is forbidden inside a folder the user can only view', async () => {
+    await writeFolder();
+    signInAs('viewer');
+
+    expect(await createFolder({ name: 'Specs', parentId: 'folder-1' })).toEqual(toActionError('forbidden'));
+  });
+
+  it('is denied as not_found inside a folder the user has no access to', async () => {
+    await writeFolder();
+    signInAs('stranger');
+
+    expect(await createFolder({ name: 'Specs', parentId: 'folder-1' })).toEqual(toActionError('not_found'));
+    expect(await createFolder({ name: 'Specs', parentId: 'missing-folder' })).toEqual(toActionError('not_found'));
+  });
+});
+
+describe('renameFolder', () => {
+  it('renames a folder the user can edit', async () => {
+    await writeFolder();
+    signInAs('editor');
+
+    expect(await renameFolder({ folderId: 'folder-1', name: 'Archive' })).toBeUndefined();
+    expect(await readFolder()).toMatchObject({ name: 'Archive' });
+  });
+
+  it.each([
+    ['unauthenticated', null],
+    ['forbidden', 'viewer'],
+    ['not_found', 'stranger'],
+  ] as const)('is denied as %s', async (code, user) => {
+    await writeFolder();
+    signInAs(user);
+
+    expect(await renameFolder({ folderId: 'folder-1', name: 'Archive' })).toEqual(toActionError(code));
+    expect(await readFolder()).toMatchObject({ name: 'Folder folder-1' });
+  });
+});
+
+describe('moveFolder', () => {
+  it('moves a folder into another folder the user can edit', async () => {
+    await writeFolder('folder-1');
+    await writeFolder('folder-2');
+    signInAs('editor');
+
+    expect(await moveFolder({ folderId: 'folder-1', parentId: 'folder-2' })).toBeUndefined();
+    expect(await readFolder()).toMatchObject({ parentId: 'folder-2' });
+  });
+
+  it('cannot move a folder into one of its subfolders', async () => {
+    await writeFolder('folder-1');
+    await writeFolder('folder-2', 'folder-1');
+    signInAs('editor');
+
+    await moveFolder({ folderId: 'folder-1', parentId: 'folder-2' });
+
+    expect(await readFolder()).toMatchObject({ parentId: null });
+  });
+
+  it.each([
+    ['unauthenticated', null],
+    ['forbidden', 'viewer'],
+    ['not_found', 'stranger'],
+  ] as const)('is denied as %s', async (code, user) => {
+    await writeFolder('folder-1');
+    await writeFolder('folder-2');
+    signInAs(user);
+
+    expect(await moveFolder({ folderId: 'folder-1', parentId: 'folder-2' })).toEqual(toActionError(code));
+    expect(await readFolder()).toMatchObject({ parentId: null });
+  });
+});
+
+describeGuardedRoomAction('moveDocument', {
+  requiredRole: 'editor',
+  setup: () => writeFolder(),
+  run: (roomId) => moveDocument({ roomId, folderId: 'folder-1' }),
+  expectAllowed: (result, roomId) => {
+    expect(result).toBeUndefined();
+    expect(getTestRoom(roomId)?.metadata.folderId).toBe('folder-1');
+  },
+  expectUnchanged: (roomId) => {
+    expect(getTestRoom(roomId)?.metadata.folderId).toBeUndefined();
+  },
+});
+
+describe('moveDocument into a folder', () => {
+  it('is forbidden when the user can only view the folder', async () => {
+    await writeFolder();
+    const roomId = createTestRoom();
+    const room = getTestRoom(roomId)!;
+    room.usersAccesses[viewer.email] = ['room:write'];
+    signInAs('viewer');
+
+    expect(await moveDocument({ roomId, folderId: 'folder-1' })).toEqual(toActionError('forbidden'));
+    expect(room.metadata.folderId).toBeUndefined();
+  });
+});
+
+describe('shareFolder', () => {
+  it('shares the folder and the documents inside it, without downgrading anyone', async () => {
+    await writeFolder();
+    const roomId = createTestRoom('room-1', { folderId: 'folder-1' });
+    signInAs('editor');
+
+    expect(await shareFolder({ folderId: 'folder-1', email: commenter.email, userType: 'viewer' })).toBeUndefined();
+    expect(await shareFolder({ folderId: 'folder-1', email: stranger.email, userType: 'viewer' })).toBeUndefined();
+
+    expect((await readFolder())?.usersAccesses).toMatchObject({ [commenter.email]: 'viewer', [stranger.email]: 'viewer' });
+    // The commenter already had more than the folder gives, so their role and inbox are left alone.
+    expect(getUserType(getTestRoom(roomId)?.usersAccesses[commenter.email])).toBe('commenter');
+    expect(getUserType(getTestRoom(roomId)?.usersAccesses[stranger.email])).toBe('viewer');
+    expect(liveblocks.triggerInboxNotification).toHaveBeenCalledTimes(1);
+    expect(liveblocks.triggerInboxNotification).toHaveBeenCalledWith(expect.objectContaining({ userId: stranger.email }));
+  });
+
+  it('names the documents that could not be shared, and shares the others', async () => {
+    await writeFolder();
+    createTestRoom('room-1', { folderId: 'folder-1', title: 'Roadmap' });
+    createTestRoom('room-2', { folderId: 'folder-1', title: 'Budget' });
+    liveblocks.updateRoom.mockRejectedValueOnce(new Error('Liveblocks is unavailable'));
+    signInAs('editor');
+
+    expect(await shareFolder({ folderId: 'folder-1', email: stranger.email, userType: 'viewer' })).toEqual({
+      error: { code: 'forbidden', message: 'The folder was shared, but these documents could not be: Roadmap' },
+    });
+    expect((await readFolder())?.usersAccesses[stranger.email]).toBe('viewer');
+    expect(getTestRoom('room-1')?.usersAccesses[stranger.email]).toBeUndefined();
+    expect(getUserType(getTestRoom('room-2')?.usersAccesses[stranger.email])).toBe('viewer');
+  });
+
+  it('skips the documents in the trash', async () => {
+    await writeFolder();
+    const roomId = createTestRoom('room-1', { folderId: 'folder-1', trashed: 'true' });
+    signInAs('editor');
+
+    expect(await shareFolder({ folderId: 'folder-1', email: stranger.email, userType: 'viewer' })).toBeUndefined();
+    expect(getTestRoom(roomId)?.usersAccesses[stranger.email]).toBeUndefined();
+  });
+
+  it.each([
+    ['unauthenticated', null],
+    ['forbidden', 'viewer'],
+    ['not_found', 'stranger'],
+  ] as const)('is denied as %s', async (code, user) => {
+    await writeFolder();
+    const roomId = createTestRoom('room-1', { folderId: 'folder-1' });
+    signInAs(user);
+
+    expect(await shareFolder({ folderId: 'folder-1', email: 'new@example.com', userType: 'editor' })).toEqual(toActionError(code));
+    expect((await readFolder())?.usersAccesses['new@example.com']).toBeUndefined();
+    expect(getTestRoom(roomId)?.usersAccesses['new@example.com']).toBeUndefined();
+  });
+});
@@ -0,0 +1,222 @@
+'use server';
+
+import { nanoid } from 'nanoid';
+import { revalidatePath } from 'next/cache';
+import { AuthorizationError, authorizeRoom, getAuthenticatedUser, getRoomRole, toActionError } from '../authorization';
+import { getEditableFolderRooms, readFolders, shareWithFolderMembers } from '../folders';
+import { liveblocks } from '../liveblocks';
+import { COLLECTIONS, readRecord, updateRecord, writeRecord } from '../store';
+import { getFolderTreeIds, hasRole, isActionError, parseStringify } from '../utils';
+import { updateDocumentAccess } from './room.actions';
+
+/**
+ * Reads a folder and checks that a user can edit it, i.e. rename, move or share it and file documents in it.
+ */
+const getEditableFolder = async (folderId: string, email: string) => {
+  const folder = await readRecord<Folder | null>(COLLECTIONS.folders, folderId, null);
+
+  if (!folder || !folder.usersAccesses[email]) {
+    throw new AuthorizationError('not_found', 'This folder does not exist');
+  }
+
+  if (folder.usersAccesses[email] !== 'editor') {
+    throw new AuthorizationError('forbidden', 'You need editor access to this folder to do this');
+  }
+
+  return folder;
+}
+
+/**
+ * Retrieves the folders the signed in user has access to, sorted by name.
+ *
+ * @returns {Promise<Folder[]>} A promise that resolves to the list of folders.
+ */
+export const getFolders = async () => {
+  try {
+    const { email } = await getAuthenticatedUser();
+    const folders = await readFolders();
+
+    return parseStringify(
+      folders
+        .filter(({ usersAccesses }) => usersAccesses[email])
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    );
+  } catch (error) {
+    console.log(`Error happened while getting folders: ${error}`);
+    return [];
+  }
+}
+
+/**
+ * Creates a folder, either at the top of the library or inside another folder.
+ * A nested folder is shared with the same people as its parent.
+ *
+ * @param {CreateFolderParams} params - The name of the folder and the ID of its parent.
+ * @returns {Promise<Folder | undefined>} A promise that resolves to the created folder.
+ */
+export const createFolder = async ({ name, parentId }: CreateFolderParams) => {
+  try {
+    const { email } = await getAuthenticatedUser();
+    const parent = parentId ? await getEditableFolder(parentId, email) : null;
+
+    const folder: Folder = {
+      id: nanoid(),
+      name: name.trim() || 'Untitled folder',
+      parentId,
+      createdBy: email,
+      createdAt: new Date().toISOString(),
+      usersAccesses: { ...parent?.usersAccesses, [email]: 'editor' },
+    };
+
+    await writeRecord(COLLECTIONS.folders, folder.id, folder);
+
+    revalidatePath('/');
+
+    return parseStringify(folder);
+  } catch (error) {
+    console.log(`Error happened while creating a folder: ${error}`);
+    return toActionError(error);
+  }
+}
+
+/**
+ * Renames a folder.
+ *
+ * @param {Object} params - An object with `folderId` and `name` properties.
+ * @param {string} params.folderId - The ID of the folder to rename.
+ * @param {string} params.name - The new name of the folder.
+ */
+export const renameFolder = async ({ folderId, name }: { folderId: string; name: string }) => {
+  try {
+    const { email } = await getAuthenticatedUser();
+    const folder = await getEditableFolder(folderId, email);
+
+    await updateRecord(COLLECTIONS.folders, folderId, folder, (current) => ({ ...current, name: name.trim() || current.name }));
+
+    revalidatePath('/');
+  } catch (error) {
+    console.log(`Error happened while renaming a folder: ${error}`);
+    return toActionError(error);
+  }
+}
+
+/**
+ * Moves a folder, with everything inside it, into another folder or to the top of the library.
+ * A folder cannot be moved into itself or into one of its own subfolders.
+ *
+ * @param {Object} params - An object with `folderId` and `parentId` properties.
+ * @param {string} params.folderId - The ID of the folder to move.
+ * @param {string | null} params.parentId - The ID of the destination folder, or null for the top of the library.
+ */
+export const moveFolder = async ({ folderId, parentId }: { folderId: string; parentId: string | null }) => {
+  try {
+    const { email } = await getAuthenticatedUser();
+    const folder = await getEditableFolder(folderId, email);
+
+    if (parentId) {
+      await getEditableFolder(parentId, email);
+
+      if (getFolderTreeIds(await readFolders(), folderId).includes(parentId)) {
+        throw new Error('A folder cannot be moved into itself');
+      }
+    }
+
+    await updateRecord(COLLECTIONS.folders, folderId, folder, (current) => ({ ...current, parentId }));
+
+    revalidatePath('/');
+  } catch (error) {
+    console.log(`Error happened while moving a folder: ${error}`);
+    return toActionError(error);
+  }
+}
+
+/**
+ * Moves a document into a folder, or back to the top of the library.
+ * The folder is stored in the `folderId` key of the room metadata, and the members of the
+ * destination folder are given access to the document.
+ *
+ * @param {Object} params - An object with `roomId` and `folderId` properties.
+ * @param {string} params.roomId - The ID of the room to move.
+ * @param {string | null} params.folderId - The ID of the destination folder, or null for the top of the library.
+ */
+export const moveDocument = async ({ roomId, folderId }: { roomId: string; folderId: string | null }) => {
+  try {
+    const { user } = await authorizeRoom(roomId, 'editor');
+    const folder = folderId ? await getEditableFolder(folderId, user.email) : null;
+
+    await liveblocks.updateRoom(roomId, { metadata: { folderId } });
+
+    if (folder) {
+      await shareWithFolderMembers(roomId, folder);
+    }
+
+    revalidatePath('/');
+  } catch (error) {
+    console.log(`Error happened while moving a document: ${error}`);
+    return toActionError(error);
+  }
+}
+
+/**
+ * Shares a folder with a user, along with every subfolder and document inside it.
+ * Access to the documents is granted through updateDocumentAccess, so the user is notified for each of them.
+ * Documents the user sharing the folder cannot edit are left untouched, and so are the documents where
+ * the user already has the role or a higher one, so that sharing a folder never downgrades anyone.
+ * Documents in the trash are skipped, since they cannot be shared.
+ *
+ * The folders are shared even if some of the documents cannot be, in which case an error naming those
+ * documents is returned.
+ *
+ * @param {ShareFolderParams} params - The folder ID, the email of the user to share with and their role.
+ * @returns {Promise<ActionError | undefined>} A promise that resolves to an error if the folder or some of its documents could not be shared.
+ */
+export const shareFolder = async ({ folderId, email, userType }: ShareFolderParams) => {
+  try {
+    const updatedBy = await getAuthenticatedUser();
+
+    await getEditableFolder(folderId, updatedBy.email);
+
+    if (userType === 'creator') {
+      throw new AuthorizationError('forbidden', 'Sharing a folder cannot make anyone the owner of its documents');
+    }
+
+    const folders = await readFolders();
+    const treeIds = getFolderTreeIds(folders, folderId);
+
+    // Give the user the same role on the folder and on every folder nested inside it.
+    await Promise.all(
+      folders
+        .filter(({ id }) => treeIds.includes(id))
+        .map((folder) => updateRecord(COLLECTIONS.folders, folder.id, folder, (current) => ({
+          ...current,
+          usersAccesses: { ...current.usersAccesses, [email]: userType },
+        }))),
+    );
+
+    // The titles of the documents updateDocumentAccess failed to share.
+    const failedTitles: string[] = [];
+
+    for (const treeId of treeIds) {
+      const rooms = await getEditableFolderRooms(treeId, updatedBy.email);
+
+      for (const room of rooms) {
+        const currentRole = getRoomRole(room, email);
+
+        if (room.metadata.trashed || (currentRole && hasRole(currentRole, userType))) continue;
+
+        const result = await updateDocumentAccess({ roomId: room.id, email, userType });
+
+        if (!result || isActionError(result)) failedTitles.push(String(room.metadata.title));
+      }
+    }
+
+    revalidatePath('/');
+
+    if (failedTitles.length > 0) {
+      throw new AuthorizationError('forbidden', `The folder was shared, but these documents could not be: ${failedTitles.join(', ')}`);
+    }
+  } catch (error) {
+    console.log(`Error happened while sharing a folder: ${error}`);
+    return toActionError(error);
+  }
+}
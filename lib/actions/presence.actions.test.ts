@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+
+import { createTestRoom, signInAs, TEST_USERS } from '@/test/fakes';
+import { describeGuardedRoomAction } from '@/test/guarded-action';
+import { COLLECTIONS, readRecord, writeRecord } from '../store';
+import { getLastSeen, recordLastSeen } from './presence.actions';
+
+const readLastSeen = (roomId: string) => readRecord<LastSeenRecord>(COLLECTIONS.lastSeen, roomId, {});
+
+describeGuardedRoomAction('recordLastSeen', {
+  requiredRole: 'viewer',
+  run: (roomId) => recordLastSeen({ roomId }),
+  expectAllowed: async (_result, roomId) => {
+    expect(await readLastSeen(roomId)).toEqual({ [TEST_USERS.viewer.id]: expect.any(String) });
+  },
+  expectUnchanged: async (roomId) => {
+    expect(await readLastSeen(roomId)).toEqual({});
+  },
+  deniedResult: () => undefined,
+});
+
+describe('recordLastSeen', () => {
+  it('keeps the dates of collaborators recorded at the same time', async () => {
+    const roomId = createTestRoom();
+
+    await Promise.all((['owner', 'editor', 'commenter', 'viewer'] as const).map(async (user) => {
+      signInAs(user);
+      await recordLastSeen({ roomId });
+    }));
+
+    expect(Object.keys(await readLastSeen(roomId))).toHaveLength(4);
+  });
+});
+
+describeGuardedRoomAction('getLastSeen', {
+  requiredRole: 'viewer',
+  setup: (roomId) => writeRecord<LastSeenRecord>(COLLECTIONS.lastSeen, roomId, { [TEST_USERS.editor.id]: '2026-10-19T10:00:00.000Z' }),
+  run: (roomId) => getLastSeen({ roomId }),
+  expectAllowed: (result) => {
+    expect(result).toEqual({ [TEST_USERS.editor.id]: '2026-10-19T10:00:00.000Z' });
+  },
+  deniedResult: () => undefined,
+});
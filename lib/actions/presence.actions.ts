@@ -0,0 +1,46 @@
+'use server';
+
+import { authorizeRoom } from '../authorization';
+import { COLLECTIONS, readRecord, updateRecord } from '../store';
+import { parseStringify } from '../utils';
+
+/**
+ * Records that the signed in user is in a room right now. The room calls it when the user joins,
+ * and then regularly while they stay, so the last call is when they were last seen.
+ * Only the date of the user is changed, so collaborators recorded at the same time do not overwrite each other.
+ *
+ * @param {Object} params - An object with a `roomId` property.
+ * @param {string} params.roomId - The ID of the room.
+ */
+export const recordLastSeen = async ({ roomId }: { roomId: string }) => {
+  try {
+    // Anyone with access to the room is seen in it, including viewers.
+    const { user } = await authorizeRoom(roomId, 'viewer');
+
+    await updateRecord<LastSeenRecord>(COLLECTIONS.lastSeen, roomId, {}, (lastSeen) => ({
+      ...lastSeen,
+      [user.id]: new Date().toISOString(),
+    }));
+  } catch (error) {
+    console.log(`Error happened while recording the last seen date: ${error}`);
+  }
+}
+
+/**
+ * Retrieves when each collaborator of a document was last in it, for the collaborator list of the ShareModal.
+ *
+ * @param {Object} params - An object with a `roomId` property.
+ * @param {string} params.roomId - The ID of the room.
+ * @returns {Promise<LastSeenRecord | undefined>} A promise that resolves to the last seen dates, keyed by user ID.
+ */
+export const getLastSeen = async ({ roomId }: { roomId: string }) => {
+  try {
+    await authorizeRoom(roomId, 'viewer');
+
+    const lastSeen = await readRecord<LastSeenRecord>(COLLECTIONS.lastSeen, roomId, {});
+
+    return parseStringify(lastSeen) as LastSeenRecord;
+  } catch (error) {
+    console.log(`Error happened while getting the last seen dates: ${error}`);
+  }
+}
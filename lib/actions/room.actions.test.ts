@@ -0,0 +1,270 @@
+import { describe, expect, it } from 'vitest';
+
+import { createTestRoom, getTestRoom, liveblocks, signInAs, TEST_CONTENT, TEST_USERS } from '@/test/fakes';
+import { describeGuardedRoomAction } from '@/test/guarded-action';
+import { readAuditLog } from '../audit';
+import { COLLECTIONS, readRecord, writeRecord } from '../store';
+import { getUserType, TRASH_RETENTION_DAYS } from '../utils';
+import {
+  createDocument,
+  deleteDocument,
+  deleteDocumentForever,
+  getDocument,
+  getDocuments,
+  getTrashedDocuments,
+  removeCollaborator,
+  restoreDocument,
+  takeInitialContent,
+  transferOwnership,
+  updateDocument,
+  updateDocumentAccess,
+} from './room.actions';
+
+const NEW_COLLABORATOR = 'new@example.com';
+
+// Flags a room of the fake project as trashed, as deleteDocument does.
+const trashRoom = (roomId: string, trashedAt = new Date()) => {
+  const room = getTestRoom(roomId);
+
+  if (room) room.metadata = { ...room.metadata, trashed: 'true', trashedAt: trashedAt.toISOString() };
+};
+
+const getRole = (roomId: string, email: string) => {
+  const accesses = getTestRoom(roomId)?.usersAccesses[email];
+
+  return accesses && getUserType(accesses);
+};
+
+describe('createDocument', () => {
+  it('creates a room owned by the signed in user', async () => {
+    signInAs('editor');
+
+    const room = await createDocument({ title: 'Roadmap' });
+
+    expect(room).toMatchObject({ metadata: { title: 'Roadmap', email: TEST_USERS.editor.email } });
+    expect(getRole(room.id, TEST_USERS.editor.email)).toBe('editor');
+    expect((await readAuditLog(room.id))[0]).toMatchObject({ action: 'document.created' });
+  });
+
+  it('stores and indexes the content of the document until it is opened', async () => {
+    signInAs('editor');
+
+    const room = await createDocument({ title: 'Roadmap', content: TEST_CONTENT });
+
+    expect(await readRecord(COLLECTIONS.initialContent, room.id, null)).toBe(TEST_CONTENT);
+    expect(await readRecord(COLLECTIONS.searchIndex, room.id, null)).toMatchObject({ text: 'Quarterly roadmap' });
+  });
+
+  it('creates no room when the content is not a serialized editor state', async () => {
+    signInAs('editor');
+
+    expect(await createDocument({ content: '{"not":"a document"' })).toBeUndefined();
+    expect(await createDocument({ content: '{"root":{"type":"paragraph"}}' })).toBeUndefined();
+    expect(liveblocks.createRoom).not.toHaveBeenCalled();
+  });
+
+  it('is denied as unauthenticated when nobody is signed in', async () => {
+    expect(await createDocument({ title: 'Roadmap' })).toEqual({ error: { code: 'unauthenticated', message: expect.any(String) } });
+    expect(liveblocks.createRoom).not.toHaveBeenCalled();
+  });
+
+  it('is forbidden in a folder the user can only view', async () => {
+    await writeRecord(COLLECTIONS.folders, 'folder-1', { id: 'folder-1', usersAccesses: { [TEST_USERS.viewer.email]: 'viewer' } });
+    signInAs('viewer');
+
+    expect(await createDocument({ folderId: 'folder-1' })).toEqual({ error: { code: 'forbidden', message: expect.any(String) } });
+    expect(liveblocks.createRoom).not.toHaveBeenCalled();
+  });
+
+  it('is denied as not_found in a folder the user has no access to', async () => {
+    await writeRecord(COLLECTIONS.folders, 'folder-1', { id: 'folder-1', usersAccesses: { [TEST_USERS.editor.email]: 'editor' } });
+    signInAs('stranger');
+
+    expect(await createDocument({ folderId: 'folder-1' })).toEqual({ error: { code: 'not_found', message: expect.any(String) } });
+    expect(await createDocument({ folderId: 'missing-folder' })).toEqual({ error: { code: 'not_found', message: expect.any(String) } });
+    expect(liveblocks.createRoom).not.toHaveBeenCalled();
+  });
+});
+
+describe('getDocuments', () => {
+  it('lists the rooms the signed in user has access to, except the trashed ones', async () => {
+    createTestRoom('room-1');
+    trashRoom(createTestRoom('room-2'));
+    signInAs('viewer');
+
+    const rooms = await getDocuments();
+
+    expect(rooms.data.map(({ id }: { id: string }) => id)).toEqual(['room-1']);
+  });
+
+  it('lists nothing to a user without access', async () => {
+    createTestRoom();
+    signInAs('stranger');
+
+    expect((await getDocuments()).data).toEqual([]);
+  });
+
+  it('returns null when nobody is signed in', async () => {
+    createTestRoom();
+
+    expect(await getDocuments()).toBeNull();
+  });
+});
+
+describe('getTrashedDocuments', () => {
+  it('lists the trashed rooms, leaving the expired ones to the scheduled purge', async () => {
+    createTestRoom('room-1');
+    trashRoom(createTestRoom('room-2'));
+    trashRoom(createTestRoom('room-3'), new Date(Date.now() - (TRASH_RETENTION_DAYS + 1) * 24 * 60 * 60 * 1000));
+    signInAs('viewer');
+
+    const rooms = await getTrashedDocuments();
+
+    expect(rooms.map(({ id }: { id: string }) => id)).toEqual(['room-2']);
+    expect(getTestRoom('room-3')).toBeDefined();
+    expect(liveblocks.deleteRoom).not.toHaveBeenCalled();
+  });
+
+  it('lists nothing to a user without access', async () => {
+    trashRoom(createTestRoom());
+    signInAs('stranger');
+
+    expect(await getTrashedDocuments()).toEqual([]);
+  });
+
+  it('returns null when nobody is signed in', async () => {
+    trashRoom(createTestRoom());
+
+    expect(await getTrashedDocuments()).toBeNull();
+  });
+});
+
+describeGuardedRoomAction('takeInitialContent', {
+  requiredRole: 'editor',
+  setup: (roomId) => writeRecord(COLLECTIONS.initialContent, roomId, TEST_CONTENT),
+  run: (roomId) => takeInitialContent({ roomId }),
+  expectAllowed: async (result, roomId) => {
+    expect(result).toBe(TEST_CONTENT);
+    expect(await readRecord(COLLECTIONS.initialContent, roomId, null)).toBeNull();
+  },
+  expectUnchanged: async (roomId) => {
+    expect(await readRecord(COLLECTIONS.initialContent, roomId, null)).toBe(TEST_CONTENT);
+  },
+  deniedResult: () => null,
+});
+
+describeGuardedRoomAction('getDocument', {
+  requiredRole: 'viewer',
+  run: (roomId) => getDocument({ roomId }),
+  expectAllowed: (result, roomId) => {
+    expect(result).toMatchObject({ id: roomId, metadata: { title: 'Project plan' } });
+  },
+  deniedResult: () => undefined,
+});
+
+describeGuardedRoomAction('updateDocument', {
+  requiredRole: 'editor',
+  run: (roomId) => updateDocument(roomId, 'New title'),
+  expectAllowed: async (result, roomId) => {
+    expect(result).toMatchObject({ metadata: { title: 'New title' } });
+    expect((await readAuditLog(roomId))[0]).toMatchObject({ action: 'document.renamed', details: { from: 'Project plan', to: 'New title' } });
+  },
+  expectUnchanged: (roomId) => {
+    expect(getTestRoom(roomId)?.metadata.title).not.toBe('New title');
+  },
+});
+
+describeGuardedRoomAction('updateDocumentAccess', {
+  requiredRole: 'editor',
+  run: (roomId) => updateDocumentAccess({ roomId, email: NEW_COLLABORATOR, userType: 'commenter' }),
+  expectAllowed: async (_result, roomId) => {
+    expect(getRole(roomId, NEW_COLLABORATOR)).toBe('commenter');
+    expect(liveblocks.triggerInboxNotification).toHaveBeenCalledWith(expect.objectContaining({ userId: NEW_COLLABORATOR }));
+    expect((await readAuditLog(roomId))[0]).toMatchObject({ action: 'access.updated', target: NEW_COLLABORATOR });
+  },
+  expectUnchanged: (roomId) => {
+    expect(getRole(roomId, NEW_COLLABORATOR)).toBeUndefined();
+    expect(liveblocks.triggerInboxNotification).not.toHaveBeenCalled();
+  },
+});
+
+describeGuardedRoomAction('removeCollaborator', {
+  requiredRole: 'editor',
+  run: (roomId) => removeCollaborator({ roomId, email: TEST_USERS.viewer.email }),
+  expectAllowed: async (_result, roomId) => {
+    expect(getRole(roomId, TEST_USERS.viewer.email)).toBeUndefined();
+    expect((await readAuditLog(roomId))[0]).toMatchObject({ action: 'access.removed', details: { from: 'viewer' } });
+  },
+  expectUnchanged: (roomId) => {
+    if (getTestRoom(roomId)) expect(getRole(roomId, TEST_USERS.viewer.email)).toBe('viewer');
+  },
+});
+
+describeGuardedRoomAction('transferOwnership', {
+  requiredRole: 'creator',
+  run: (roomId) => transferOwnership({ roomId, email: TEST_USERS.editor.email }),
+  expectAllowed: (result) => {
+    expect(result).toMatchObject({ metadata: { email: TEST_USERS.editor.email, creatorId: TEST_USERS.editor.id } });
+  },
+  expectUnchanged: (roomId) => {
+    if (getTestRoom(roomId)) expect(getTestRoom(roomId)?.metadata.email).toBe(TEST_USERS.owner.email);
+  },
+});
+
+describeGuardedRoomAction('deleteDocument', {
+  requiredRole: 'editor',
+  run: (roomId) => deleteDocument(roomId),
+  expectAllowed: async (_result, roomId) => {
+    expect(getTestRoom(roomId)?.metadata).toMatchObject({ trashed: 'true', trashedBy: TEST_USERS.editor.email });
+    expect((await readAuditLog(roomId))[0]).toMatchObject({ action: 'document.trashed' });
+  },
+  expectUnchanged: (roomId) => {
+    expect(getTestRoom(roomId)?.metadata.trashed).toBeUndefined();
+  },
+});
+
+describeGuardedRoomAction('restoreDocument', {
+  requiredRole: 'editor',
+  setup: (roomId) => trashRoom(roomId),
+  run: (roomId) => restoreDocument(roomId),
+  expectAllowed: async (_result, roomId) => {
+    expect(getTestRoom(roomId)?.metadata.trashed).toBeUndefined();
+    expect((await readAuditLog(roomId))[0]).toMatchObject({ action: 'document.restored' });
+  },
+  expectUnchanged: (roomId) => {
+    if (getTestRoom(roomId)) expect(getTestRoom(roomId)?.metadata.trashed).toBe('true');
+  },
+});
+
+describeGuardedRoomAction('deleteDocumentForever', {
+  requiredRole: 'editor',
+  setup: (roomId) => trashRoom(roomId),
+  run: (roomId) => deleteDocumentForever(roomId),
+  expectAllowed: async (_result, roomId) => {
+    expect(getTestRoom(roomId)).toBeUndefined();
+    // The audit log outlives the room.
+    expect((await readAuditLog(roomId))[0]).toMatchObject({ action: 'document.deleted', details: { from: 'Project plan' } });
+  },
+  expectUnchanged: () => {
+    expect(liveblocks.deleteRoom).not.toHaveBeenCalled();
+  },
+});
+
+describe('changing a document in the trash', () => {
+  it.each([
+    ['updateDocument', 'editor', (roomId: string) => updateDocument(roomId, 'New title')],
+    ['updateDocumentAccess', 'editor', (roomId: string) => updateDocumentAccess({ roomId, email: NEW_COLLABORATOR, userType: 'commenter' })],
+    ['removeCollaborator', 'editor', (roomId: string) => removeCollaborator({ roomId, email: TEST_USERS.viewer.email })],
+    ['transferOwnership', 'owner', (roomId: string) => transferOwnership({ roomId, email: TEST_USERS.editor.email })],
+  ] as const)('is denied as not_found for %s', async (_name, user, run) => {
+    const roomId = createTestRoom();
+    trashRoom(roomId);
+    const room = structuredClone(getTestRoom(roomId));
+    signInAs(user);
+
+    expect(await run(roomId)).toEqual({ error: { code: 'not_found', message: expect.any(String) } });
+    expect(getTestRoom(roomId)).toEqual(room);
+    expect(liveblocks.triggerInboxNotification).not.toHaveBeenCalled();
+    expect(await readAuditLog(roomId)).toEqual([]);
+  });
+});
@@ -1,39 +1,99 @@
 'use server';
 
+import { SerializedEditorState } from 'lexical';
 import { nanoid } from 'nanoid'
 import { liveblocks } from '../liveblocks';
 import { revalidatePath } from 'next/cache';
-import { getAccessType, parseStringify } from '../utils';
+import { getAccessType, getUserTypeDescription, parseStringify } from '../utils';
 import { redirect } from 'next/navigation';
+import { COLLECTIONS, deleteRecord, readRecord, writeRecord } from '../store';
+import { deleteRoomForever, isTrashExpired } from '../trash';
+import { getSearchText } from '../search';
+import { shareWithFolderMembers } from '../folders';
+import { recordAuditEvent } from '../audit';
+import { getClerkUsers } from './user.actions';
+import { assertRoomNotTrashed, AuthorizationError, authorizeRoom, getAuthenticatedUser, getRoomRole, toActionError } from '../authorization';
+
+/**
+ * Parses the serialized editor state a document is created with, and checks that it has a root node.
+ *
+ * @throws {Error} If the content is not a serialized editor state.
+ */
+const parseDocumentContent = (content: string) => {
+  let state: unknown;
+
+  try {
+    state = JSON.parse(content);
+  } catch {
+    throw new Error('The content of the document is not valid JSON');
+  }
+
+  const root = (state as Partial<SerializedEditorState> | null)?.root;
+
+  if(root?.type !== 'root' || !Array.isArray(root.children)) {
+    throw new Error('The content of the document is not a serialized editor state');
+  }
+
+  return state as SerializedEditorState;
+};
 
 /**
  This function creates a new collaborative document.
 
-It takes an object with `userId` and `email` properties as an argument.
+The document is created on behalf of the user signed in through Clerk.
 It generates a unique `roomId` using the `nanoid` library.
 It then creates a new room with the generated `roomId` using the `liveblocks.createRoom` method.
-The room is initialized with metadata that includes the `userId`, `email`, and a default title of "Untitled".
-The room also has a `usersAccesses` object that grants write access to the user associated with the provided `email`.
+The room is initialized with metadata that includes the ID and email of the user, and the provided title, or a default title of "Untitled".
+The room also has a `usersAccesses` object that grants write access to the user.
 Additionally, default accesses are set to an empty array.
 
+If a `folderId` is provided, the document is filed in that folder and shared with its members.
+
+If a serialized editor state is provided as `content`, it is validated before the room is created, so
+invalid content never leaves an empty room behind. It is then stored server-side until the first editor
+opens the room, at which point the editor seeds the room with it (see `takeInitialContent`).
+
+The creation is recorded in the audit log of the room.
+
 If the room is successfully created, it is returned as a parsed and stringified object.
 If an error occurs during the creation process, it is logged to the console.
 
-@param {Object} params - An object with `userId` and `email` properties.
-@param {string} params.userId - The ID of the user creating the document.
-@param {string} params.email - The email of the user creating the document.
+@param {Object} params - An object with optional `title`, `content` and `folderId` properties.
+@param {string} [params.title] - The title of the document, "Untitled" by default.
+@param {string} [params.content] - The serialized Lexical state to seed the document with.
+@param {string} [params.folderId] - The ID of the folder to create the document in.
 @return {Promise<Object>} A promise that resolves to the parsed and stringified room object.
 */
-export const createDocument = async ({ userId, email }: CreateDocumentParams) => {
+export const createDocument = async ({ title, content, folderId }: CreateDocumentParams = {}) => {
   // Generate a unique ID for the room
   const roomId = nanoid();
 
   try {
+    // Resolve the user creating the room
+    const user = await getAuthenticatedUser();
+    const { id: userId, email } = user;
+
+    // Validate the content before anything is created
+    const state = content ? parseDocumentContent(content) : null;
+
+    // Documents can only be created in folders the user can edit.
+    // Like rooms, folders the user has no access to are reported as missing.
+    const folder = folderId ? await readRecord<Folder | null>(COLLECTIONS.folders, folderId, null) : null;
+
+    if(folderId && !folder?.usersAccesses[email]) {
+      throw new AuthorizationError('not_found', 'This folder does not exist');
+    }
+
+    if(folder && folder.usersAccesses[email] !== 'editor') {
+      throw new AuthorizationError('forbidden', 'You do not have permission to add documents to this folder');
+    }
+
     // Create metadata for the room
     const metadata = {
       creatorId: userId, // The ID of the user creating the room
       email, // The email of the user creating the room
-      title: 'Untitled' // The default title for the room
+      title: title?.trim().slice(0, 256) || 'Untitled', // The title for the room, limited to the length Liveblocks accepts
+      ...(folder && { folderId: folder.id }), // The folder the room is filed in, if any
     }
 
     // Create an object that grants write access to the user with the provided email
@@ -44,9 +104,33 @@ export const createDocument = async ({ userId, email }: CreateDocumentParams) =>
     // Create a new room using the Liveblocks API
     const room = await liveblocks.createRoom(roomId, {
       metadata, // The metadata for the room
-      usersAccesses, // The access control for the room
+      usersAccesses: usersAccesses as Record<string, ['room:write']>, // The access control for the room
       defaultAccesses: [] // An array of default accesses for the room
     });
+
+    // Give the members of the folder access to the new room
+    if(folder) {
+      await shareWithFolderMembers(roomId, folder);
+    }
+
+    // Keep the initial content until the room is opened in an editor,
+    // and index it right away so the document can be found before it is opened
+    if(content && state) {
+      await writeRecord(COLLECTIONS.initialContent, roomId, content);
+      await writeRecord<SearchIndexEntry>(COLLECTIONS.searchIndex, roomId, {
+        roomId,
+        text: getSearchText(state),
+        updatedAt: new Date().toISOString(),
+      });
+    }
+
+    // Record the creation in the audit log of the room
+    await recordAuditEvent({
+      roomId,
+      action: 'document.created',
+      actor: { name: user.name, email },
+      details: { to: metadata.title },
+    });
     
     // Revalidate the root path of the application
     revalidatePath('/');
@@ -56,30 +140,51 @@ export const createDocument = async ({ userId, email }: CreateDocumentParams) =>
   } catch (error) {
     // Log any errors that occur during the creation process
     console.log(`Error happened while creating a room: ${error}`);
+    return toActionError(error);
   }
 }
 
 /**
- * Retrieves a room from Liveblocks based on the provided room ID and user ID.
- * If the user does not have access to the room, an error is thrown.
+ * Returns the content a room should be seeded with, and removes it so that it is applied only once.
+ * Only users with write access to the room can take the content, since they are the ones applying it.
  *
- * @param {Object} params - An object with `roomId` and `userId` properties.
+ * @param {Object} params - An object with a `roomId` property.
+ * @param {string} params.roomId - The ID of the room.
+ * @return {Promise<string | null>} A promise that resolves to the serialized editor state, or null if there is none.
+ */
+export const takeInitialContent = async ({ roomId }: { roomId: string }) => {
+  try {
+    await authorizeRoom(roomId, 'editor');
+
+    const content = await readRecord<string | null>(COLLECTIONS.initialContent, roomId, null);
+
+    if(content) {
+      await deleteRecord(COLLECTIONS.initialContent, roomId);
+    }
+
+    return content;
+  } catch (error) {
+    console.log(`Error happened while getting the initial content of a room: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Retrieves a room from Liveblocks based on the provided room ID, for the signed in user.
+ * If the user does not have access to the room, or if the room is in the trash, nothing is returned.
+ *
+ * @param {Object} params - An object with a `roomId` property.
  * @param {string} params.roomId - The ID of the room to retrieve.
- * @param {string} params.userId - The ID of the user requesting the room.
  * @return {Promise<Object>} A promise that resolves to the parsed and stringified room object.
- * @throws {Error} If the user does not have access to the room.
  */
-export const getDocument = async ({ roomId, userId }: { roomId: string; userId: string }) => {
+export const getDocument = async ({ roomId }: { roomId: string }) => {
   try {
-    // Retrieve the room from Liveblocks using the provided room ID
-    const room = await liveblocks.getRoom(roomId);
-
-    // Check if the user has access to the room
-    const hasAccess = Object.keys(room.usersAccesses).includes(userId);
+    // Retrieve the room, checking that the user has access to it
+    const { room } = await authorizeRoom(roomId, 'viewer');
 
-    // If the user does not have access, throw an error
-    if (!hasAccess) {
-      throw new Error('You do not have access to this document');
+    // Trashed documents can only be restored from the trash, not opened
+    if (room.metadata.trashed) {
+      throw new Error('This document is in the trash');
     }
 
     // If the user has access, return the parsed and stringified room object
@@ -91,7 +196,8 @@ export const getDocument = async ({ roomId, userId }: { roomId: string; userId:
 }
 
 /**
- * Updates the title of a document room in Liveblocks.
+ * Updates the title of a document room in Liveblocks. Only editors can rename a document.
+ * The old and new titles are recorded in the audit log of the room.
  *
  * @param {string} roomId - The ID of the room to update.
  * @param {string} title - The new title for the room.
@@ -100,6 +206,9 @@ export const getDocument = async ({ roomId, userId }: { roomId: string; userId:
  */
 export const updateDocument = async (roomId: string, title: string) => {
   try {
+    const { user, room } = await authorizeRoom(roomId, 'editor');
+    assertRoomNotTrashed(room);
+
     // Use the Liveblocks SDK to update the room with the provided ID.
     // The update includes the new title for the room.
     const updatedRoom = await liveblocks.updateRoom(roomId, {
@@ -108,6 +217,15 @@ export const updateDocument = async (roomId: string, title: string) => {
       }
     })
 
+    if(room.metadata.title !== title) {
+      await recordAuditEvent({
+        roomId,
+        action: 'document.renamed',
+        actor: { name: user.name, email: user.email },
+        details: { from: String(room.metadata.title), to: title },
+      });
+    }
+
     // Revalidate the page for the updated room, which will trigger a re-render of the page.
     revalidatePath(`/documents/${roomId}`);
 
@@ -115,28 +233,38 @@ export const updateDocument = async (roomId: string, title: string) => {
     // This is done to ensure that the object is returned as a stringified JSON object.
     return parseStringify(updatedRoom);
   } catch (error) {
-    // If there is an error updating the room, log the error and re-throw the error.
+    // If there is an error updating the room, log the error.
+    // Authorization failures are returned to the UI, any other error is re-thrown.
     console.log(`Error happened while updating a room: ${error}`);
+
+    const actionError = toActionError(error);
+    if(actionError) return actionError;
+
     throw error;
   }
 }
 
 /**
- * Retrieves all documents that a user has access to.
+ * Retrieves all documents that the signed in user has access to, except the ones in the trash.
  *
- * @param {string} email - The email address of the user to retrieve documents for.
  * @return {Promise<string | null>} A promise that resolves to the list of documents as a JSON string, or null if there is an error.
  * @throws {Error} If there is an error retrieving the list of documents.
  */
-export const getDocuments = async (email: string ) => {
+export const getDocuments = async () => {
   try {
+    const { email } = await getAuthenticatedUser();
+
     // Get the list of rooms that the user has access to.
     // The getRooms method of the Liveblocks client returns a promise that resolves to an array of room objects.
     const rooms = await liveblocks.getRooms({ userId: email });
 
     // Parse and stringify the list of rooms so that it can be returned as a JSON string.
     // This is done to ensure that the list of rooms is returned as a stringified JSON object.
-    return parseStringify(rooms);
+    // Trashed rooms are left out, they are listed by getTrashedDocuments instead.
+    return parseStringify({
+      ...rooms,
+      data: rooms.data.filter((room) => !room.metadata.trashed),
+    });
   } catch (error) {
     // Log any errors that occur during the retrieval process.
     console.log(`Error happened while getting rooms: ${error}`);
@@ -147,26 +275,44 @@ export const getDocuments = async (email: string ) => {
 }
 
 /**
- * Updates the access level of a user in a room.
+ * Updates the access level of a user in a room. Only editors can share a document,
+ * and the access of the owner cannot be changed. The notification is sent on behalf of the signed in user,
+ * and the previous and new roles are recorded in the audit log of the room.
  * 
- * @param {ShareDocumentParams} params - An object containing the room ID, email address, user type, and user who made the update.
+ * @param {ShareDocumentParams} params - An object containing the room ID, email address and user type.
  * @returns {Promise<string | null>} A promise that resolves to a stringified JSON representation of the updated room, or null if there's an error.
  * @throws {Error} If there's an error updating the room.
  */
-export const updateDocumentAccess = async ({ roomId, email, userType, updatedBy }: ShareDocumentParams) => {
+export const updateDocumentAccess = async ({ roomId, email, userType }: ShareDocumentParams) => {
   try {
+    const { user: updatedBy, room: currentRoom } = await authorizeRoom(roomId, 'editor');
+    assertRoomNotTrashed(currentRoom);
+
+    if(currentRoom.metadata.email === email || userType === 'creator') {
+      throw new AuthorizationError('forbidden', 'Only a transfer can change the owner of the document');
+    }
+
     // Create an object that maps the email address to the access type.
     const usersAccesses: RoomAccesses = {
       [email]: getAccessType(userType) as AccessType, // Get the access type based on the user type and convert it to the appropriate type.
     }
 
     // Update the room with the new access information.
+    // The Liveblocks SDK types do not list comments:write yet, so the accesses are cast.
     const room = await liveblocks.updateRoom(roomId, { 
-      usersAccesses // Pass in the usersAccesses object as the usersAccesses property.
+      usersAccesses: usersAccesses as Record<string, ['room:write']> // Pass in the usersAccesses object as the usersAccesses property.
     })
 
-    // If the room was updated successfully, trigger an inbox notification.
+    // If the room was updated successfully, record the change and trigger an inbox notification.
     if(room) {
+      await recordAuditEvent({
+        roomId,
+        action: 'access.updated',
+        actor: { name: updatedBy.name, email: updatedBy.email },
+        target: email,
+        details: { from: getRoomRole(currentRoom, email) ?? undefined, to: userType },
+      });
+
       const notificationId = nanoid();
 
       await liveblocks.triggerInboxNotification({
@@ -175,7 +321,7 @@ export const updateDocumentAccess = async ({ roomId, email, userType, updatedBy
         subjectId: notificationId, // Use a unique ID for the notification.
         activityData: {
           userType, // Include the user type in the notification data.
-          title: `You have been granted ${userType} access to the document by ${updatedBy.name}`, // Include a title in the notification data.
+          title: `You have been granted ${userType} access to the document by ${updatedBy.name}. You can now ${getUserTypeDescription(userType)} it.`, // Include a title in the notification data.
           updatedBy: updatedBy.name, // Include the name of the user who made the update in the notification data.
           avatar: updatedBy.avatar, // Include the avatar URL of the user who made the update in the notification data.
           email: updatedBy.email // Include the email address of the user who made the update in the notification data.
@@ -188,6 +334,7 @@ export const updateDocumentAccess = async ({ roomId, email, userType, updatedBy
     return parseStringify(room); // Return the updated room as a stringified JSON object.
   } catch (error) {
     console.log(`Error happened while updating a room access: ${error}`); // Log any errors that occur during the update process.
+    return toActionError(error);
   }
 }
 
@@ -198,24 +345,25 @@ export const updateDocumentAccess = async ({ roomId, email, userType, updatedBy
  * roomId is a string that identifies the room that the collaborator is associated with.
  * email is a string that identifies the email address of the collaborator to be removed.
  *
- * The function first retrieves the room associated with the roomId.
- * If the email address of the room's creator matches the email address of the collaborator to be removed,
- * a new Error is thrown with the message "You cannot remove yourself from the document".
+ * The function first checks that the signed in user can edit the room.
+ * If the email address of the room's owner matches the email address of the collaborator to be removed,
+ * an AuthorizationError is thrown with the message "You cannot remove the owner of the document".
  *
- * The function then updates the room by removing the collaborator from the list of usersAccesses.
+ * The function then updates the room by removing the collaborator from the list of usersAccesses,
+ * and records the role they had in the audit log of the room.
  * The updatedRoom object is returned as a stringified JSON object.
  *
- * If any errors occur during the process, they are logged to the console.
+ * If any errors occur during the process, they are logged to the console, and authorization failures are returned to the UI.
  */
 export const removeCollaborator = async ({ roomId, email }: {roomId: string, email: string}) => {
   try {
-    // Retrieve the room associated with the roomId.
-    const room = await liveblocks.getRoom(roomId)
+    // Retrieve the room associated with the roomId, checking that the user can edit it.
+    const { user, room } = await authorizeRoom(roomId, 'editor');
+    assertRoomNotTrashed(room);
 
-    // If the email address of the room's creator matches the email address of the collaborator to be removed,
-    // throw a new Error with the message "You cannot remove yourself from the document".
+    // The owner cannot be removed, the ownership has to be transferred first.
     if(room.metadata.email === email) {
-      throw new Error('You cannot remove yourself from the document');
+      throw new AuthorizationError('forbidden', 'You cannot remove the owner of the document');
     }
 
     // Update the room by removing the collaborator from the list of usersAccesses.
@@ -225,6 +373,15 @@ export const removeCollaborator = async ({ roomId, email }: {roomId: string, ema
       }
     })
 
+    // Record the removal in the audit log, with the role the collaborator had.
+    await recordAuditEvent({
+      roomId,
+      action: 'access.removed',
+      actor: { name: user.name, email: user.email },
+      target: email,
+      details: { from: getRoomRole(room, email) ?? undefined },
+    });
+
     // Revalidate the page for the updated room.
     revalidatePath(`/documents/${roomId}`);
 
@@ -233,26 +390,202 @@ export const removeCollaborator = async ({ roomId, email }: {roomId: string, ema
   } catch (error) {
     // If any errors occur during the process, log them to the console.
     console.log(`Error happened while removing a collaborator: ${error}`);
+    return toActionError(error);
+  }
+}
+
+/**
+ * Transfers the ownership of a document to another collaborator.
+ *
+ * Only the current owner, i.e. the user whose email is in the room metadata, can transfer the document.
+ * The `creatorId` and `email` of the metadata are handed to the new owner, who is given edit access
+ * if they did not have it yet. The previous owner stays on as an editor and can then be removed like
+ * any other collaborator. The new owner is notified, and the transfer is written to the audit log.
+ *
+ * @param {Object} params - An object with `roomId` and `email` properties.
+ * @param {string} params.roomId - The ID of the room to transfer.
+ * @param {string} params.email - The email of the collaborator who becomes the owner.
+ * @returns {Promise<Object | undefined>} A promise that resolves to the updated room.
+ */
+export const transferOwnership = async ({ roomId, email }: { roomId: string; email: string }) => {
+  try {
+    const { user: owner, room } = await authorizeRoom(roomId, 'creator');
+    assertRoomNotTrashed(room);
+
+    if(email === owner.email || !room.usersAccesses[email]) {
+      throw new AuthorizationError('forbidden', 'The document can only be transferred to another collaborator');
+    }
+
+    // The metadata keeps the Clerk ID of the owner, so the new owner must have a Clerk account.
+    const [newOwner] = await getClerkUsers({ userIds: [email] });
+
+    if(!newOwner) {
+      throw new Error('The new owner does not have an account');
+    }
+
+    const updatedRoom = await liveblocks.updateRoom(roomId, {
+      metadata: {
+        creatorId: newOwner.id,
+        email,
+      },
+      usersAccesses: {
+        [email]: ['room:write'],
+      },
+    });
+
+    await liveblocks.triggerInboxNotification({
+      userId: email,
+      kind: '$documentAccess',
+      subjectId: nanoid(),
+      activityData: {
+        userType: 'creator',
+        title: `${owner.name} transferred the ownership of the document "${room.metadata.title}" to you.`,
+        updatedBy: owner.name,
+        avatar: owner.avatar,
+        email: owner.email,
+      },
+      roomId,
+    });
+
+    await recordAuditEvent({
+      roomId,
+      action: 'ownership.transferred',
+      actor: { name: owner.name, email: owner.email },
+      target: email,
+      details: { from: owner.email, to: email },
+    });
+
+    revalidatePath(`/documents/${roomId}`);
+
+    return parseStringify(updatedRoom);
+  } catch (error) {
+    console.log(`Error happened while transferring the ownership of a room: ${error}`);
+    return toActionError(error);
+  }
+}
+
+/**
+ * Retrieves the documents in the trash that the signed in user has access to, most recently trashed first.
+ * Documents that have been in the trash for longer than the retention period are left out: the scheduled
+ * purge (/api/cron/purge-trash) deletes them, so reading the trash never deletes anything.
+ *
+ * @return {Promise<Object[] | null>} A promise that resolves to the list of trashed documents, or null if there is an error.
+ */
+export const getTrashedDocuments = async () => {
+  try {
+    const { email } = await getAuthenticatedUser();
+
+    const rooms = await liveblocks.getRooms({ userId: email, query: { metadata: { trashed: 'true' } } });
+
+    const trashedRooms = rooms.data
+      .filter((room) => !isTrashExpired(room.metadata as RoomMetadata))
+      .sort((a, b) => String(b.metadata.trashedAt).localeCompare(String(a.metadata.trashedAt)));
+
+    return parseStringify(trashedRooms);
+  } catch (error) {
+    console.log(`Error happened while getting trashed rooms: ${error}`);
+    return null;
   }
 }
 
 /**
- * Asynchronously deletes a document based on the specified roomId.
+ * Moves a document to the trash. The room is kept, and only flagged as trashed in its metadata,
+ * so it can be restored until it is purged after the retention period. Only editors can trash a document,
+ * and the deletion is recorded in the audit log of the room.
  * 
- * @param {string} roomId - The unique identifier of the room/document to be deleted.
+ * @param {string} roomId - The unique identifier of the room/document to be moved to the trash.
  */
 export const deleteDocument = async (roomId: string) => {
   try {
-    // Attempt to delete the room associated with the given roomId.
-    await liveblocks.deleteRoom(roomId);
+    const { user } = await authorizeRoom(roomId, 'editor');
+
+    // Flag the room as trashed, and remember when and by whom.
+    await liveblocks.updateRoom(roomId, {
+      metadata: {
+        trashed: 'true',
+        trashedAt: new Date().toISOString(),
+        trashedBy: user.email,
+      }
+    });
+
+    await recordAuditEvent({
+      roomId,
+      action: 'document.trashed',
+      actor: { name: user.name, email: user.email },
+    });
 
     // Revalidate the path to the root URL after the deletion.
     revalidatePath('/');
-
-    // Redirect to the root URL after the deletion is complete.
-    redirect('/');
   } catch (error) {
     // Log any errors that occur during the deletion process.
     console.log(`Error happened while deleting a room: ${error}`);
+    return toActionError(error);
+  }
+
+  // Redirect to the root URL after the deletion is complete.
+  // This must happen outside of the try block, since redirect works by throwing.
+  redirect('/');
+}
+
+/**
+ * Restores a document from the trash by removing the trash flags from its metadata. Only editors can restore a document,
+ * and the restoration is recorded in the audit log of the room.
+ *
+ * @param {string} roomId - The unique identifier of the room/document to restore.
+ */
+export const restoreDocument = async (roomId: string) => {
+  try {
+    const { user } = await authorizeRoom(roomId, 'editor');
+
+    const room = await liveblocks.updateRoom(roomId, {
+      metadata: {
+        trashed: null,
+        trashedAt: null,
+        trashedBy: null,
+      }
+    });
+
+    await recordAuditEvent({
+      roomId,
+      action: 'document.restored',
+      actor: { name: user.name, email: user.email },
+    });
+
+    revalidatePath('/');
+
+    return parseStringify(room);
+  } catch (error) {
+    console.log(`Error happened while restoring a room: ${error}`);
+    return toActionError(error);
+  }
+}
+
+/**
+ * Deletes a document forever. Only editors can do it, and only for documents that are already in the trash.
+ * The deletion is recorded in the audit log of the room, which is kept after the room is gone.
+ *
+ * @param {string} roomId - The unique identifier of the room/document to delete.
+ */
+export const deleteDocumentForever = async (roomId: string) => {
+  try {
+    const { user, room } = await authorizeRoom(roomId, 'editor');
+
+    if (!room.metadata.trashed) {
+      throw new Error('Only documents in the trash can be deleted forever');
+    }
+
+    await deleteRoomForever(roomId);
+
+    await recordAuditEvent({
+      roomId,
+      action: 'document.deleted',
+      actor: { name: user.name, email: user.email },
+      details: { from: String(room.metadata.title) },
+    });
+
+    revalidatePath('/');
+  } catch (error) {
+    console.log(`Error happened while deleting a room forever: ${error}`);
+    return toActionError(error);
   }
 }
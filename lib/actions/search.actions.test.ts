@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+
+import { createTestRoom, signInAs, TEST_CONTENT } from '@/test/fakes';
+import { describeGuardedRoomAction } from '@/test/guarded-action';
+import { COLLECTIONS, readRecord, writeRecord } from '../store';
+import { indexDocument, searchDocuments } from './search.actions';
+
+const readIndexEntry = (roomId: string) => readRecord<SearchIndexEntry | null>(COLLECTIONS.searchIndex, roomId, null);
+
+describeGuardedRoomAction('indexDocument', {
+  requiredRole: 'editor',
+  run: (roomId) => indexDocument({ roomId, content: TEST_CONTENT }),
+  expectAllowed: async (_result, roomId) => {
+    expect(await readIndexEntry(roomId)).toMatchObject({ roomId, text: 'Quarterly roadmap' });
+  },
+  expectUnchanged: async (roomId) => {
+    expect(await readIndexEntry(roomId)).toBeNull();
+  },
+  deniedResult: () => undefined,
+});
+
+describe('searchDocuments', () => {
+  const indexRoom = (roomId: string) => writeRecord<SearchIndexEntry>(COLLECTIONS.searchIndex, roomId, {
+    roomId,
+    text: 'Quarterly roadmap',
+    updatedAt: new Date().toISOString(),
+  });
+
+  it('finds the documents the signed in user has access to', async () => {
+    await indexRoom(createTestRoom());
+    signInAs('viewer');
+
+    expect(await searchDocuments({ query: 'roadmap' })).toEqual([expect.objectContaining({ roomId: 'room-1' })]);
+  });
+
+  it('leaves out the documents in the trash', async () => {
+    await indexRoom(createTestRoom('room-1', { trashed: 'true' }));
+    signInAs('viewer');
+
+    expect(await searchDocuments({ query: 'roadmap' })).toEqual([]);
+  });
+
+  it('finds nothing for a user without access', async () => {
+    await indexRoom(createTestRoom());
+    signInAs('stranger');
+
+    expect(await searchDocuments({ query: 'roadmap' })).toEqual([]);
+  });
+
+  it('finds nothing when nobody is signed in', async () => {
+    await indexRoom(createTestRoom());
+
+    expect(await searchDocuments({ query: 'roadmap' })).toEqual([]);
+  });
+});
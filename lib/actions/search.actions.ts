@@ -0,0 +1,92 @@
+'use server';
+
+import { authorizeRoom, getAuthenticatedUser } from '../authorization';
+import { liveblocks } from '../liveblocks';
+import { getSearchSnippets, getSearchTerms, getSearchText, highlightTitle, matchesSearch } from '../search';
+import { COLLECTIONS, readRecord, writeRecord } from '../store';
+import { parseStringify } from '../utils';
+
+// The maximum number of results returned for a query.
+const MAX_SEARCH_RESULTS = 50;
+
+/**
+ * Updates the search index entry of a document with its current content.
+ * Only users with edit access can index a document, since they are the ones changing it.
+ *
+ * @param {IndexDocumentParams} params - The room ID and the serialized editor state.
+ */
+export const indexDocument = async ({ roomId, content }: IndexDocumentParams) => {
+  try {
+    await authorizeRoom(roomId, 'editor');
+
+    const entry: SearchIndexEntry = {
+      roomId,
+      text: getSearchText(JSON.parse(content)),
+      updatedAt: new Date().toISOString(),
+    };
+
+    await writeRecord(COLLECTIONS.searchIndex, roomId, entry);
+  } catch (error) {
+    console.log(`Error happened while indexing a document: ${error}`);
+  }
+}
+
+/**
+ * Searches the titles and the content of every document the signed in user has access to.
+ *
+ * The rooms are listed through Liveblocks with the user's ID, so the results only ever
+ * include rooms whose `usersAccesses` contain the user. Documents in the trash are left out.
+ * Documents whose title matches come first, then the most recently updated ones.
+ *
+ * @param {Object} params - An object with a `query` property.
+ * @param {string} params.query - The query typed by the user. Every term must match.
+ * @returns {Promise<SearchResult[]>} A promise that resolves to the matching documents.
+ */
+export const searchDocuments = async ({ query }: { query: string }) => {
+  try {
+    const { email } = await getAuthenticatedUser();
+    const terms = getSearchTerms(query);
+
+    if (terms.length === 0) return [];
+
+    const results: (SearchResult & { titleMatch: boolean })[] = [];
+    let startingAfter: string | undefined;
+
+    do {
+      const { data, nextCursor } = await liveblocks.getRooms({ userId: email, limit: 100, startingAfter });
+
+      for (const room of data) {
+        if (room.metadata.trashed) continue;
+
+        const title = String(room.metadata.title ?? 'Untitled');
+        const entry = await readRecord<SearchIndexEntry | null>(COLLECTIONS.searchIndex, room.id, null);
+        const text = entry?.text ?? '';
+
+        if (!matchesSearch(title, text, terms)) continue;
+
+        const titleParts = highlightTitle(title, terms);
+
+        results.push({
+          roomId: room.id,
+          title,
+          titleParts,
+          snippets: getSearchSnippets(text, terms),
+          updatedAt: entry?.updatedAt ?? (room.lastConnectionAt ?? room.createdAt).toISOString(),
+          titleMatch: titleParts.some(({ match }) => match),
+        });
+      }
+
+      startingAfter = nextCursor ?? undefined;
+    } while (startingAfter);
+
+    const sortedResults = results
+      .sort((a, b) => Number(b.titleMatch) - Number(a.titleMatch) || b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, MAX_SEARCH_RESULTS)
+      .map(({ titleMatch: _titleMatch, ...result }) => result);
+
+    return parseStringify(sortedResults);
+  } catch (error) {
+    console.log(`Error happened while searching documents: ${error}`);
+    return [];
+  }
+}
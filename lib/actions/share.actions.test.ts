@@ -0,0 +1,229 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createTestRoom, getTestRoom, signInAs, TEST_USERS } from '@/test/fakes';
+import { describeGuardedRoomAction } from '@/test/guarded-action';
+import { hashShareLinkPassword } from '../share-links';
+import { COLLECTIONS, readRecord, writeRecord } from '../store';
+import { getUserType } from '../utils';
+import { getShareLink, joinWithShareLink, revokeShareLink, saveShareLink } from './share.actions';
+
+const TOKEN = 'a'.repeat(32);
+
+const writeShareLink = (roomId: string, password?: string) => writeRecord<ShareLink>(COLLECTIONS.shareLinks, roomId, {
+  token: TOKEN,
+  roomId,
+  userType: 'commenter',
+  expiresAt: null,
+  passwordHash: password ? hashShareLinkPassword(password) : null,
+  createdBy: TEST_USERS.owner.email,
+  createdAt: new Date().toISOString(),
+});
+
+const readShareLink = (roomId: string) => readRecord<ShareLink | null>(COLLECTIONS.shareLinks, roomId, null);
+
+describeGuardedRoomAction('getShareLink', {
+  requiredRole: 'editor',
+  setup: (roomId) => writeShareLink(roomId, 'secret'),
+  run: (roomId) => getShareLink({ roomId }),
+  expectAllowed: (result) => {
+    expect(result).toMatchObject({ token: TOKEN, hasPassword: true });
+    expect(result).not.toHaveProperty('passwordHash');
+  },
+  deniedResult: () => null,
+});
+
+describeGuardedRoomAction('saveShareLink', {
+  requiredRole: 'editor',
+  run: (roomId) => saveShareLink({ roomId, userType: 'viewer', expiresAt: null, password: 'secret' }),
+  expectAllowed: async (result, roomId) => {
+    expect(result).toMatchObject({ roomId, userType: 'viewer', hasPassword: true });
+    expect(await readShareLink(roomId)).toMatchObject({ createdBy: TEST_USERS.editor.email });
+  },
+  expectUnchanged: async (roomId) => {
+    expect(await readShareLink(roomId)).toBeNull();
+  },
+});
+
+describe('saveShareLink', () => {
+  it('keeps the URL of an existing link', async () => {
+    const roomId = createTestRoom();
+    await writeShareLink(roomId);
+    signInAs('editor');
+
+    expect(await saveShareLink({ roomId, userType: 'viewer', expiresAt: null })).toMatchObject({ token: TOKEN, userType: 'viewer' });
+  });
+
+  it('never makes visitors owners of the document', async () => {
+    const roomId = createTestRoom();
+    signInAs('owner');
+
+    expect(await saveShareLink({ roomId, userType: 'creator', expiresAt: null })).toEqual({ error: { code: 'forbidden', message: expect.any(String) } });
+  });
+
+  it('is denied as not_found for a document in the trash', async () => {
+    const roomId = createTestRoom('room-1', { trashed: 'true' });
+    signInAs('editor');
+
+    expect(await saveShareLink({ roomId, userType: 'viewer', expiresAt: null })).toEqual({ error: { code: 'not_found', message: expect.any(String) } });
+    expect(await readShareLink(roomId)).toBeNull();
+  });
+});
+
+describeGuardedRoomAction('revokeShareLink', {
+  requiredRole: 'editor',
+  setup: (roomId) => writeShareLink(roomId),
+  run: (roomId) => revokeShareLink({ roomId }),
+  expectAllowed: async (result, roomId) => {
+    expect(result).toBeUndefined();
+    expect(await readShareLink(roomId)).toBeNull();
+  },
+  expectUnchanged: async (roomId) => {
+    expect(await readShareLink(roomId)).not.toBeNull();
+  },
+});
+
+describe('joinWithShareLink', () => {
+  it('adds the signed in user to the collaborators with the role of the link', async () => {
+    const roomId = createTestRoom();
+    await writeShareLink(roomId, 'secret');
+    signInAs('stranger');
+
+    expect(await joinWithShareLink({ roomId, token: TOKEN, password: 'secret' })).toEqual({});
+    expect(getUserType(getTestRoom(roomId)?.usersAccesses[TEST_USERS.stranger.email])).toBe('commenter');
+  });
+
+  it('is denied when nobody is signed in', async () => {
+    const roomId = createTestRoom();
+    await writeShareLink(roomId, 'secret');
+
+    expect(await joinWithShareLink({ roomId, token: TOKEN, password: 'secret' })).toEqual({ error: 'You must be signed in' });
+    expect(getTestRoom(roomId)?.usersAccesses[TEST_USERS.stranger.email]).toBeUndefined();
+  });
+
+  it('is denied with a wrong token, as if the link did not exist', async () => {
+    const roomId = createTestRoom();
+    await writeShareLink(roomId, 'secret');
+    signInAs('stranger');
+
+    expect(await joinWithShareLink({ roomId, token: 'b'.repeat(32), password: 'secret' })).toEqual({ error: 'This link is no longer valid' });
+    expect(await joinWithShareLink({ roomId: 'missing-room', token: TOKEN, password: 'secret' })).toEqual({ error: 'This link is no longer valid' });
+  });
+
+  it('is denied with a wrong password', async () => {
+    const roomId = createTestRoom();
+    await writeShareLink(roomId, 'secret');
+    signInAs('stranger');
+
+    expect(await joinWithShareLink({ roomId, token: TOKEN, password: 'guess' })).toEqual({ error: 'The password is incorrect' });
+    expect(getTestRoom(roomId)?.usersAccesses[TEST_USERS.stranger.email]).toBeUndefined();
+  });
+
+  it('locks the link after too many wrong passwords, even for the right one', async () => {
+    const roomId = createTestRoom();
+    await writeShareLink(roomId, 'secret');
+    signInAs('stranger');
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await joinWithShareLink({ roomId, token: TOKEN, password: `guess-${attempt}` });
+    }
+
+    expect(await joinWithShareLink({ roomId, token: TOKEN, password: 'secret' })).toEqual({ error: expect.stringContaining('Too many incorrect passwords') });
+    expect(getTestRoom(roomId)?.usersAccesses[TEST_USERS.stranger.email]).toBeUndefined();
+  });
+
+  it('unlocks the link when an editor sets a new password', async () => {
+    const roomId = createTestRoom();
+    await writeShareLink(roomId, 'secret');
+    signInAs('stranger');
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await joinWithShareLink({ roomId, token: TOKEN, password: `guess-${attempt}` });
+    }
+
+    signInAs('editor');
+    await saveShareLink({ roomId, userType: 'commenter', expiresAt: null, password: 'new secret' });
+    signInAs('stranger');
+
+    expect(await joinWithShareLink({ roomId, token: TOKEN, password: 'new secret' })).toEqual({});
+  });
+});
+
+describe('the lockout of a share link', () => {
+  const MINUTE_MS = 60 * 1000;
+  const START = new Date('2026-10-19T09:00:00.000Z');
+
+  const join = (password: string) => joinWithShareLink({ roomId: 'room-1', token: TOKEN, password });
+
+  const guessWrong = async (times: number) => {
+    for (let attempt = 0; attempt < times; attempt++) {
+      await join(`guess-${attempt}`);
+    }
+  };
+
+  // Moves the clock to the given number of minutes after the first attempt.
+  const minutesLater = (minutes: number) => vi.setSystemTime(START.getTime() + minutes * MINUTE_MS);
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(START);
+    createTestRoom();
+    await writeShareLink('room-1', 'secret');
+    signInAs('stranger');
+  });
+
+  it('lets the right password in after 4 wrong ones', async () => {
+    await guessWrong(4);
+
+    expect(await join('secret')).toEqual({});
+  });
+
+  it('lasts 15 minutes after the 5th wrong password, and tells how long is left', async () => {
+    await guessWrong(5);
+
+    expect(await join('secret')).toEqual({ error: 'Too many incorrect passwords, please try again in 15 minutes' });
+
+    minutesLater(14);
+    expect(await join('secret')).toEqual({ error: 'Too many incorrect passwords, please try again in 1 minute' });
+
+    minutesLater(15);
+    expect(await join('secret')).toEqual({});
+  });
+
+  it('does not count the attempts made during the lockout', async () => {
+    await guessWrong(5);
+    minutesLater(5);
+    await guessWrong(10);
+
+    minutesLater(15);
+    expect(await join('secret')).toEqual({});
+  });
+
+  it('gives 5 new attempts once it is over', async () => {
+    await guessWrong(5);
+    minutesLater(15);
+    await guessWrong(4);
+
+    expect(await join('secret')).toEqual({});
+  });
+
+  it('starts again from the wrong passwords typed after it', async () => {
+    await guessWrong(5);
+    minutesLater(15);
+    await guessWrong(5);
+
+    minutesLater(29);
+    expect(await join('secret')).toEqual({ error: expect.stringContaining('Too many incorrect passwords') });
+
+    minutesLater(30);
+    expect(await join('secret')).toEqual({});
+  });
+
+  it('forgets the wrong passwords once the right one is typed', async () => {
+    await guessWrong(4);
+    await join('secret');
+    await guessWrong(4);
+
+    signInAs('viewer');
+    expect(await join('secret')).toEqual({});
+  });
+});
@@ -0,0 +1,155 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { assertRoomNotTrashed, AuthorizationError, authorizeRoom, getAuthenticatedUser, toActionError } from '../authorization';
+import {
+  generateShareLinkToken,
+  getShareLinkLockout,
+  getValidShareLink,
+  grantShareLinkAccess,
+  hashShareLinkPassword,
+  recordFailedShareLinkAttempt,
+  resetShareLinkAttempts,
+  verifyShareLinkPassword,
+} from '../share-links';
+import { COLLECTIONS, deleteRecord, readRecord, updateRecord } from '../store';
+import { parseStringify } from '../utils';
+
+/**
+ * Removes the password hash from a share link before it is sent to the browser.
+ */
+const toShareLinkSettings = ({ passwordHash, ...link }: ShareLink): ShareLinkSettings => ({
+  ...link,
+  hasPassword: Boolean(passwordHash),
+});
+
+/**
+ * Retrieves the "Anyone with the link" settings of a document. Only editors can manage the link.
+ *
+ * @param {Object} params - An object with a `roomId` property.
+ * @param {string} params.roomId - The ID of the room.
+ * @returns {Promise<ShareLinkSettings | null>} A promise that resolves to the settings, or null if link sharing is off.
+ */
+export const getShareLink = async ({ roomId }: { roomId: string }) => {
+  try {
+    await authorizeRoom(roomId, 'editor');
+
+    const link = await readRecord<ShareLink | null>(COLLECTIONS.shareLinks, roomId, null);
+
+    return link ? parseStringify(toShareLinkSettings(link)) : null;
+  } catch (error) {
+    console.log(`Error happened while getting a share link: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Turns on link sharing for a document, or updates the settings of the existing link.
+ * Documents in the trash cannot be shared. The URL of an existing link does not change, so it keeps working with its new settings.
+ *
+ * Visitors are added to the collaborators with the role of the link when they first open it.
+ * Changing the role later does not change the role of the people who already joined.
+ *
+ * @param {SaveShareLinkParams} params - The room ID, the role and expiry date of the link and an optional password.
+ * A password of `undefined` keeps the current password, and an empty string removes it.
+ * @returns {Promise<ShareLinkSettings | undefined>} A promise that resolves to the saved settings.
+ */
+export const saveShareLink = async ({ roomId, userType, expiresAt, password }: SaveShareLinkParams) => {
+  try {
+    const { user, room } = await authorizeRoom(roomId, 'editor');
+    assertRoomNotTrashed(room);
+
+    if (userType === 'creator') {
+      throw new AuthorizationError('forbidden', 'A share link cannot make visitors owners of the document');
+    }
+
+    const link = await updateRecord<ShareLink | null>(COLLECTIONS.shareLinks, roomId, null, (existingLink): ShareLink => ({
+      token: existingLink?.token ?? generateShareLinkToken(),
+      roomId,
+      userType,
+      expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+      passwordHash: password === undefined
+        ? existingLink?.passwordHash ?? null
+        : password ? hashShareLinkPassword(password) : null,
+      createdBy: existingLink?.createdBy ?? user.email,
+      createdAt: existingLink?.createdAt ?? new Date().toISOString(),
+    }));
+
+    // A new password starts with a clean slate of attempts.
+    if (password !== undefined) await resetShareLinkAttempts(roomId);
+
+    revalidatePath(`/documents/${roomId}`);
+
+    return parseStringify(toShareLinkSettings(link as ShareLink));
+  } catch (error) {
+    console.log(`Error happened while saving a share link: ${error}`);
+    return toActionError(error);
+  }
+}
+
+/**
+ * Turns off link sharing for a document. The link stops working right away, but the people
+ * who already joined through it stay collaborators until they are removed.
+ *
+ * @param {Object} params - An object with a `roomId` property.
+ * @param {string} params.roomId - The ID of the room.
+ */
+export const revokeShareLink = async ({ roomId }: { roomId: string }) => {
+  try {
+    await authorizeRoom(roomId, 'editor');
+
+    await deleteRecord(COLLECTIONS.shareLinks, roomId);
+    await resetShareLinkAttempts(roomId);
+
+    revalidatePath(`/documents/${roomId}`);
+  } catch (error) {
+    console.log(`Error happened while revoking a share link: ${error}`);
+    return toActionError(error);
+  }
+}
+
+/**
+ * Joins a document through a password protected share link. The visitor is the signed in Clerk user.
+ * After too many incorrect passwords, the link is locked for a while, see recordFailedShareLinkAttempt.
+ *
+ * @param {Object} params - An object with `roomId`, `token` and `password` properties.
+ * @param {string} params.roomId - The ID of the room.
+ * @param {string} params.token - The token from the URL of the link.
+ * @param {string} params.password - The password typed by the visitor.
+ * @returns {Promise<{ error?: string }>} A promise that resolves to an error message if the visitor could not join.
+ */
+export const joinWithShareLink = async ({ roomId, token, password }: { roomId: string; token: string; password: string }) => {
+  try {
+    const user = await getAuthenticatedUser();
+    const link = await getValidShareLink(roomId, token);
+
+    if (!link) return { error: 'This link is no longer valid' };
+
+    if (link.passwordHash) {
+      const lockedUntil = await getShareLinkLockout(roomId);
+
+      if (lockedUntil) {
+        const minutes = Math.ceil((lockedUntil.getTime() - Date.now()) / 60_000);
+
+        return { error: `Too many incorrect passwords, please try again in ${minutes} minute${minutes === 1 ? '' : 's'}` };
+      }
+
+      if (!verifyShareLinkPassword(password, link.passwordHash)) {
+        await recordFailedShareLinkAttempt(roomId);
+
+        return { error: 'The password is incorrect' };
+      }
+
+      await resetShareLinkAttempts(roomId);
+    }
+
+    await grantShareLinkAccess(link, user.email);
+
+    revalidatePath(`/documents/${roomId}`);
+
+    return {};
+  } catch (error) {
+    console.log(`Error happened while joining with a share link: ${error}`);
+    return { error: toActionError(error)?.error.message ?? 'Something went wrong, please try again' };
+  }
+}
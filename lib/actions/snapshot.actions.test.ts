@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { createTestRoom, signInAs, TEST_CONTENT, TEST_USERS } from '@/test/fakes';
+import { describeGuardedRoomAction } from '@/test/guarded-action';
+import { COLLECTIONS, readRecord, writeRecord } from '../store';
+import { createSnapshot, getSnapshot, getSnapshots } from './snapshot.actions';
+
+const createSnapshotRecord = (roomId: string, id: string, kind: DocumentSnapshot['kind']): DocumentSnapshot => ({
+  id,
+  roomId,
+  name: kind === 'manual' ? 'Before the review' : undefined,
+  kind,
+  author: { id: TEST_USERS.editor.id, name: 'Eddie Editor', email: TEST_USERS.editor.email, avatar: '' },
+  createdAt: new Date().toISOString(),
+  content: TEST_CONTENT,
+});
+
+const writeSnapshot = (roomId: string) =>
+  writeRecord<DocumentSnapshot[]>(COLLECTIONS.snapshots, roomId, [createSnapshotRecord(roomId, 'snapshot-1', 'manual')]);
+
+const readSnapshots = (roomId: string) => readRecord<DocumentSnapshot[]>(COLLECTIONS.snapshots, roomId, []);
+
+describeGuardedRoomAction('createSnapshot', {
+  requiredRole: 'editor',
+  run: (roomId) => createSnapshot({ roomId, content: TEST_CONTENT, kind: 'manual', name: 'Draft' }),
+  expectAllowed: async (result, roomId) => {
+    expect(result).toMatchObject({ name: 'Draft', author: { email: TEST_USERS.editor.email } });
+    expect(result).not.toHaveProperty('content');
+    expect(await readSnapshots(roomId)).toHaveLength(1);
+  },
+  expectUnchanged: async (roomId) => {
+    expect(await readSnapshots(roomId)).toEqual([]);
+  },
+});
+
+describeGuardedRoomAction('getSnapshots', {
+  requiredRole: 'viewer',
+  setup: writeSnapshot,
+  run: (roomId) => getSnapshots({ roomId }),
+  expectAllowed: (result) => {
+    expect(result).toEqual([expect.objectContaining({ id: 'snapshot-1' })]);
+    expect((result as DocumentSnapshotSummary[])[0]).not.toHaveProperty('content');
+  },
+  deniedResult: () => undefined,
+});
+
+describeGuardedRoomAction('getSnapshot', {
+  requiredRole: 'viewer',
+  setup: writeSnapshot,
+  run: (roomId) => getSnapshot({ roomId, snapshotId: 'snapshot-1' }),
+  expectAllowed: (result) => {
+    expect(result).toMatchObject({ id: 'snapshot-1', content: TEST_CONTENT });
+  },
+  deniedResult: () => undefined,
+});
+
+describe('the automatic snapshots of a room', () => {
+  const MAX_AUTO_SNAPSHOTS = 50;
+
+  // Fills the history of the room with the maximum of automatic snapshots, newest first, with a manual one in the middle.
+  const fillSnapshots = (roomId: string) => writeRecord<DocumentSnapshot[]>(COLLECTIONS.snapshots, roomId, [
+    ...Array.from({ length: MAX_AUTO_SNAPSHOTS / 2 }, (_, index) => createSnapshotRecord(roomId, `auto-${index}`, 'auto')),
+    createSnapshotRecord(roomId, 'manual', 'manual'),
+    ...Array.from({ length: MAX_AUTO_SNAPSHOTS / 2 }, (_, index) => createSnapshotRecord(roomId, `auto-${index + MAX_AUTO_SNAPSHOTS / 2}`, 'auto')),
+  ]);
+
+  beforeEach(() => {
+    createTestRoom();
+    signInAs('editor');
+  });
+
+  it(`keeps the ${MAX_AUTO_SNAPSHOTS} most recent ones, and the manual ones`, async () => {
+    await fillSnapshots('room-1');
+
+    const snapshot = await createSnapshot({ roomId: 'room-1', content: TEST_CONTENT, kind: 'auto' }) as DocumentSnapshotSummary;
+    const ids = (await readSnapshots('room-1')).map(({ id }) => id);
+
+    expect(ids).toHaveLength(MAX_AUTO_SNAPSHOTS + 1);
+    expect(ids[0]).toBe(snapshot.id);
+    expect(ids).toContain('manual');
+    expect(ids).not.toContain(`auto-${MAX_AUTO_SNAPSHOTS - 1}`);
+  });
+
+  it('are not pruned by manual snapshots', async () => {
+    await fillSnapshots('room-1');
+
+    await createSnapshot({ roomId: 'room-1', content: TEST_CONTENT, kind: 'manual', name: 'Final' });
+
+    expect(await readSnapshots('room-1')).toHaveLength(MAX_AUTO_SNAPSHOTS + 2);
+  });
+});
@@ -0,0 +1,103 @@
+'use server';
+
+import { nanoid } from 'nanoid';
+import { authorizeRoom, toActionError } from '../authorization';
+import { COLLECTIONS, readRecord, updateRecord } from '../store';
+import { parseStringify } from '../utils';
+
+// The number of automatic snapshots kept per room. Manual and restore snapshots are never pruned.
+const MAX_AUTO_SNAPSHOTS = 50;
+
+/**
+ * Creates a snapshot of the Lexical state of a document.
+ *
+ * The author is the signed in user, who must have edit access to the room, since only editors can change the content.
+ * Automatic snapshots are pruned so that only the most recent ones are kept.
+ *
+ * @param {CreateSnapshotParams} params - The room ID, the serialized editor state, the kind of snapshot and an optional name.
+ * @returns {Promise<DocumentSnapshotSummary | undefined>} A promise that resolves to the created snapshot, without its content.
+ */
+export const createSnapshot = async ({ roomId, content, kind, name }: CreateSnapshotParams) => {
+  try {
+    // Only users with edit access can take snapshots of the document.
+    const { user: author } = await authorizeRoom(roomId, 'editor');
+
+    const snapshot: DocumentSnapshot = {
+      id: nanoid(),
+      roomId,
+      name: name?.trim() || undefined,
+      kind,
+      author: {
+        id: author.id,
+        name: author.name,
+        email: author.email,
+        avatar: author.avatar,
+      },
+      createdAt: new Date().toISOString(),
+      content,
+    };
+
+    // Drop the oldest automatic snapshots once the limit is reached.
+    await updateRecord<DocumentSnapshot[]>(COLLECTIONS.snapshots, roomId, [], (snapshots) => {
+      let autoSnapshots = 0;
+
+      return [snapshot, ...snapshots].filter((item) => {
+        if (item.kind !== 'auto') return true;
+
+        autoSnapshots += 1;
+        return autoSnapshots <= MAX_AUTO_SNAPSHOTS;
+      });
+    });
+
+    const { content: _content, ...summary } = snapshot;
+
+    return parseStringify(summary);
+  } catch (error) {
+    console.log(`Error happened while creating a snapshot: ${error}`);
+    return toActionError(error);
+  }
+}
+
+/**
+ * Retrieves the snapshots of a document, newest first, without their content.
+ *
+ * @param {Object} params - An object with a `roomId` property.
+ * @param {string} params.roomId - The ID of the room to list the snapshots of.
+ * @returns {Promise<DocumentSnapshotSummary[] | undefined>} A promise that resolves to the list of snapshots.
+ */
+export const getSnapshots = async ({ roomId }: { roomId: string }) => {
+  try {
+    await authorizeRoom(roomId, 'viewer');
+
+    const snapshots = await readRecord<DocumentSnapshot[]>(COLLECTIONS.snapshots, roomId, []);
+
+    return parseStringify(snapshots.map(({ content: _content, ...summary }) => summary));
+  } catch (error) {
+    console.log(`Error happened while getting snapshots: ${error}`);
+  }
+}
+
+/**
+ * Retrieves a single snapshot of a document, including its serialized Lexical state.
+ *
+ * @param {Object} params - An object with `roomId` and `snapshotId` properties.
+ * @param {string} params.roomId - The ID of the room the snapshot belongs to.
+ * @param {string} params.snapshotId - The ID of the snapshot to retrieve.
+ * @returns {Promise<DocumentSnapshot | undefined>} A promise that resolves to the snapshot.
+ */
+export const getSnapshot = async ({ roomId, snapshotId }: { roomId: string; snapshotId: string }) => {
+  try {
+    await authorizeRoom(roomId, 'viewer');
+
+    const snapshots = await readRecord<DocumentSnapshot[]>(COLLECTIONS.snapshots, roomId, []);
+    const snapshot = snapshots.find(({ id }) => id === snapshotId);
+
+    if (!snapshot) {
+      throw new Error('This version does not exist');
+    }
+
+    return parseStringify(snapshot);
+  } catch (error) {
+    console.log(`Error happened while getting a snapshot: ${error}`);
+  }
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { getTestRoom, liveblocks, signInAs, TEST_CONTENT, TEST_USERS } from '@/test/fakes';
+import { describeGuardedRoomAction } from '@/test/guarded-action';
+import { COLLECTIONS, readRecord, writeRecord } from '../store';
+import { createDocumentFromTemplate, deleteTemplate, getTemplates, saveTemplate } from './template.actions';
+
+const toActionError = (code: AuthorizationErrorCode) => ({ error: { code, message: expect.any(String) } });
+
+// The team templates are stored as a single list, see template.actions.ts.
+const readTeamTemplates = () => readRecord<TeamTemplate[]>(COLLECTIONS.templates, 'team', []);
+
+const writeTeamTemplate = () => writeRecord<TeamTemplate[]>(COLLECTIONS.templates, 'team', [{
+  id: 'template-1',
+  name: 'Retrospective',
+  description: '',
+  title: 'Retrospective – {date}',
+  builtIn: false,
+  createdBy: { name: 'Eddie Editor', email: TEST_USERS.editor.email },
+  createdAt: new Date().toISOString(),
+  content: TEST_CONTENT,
+}]);
+
+describe('getTemplates', () => {
+  it('lists the built-in and team templates, without their content', async () => {
+    await writeTeamTemplate();
+    signInAs('viewer');
+
+    const templates = await getTemplates();
+
+    expect(templates).toContainEqual(expect.objectContaining({ id: 'meeting-notes', builtIn: true }));
+    expect(templates).toContainEqual(expect.objectContaining({ id: 'template-1', builtIn: false }));
+    templates.forEach((template: DocumentTemplate) => expect(template).not.toHaveProperty('content'));
+  });
+
+  it('lists nothing when nobody is signed in', async () => {
+    await writeTeamTemplate();
+
+    expect(await getTemplates()).toEqual([]);
+  });
+});
+
+describeGuardedRoomAction('saveTemplate', {
+  requiredRole: 'editor',
+  run: (roomId) => saveTemplate({ roomId, name: 'Plan', description: 'A plan', content: TEST_CONTENT }),
+  expectAllowed: async (result) => {
+    expect(result).toMatchObject({ name: 'Plan', createdBy: { email: TEST_USERS.editor.email } });
+    expect(await readTeamTemplates()).toHaveLength(1);
+  },
+  expectUnchanged: async () => {
+    expect(await readTeamTemplates()).toEqual([]);
+  },
+});
+
+describe('deleteTemplate', () => {
+  it('deletes a template saved by the signed in user', async () => {
+    await writeTeamTemplate();
+    signInAs('editor');
+
+    expect(await deleteTemplate({ templateId: 'template-1' })).toBeUndefined();
+    expect(await readTeamTemplates()).toEqual([]);
+  });
+
+  it.each([
+    ['unauthenticated', null, 'template-1'],
+    ['forbidden', 'owner', 'template-1'],
+    ['not_found', 'editor', 'missing-template'],
+  ] as const)('is denied as %s', async (code, user, templateId) => {
+    await writeTeamTemplate();
+    signInAs(user);
+
+    expect(await deleteTemplate({ templateId })).toEqual(toActionError(code));
+    expect(await readTeamTemplates()).toHaveLength(1);
+  });
+});
+
+describe('createDocumentFromTemplate', () => {
+  it('creates a document with the content of a team template', async () => {
+    await writeTeamTemplate();
+    signInAs('viewer');
+
+    const room = await createDocumentFromTemplate({ templateId: 'template-1' });
+
+    expect(getTestRoom(room.id)?.metadata.email).toBe(TEST_USERS.viewer.email);
+    expect(await readRecord(COLLECTIONS.initialContent, room.id, null)).toBe(TEST_CONTENT);
+  });
+
+  it('creates a document from a built-in template, titled and dated today', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T09:00:00.000Z'));
+    signInAs('viewer');
+
+    const room = await createDocumentFromTemplate({ templateId: 'meeting-notes' });
+    const content = String(await readRecord(COLLECTIONS.initialContent, room.id, null));
+
+    expect(getTestRoom(room.id)?.metadata.title).toBe('Meeting notes – 2026-10-19');
+    expect(JSON.parse(content).root.children[0]).toMatchObject({ type: 'heading', tag: 'h1' });
+    expect(content).toContain('2026-10-19');
+  });
+
+  it('is denied as unauthenticated when nobody is signed in', async () => {
+    await writeTeamTemplate();
+
+    expect(await createDocumentFromTemplate({ templateId: 'template-1' })).toEqual(toActionError('unauthenticated'));
+    expect(liveblocks.createRoom).not.toHaveBeenCalled();
+  });
+
+  it('is forbidden in a folder the user can only view', async () => {
+    await writeTeamTemplate();
+    await writeRecord(COLLECTIONS.folders, 'folder-1', { id: 'folder-1', usersAccesses: { [TEST_USERS.viewer.email]: 'viewer' } });
+    signInAs('viewer');
+
+    expect(await createDocumentFromTemplate({ templateId: 'template-1', folderId: 'folder-1' })).toEqual(toActionError('forbidden'));
+    expect(liveblocks.createRoom).not.toHaveBeenCalled();
+  });
+
+  it('is denied as not_found for a template that does not exist', async () => {
+    signInAs('viewer');
+
+    expect(await createDocumentFromTemplate({ templateId: 'missing-template' })).toEqual(toActionError('not_found'));
+    expect(liveblocks.createRoom).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,143 @@
+'use server';
+
+import { nanoid } from 'nanoid';
+import { revalidatePath } from 'next/cache';
+import { AuthorizationError, authorizeRoom, getAuthenticatedUser, toActionError } from '../authorization';
+import { markdownToContent } from '../import';
+import { COLLECTIONS, readRecord, updateRecord } from '../store';
+import { BUILT_IN_TEMPLATES, fillTemplateDate } from '../templates';
+import { parseStringify } from '../utils';
+import { createDocument } from './room.actions';
+
+// The templates saved by the team are stored as a single list in the server-side store.
+const TEAM_TEMPLATES_KEY = 'team';
+
+/**
+ * Retrieves every template: the built-in ones first, then the ones saved by the team, newest first.
+ * The content of the templates is not included. Only signed in users can list the templates.
+ *
+ * @returns {Promise<DocumentTemplate[]>} A promise that resolves to the list of templates.
+ */
+export const getTemplates = async () => {
+  try {
+    await getAuthenticatedUser();
+
+    const teamTemplates = await readRecord<TeamTemplate[]>(COLLECTIONS.templates, TEAM_TEMPLATES_KEY, []);
+
+    const templates: DocumentTemplate[] = [
+      ...BUILT_IN_TEMPLATES.map(({ markdown: _markdown, ...template }) => template),
+      ...teamTemplates.map(({ content: _content, ...template }) => template),
+    ];
+
+    return parseStringify(templates);
+  } catch (error) {
+    console.log(`Error happened while getting templates: ${error}`);
+    return [];
+  }
+}
+
+/**
+ * Saves the content of an existing document as a team template. Only editors of the document can save it,
+ * since the content is sent by the browser and they are the ones who could have written it.
+ * Documents created from the template are titled after it, e.g. "Sprint review – 2026-10-19".
+ *
+ * @param {SaveTemplateParams} params - The room the content comes from, the name and description of the template and the serialized editor state.
+ * @returns {Promise<DocumentTemplate | undefined>} A promise that resolves to the saved template, without its content.
+ */
+export const saveTemplate = async ({ roomId, name, description, content }: SaveTemplateParams) => {
+  try {
+    const { user: createdBy } = await authorizeRoom(roomId, 'editor');
+
+    const template: TeamTemplate = {
+      id: nanoid(),
+      name: name.trim() || 'Untitled template',
+      description: description.trim(),
+      title: `${name.trim() || 'Untitled'} – {date}`,
+      builtIn: false,
+      createdBy: { name: createdBy.name, email: createdBy.email },
+      createdAt: new Date().toISOString(),
+      content,
+    };
+
+    await updateRecord<TeamTemplate[]>(COLLECTIONS.templates, TEAM_TEMPLATES_KEY, [], (templates) => [template, ...templates]);
+
+    revalidatePath('/');
+
+    const { content: _content, ...summary } = template;
+
+    return parseStringify(summary);
+  } catch (error) {
+    console.log(`Error happened while saving a template: ${error}`);
+    return toActionError(error);
+  }
+}
+
+/**
+ * Deletes a team template. Only the user who saved a template can delete it, and built-in templates cannot be deleted.
+ *
+ * @param {Object} params - An object with a `templateId` property.
+ * @param {string} params.templateId - The ID of the template to delete.
+ */
+export const deleteTemplate = async ({ templateId }: { templateId: string }) => {
+  try {
+    const { email } = await getAuthenticatedUser();
+    const templates = await readRecord<TeamTemplate[]>(COLLECTIONS.templates, TEAM_TEMPLATES_KEY, []);
+    const template = templates.find(({ id }) => id === templateId);
+
+    if (!template) {
+      throw new AuthorizationError('not_found', 'This template does not exist');
+    }
+
+    if (template.createdBy?.email !== email) {
+      throw new AuthorizationError('forbidden', 'You cannot delete this template');
+    }
+
+    await updateRecord<TeamTemplate[]>(COLLECTIONS.templates, TEAM_TEMPLATES_KEY, [], (current) =>
+      current.filter(({ id }) => id !== templateId),
+    );
+
+    revalidatePath('/');
+  } catch (error) {
+    console.log(`Error happened while deleting a template: ${error}`);
+    return toActionError(error);
+  }
+}
+
+/**
+ * Creates a new document from a template. Both the content and the title of the
+ * template are copied, with `{date}` replaced by today's date.
+ *
+ * @param {Object} params - An object with `templateId` and `folderId` properties.
+ * @param {string} params.templateId - The ID of the built-in or team template.
+ * @param {string} [params.folderId] - The ID of the folder to create the document in.
+ * @returns {Promise<Object | undefined>} A promise that resolves to the created room.
+ */
+export const createDocumentFromTemplate = async ({ templateId, folderId }: { templateId: string; folderId?: string }) => {
+  try {
+    const builtInTemplate = BUILT_IN_TEMPLATES.find(({ id }) => id === templateId);
+
+    if (builtInTemplate) {
+      return createDocument({
+        folderId,
+        title: fillTemplateDate(builtInTemplate.title),
+        content: markdownToContent(fillTemplateDate(builtInTemplate.markdown)),
+      });
+    }
+
+    const templates = await readRecord<TeamTemplate[]>(COLLECTIONS.templates, TEAM_TEMPLATES_KEY, []);
+    const teamTemplate = templates.find(({ id }) => id === templateId);
+
+    if (!teamTemplate) {
+      throw new AuthorizationError('not_found', 'This template does not exist');
+    }
+
+    return createDocument({
+      folderId,
+      title: fillTemplateDate(teamTemplate.title),
+      content: teamTemplate.content,
+    });
+  } catch (error) {
+    console.log(`Error happened while creating a document from a template: ${error}`);
+    return toActionError(error);
+  }
+}
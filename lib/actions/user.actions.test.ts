@@ -0,0 +1,14 @@
+import { expect } from 'vitest';
+
+import { TEST_USERS } from '@/test/fakes';
+import { describeGuardedRoomAction } from '@/test/guarded-action';
+import { getDocumentUsers } from './user.actions';
+
+describeGuardedRoomAction('getDocumentUsers', {
+  requiredRole: 'viewer',
+  run: (roomId) => getDocumentUsers({ roomId, currentUser: TEST_USERS.viewer.email, text: 'ed' }),
+  expectAllowed: (result) => {
+    expect(result).toEqual([TEST_USERS.editor.email]);
+  },
+  deniedResult: () => undefined,
+});
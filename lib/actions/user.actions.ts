@@ -2,7 +2,7 @@
 
 import { clerkClient } from "@clerk/nextjs/server";
 import { parseStringify } from "../utils";
-import { liveblocks } from "../liveblocks";
+import { authorizeRoom } from "../authorization";
 
 /**
  * This function takes a list of user IDs and fetches the corresponding users from Clerk.
@@ -60,8 +60,8 @@ export const getClerkUsers = async ({ userIds }: { userIds: string[]}) => {
  */
 export const getDocumentUsers = async ({ roomId, currentUser, text }: { roomId: string, currentUser: string, text: string }) => {
   try {
-    // Fetch the room object from Liveblocks.
-    const room = await liveblocks.getRoom(roomId);
+    // Fetch the room object from Liveblocks. Only users with access to the room can list its users.
+    const { room } = await authorizeRoom(roomId, 'viewer');
 
     // Get the list of user email addresses associated with the room.
     const users = Object.keys(room.usersAccesses).filter((email) => email !== currentUser);
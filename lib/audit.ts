@@ -0,0 +1,76 @@
+import { nanoid } from 'nanoid';
+import { appendRecord, COLLECTIONS, readRecord } from './store';
+
+/**
+ * The actor of the events recorded by scheduled jobs rather than by a user, like the purge of the trash.
+ */
+export const SYSTEM_ACTOR: AuditEvent['actor'] = { name: 'System', email: 'system' };
+
+/**
+ * Appends an event to the audit log of a room. The log is append-only: events are never
+ * edited or deleted, and the log is kept after the room is deleted forever, so deletions can still be audited.
+ * Events recorded at the same time are all kept, see appendRecord.
+ *
+ * @param {Omit<AuditEvent, 'id' | 'createdAt'>} event - The room, the action, the user who performed it and its details.
+ * @returns {Promise<AuditEvent>} A promise that resolves to the recorded event.
+ */
+export const recordAuditEvent = async (event: Omit<AuditEvent, 'id' | 'createdAt'>) => {
+  const auditEvent: AuditEvent = {
+    ...event,
+    id: nanoid(),
+    createdAt: new Date().toISOString(),
+  };
+
+  await appendRecord(COLLECTIONS.auditLog, event.roomId, auditEvent);
+
+  return auditEvent;
+};
+
+/**
+ * Reads the audit log of a room, newest event first.
+ *
+ * @param {string} roomId - The ID of the room.
+ * @returns {Promise<AuditEvent[]>} A promise that resolves to the events of the room.
+ */
+export const readAuditLog = async (roomId: string) => {
+  const events = await readRecord<AuditEvent[]>(COLLECTIONS.auditLog, roomId, []);
+
+  return events.reverse();
+};
+
+// The columns of the CSV export, in order.
+const CSV_COLUMNS = ['createdAt', 'action', 'actorName', 'actorEmail', 'target', 'from', 'to'] as const;
+
+/**
+ * Escapes a value for a CSV cell. Values with commas, quotes or line breaks are quoted,
+ * and values starting with a formula character are prefixed so spreadsheets do not evaluate them.
+ */
+const toCsvCell = (value = '') => {
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes audit events for the compliance export, either as a JSON array or as a CSV
+ * file with one row per event.
+ *
+ * @param {AuditEvent[]} events - The events to export.
+ * @param {AuditExportFormat} format - The format of the export.
+ * @returns {string} The content of the export file.
+ */
+export const serializeAuditLog = (events: AuditEvent[], format: AuditExportFormat) => {
+  if (format === 'json') return JSON.stringify(events, null, 2);
+
+  const rows = events.map((event) => [
+    event.createdAt,
+    event.action,
+    event.actor.name,
+    event.actor.email,
+    event.target,
+    event.details?.from,
+    event.details?.to,
+  ].map(toCsvCell).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
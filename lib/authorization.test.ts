@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+
+import { createTestRoom, getTestRoom, signInAs, TEST_USERS } from '@/test/fakes';
+import { AuthorizationError, authorizeRoom, getAuthenticatedUser, getRoomRole, toActionError } from './authorization';
+import { hasRole } from './utils';
+
+describe('hasRole', () => {
+  it('grants every role to the creator', () => {
+    expect(hasRole('creator', 'creator')).toBe(true);
+    expect(hasRole('creator', 'editor')).toBe(true);
+    expect(hasRole('creator', 'viewer')).toBe(true);
+  });
+
+  it('grants a role and the less permissive ones', () => {
+    expect(hasRole('editor', 'editor')).toBe(true);
+    expect(hasRole('editor', 'commenter')).toBe(true);
+    expect(hasRole('commenter', 'viewer')).toBe(true);
+  });
+
+  it('refuses the more permissive roles', () => {
+    expect(hasRole('viewer', 'commenter')).toBe(false);
+    expect(hasRole('commenter', 'editor')).toBe(false);
+    expect(hasRole('editor', 'creator')).toBe(false);
+  });
+});
+
+describe('getRoomRole', () => {
+  it('returns the role of each collaborator', () => {
+    const room = getTestRoom(createTestRoom())!;
+
+    expect(getRoomRole(room, TEST_USERS.owner.email)).toBe('creator');
+    expect(getRoomRole(room, TEST_USERS.editor.email)).toBe('editor');
+    expect(getRoomRole(room, TEST_USERS.commenter.email)).toBe('commenter');
+    expect(getRoomRole(room, TEST_USERS.viewer.email)).toBe('viewer');
+  });
+
+  it('returns null for users without access', () => {
+    const room = getTestRoom(createTestRoom())!;
+
+    expect(getRoomRole(room, TEST_USERS.stranger.email)).toBeNull();
+  });
+
+  it('does not make the owner recorded in the metadata a creator once they lost access', () => {
+    const room = getTestRoom(createTestRoom())!;
+    delete room.usersAccesses[TEST_USERS.owner.email];
+
+    expect(getRoomRole(room, TEST_USERS.owner.email)).toBeNull();
+  });
+});
+
+describe('getAuthenticatedUser', () => {
+  it('resolves the user signed in through Clerk', async () => {
+    signInAs('editor');
+
+    await expect(getAuthenticatedUser()).resolves.toMatchObject({
+      id: TEST_USERS.editor.id,
+      name: 'Eddie Editor',
+      email: TEST_USERS.editor.email,
+    });
+  });
+
+  it('throws unauthenticated when nobody is signed in', async () => {
+    await expect(getAuthenticatedUser()).rejects.toMatchObject({ code: 'unauthenticated' });
+  });
+});
+
+describe('authorizeRoom', () => {
+  it('resolves the user, the room and their role when the role is enough', async () => {
+    const roomId = createTestRoom();
+    signInAs('editor');
+
+    const { user, room, userType } = await authorizeRoom(roomId, 'commenter');
+
+    expect(user.email).toBe(TEST_USERS.editor.email);
+    expect(room.id).toBe(roomId);
+    expect(userType).toBe('editor');
+  });
+
+  it('throws unauthenticated when nobody is signed in', async () => {
+    const roomId = createTestRoom();
+
+    await expect(authorizeRoom(roomId, 'viewer')).rejects.toMatchObject({ code: 'unauthenticated' });
+  });
+
+  it('throws forbidden when the role is not enough', async () => {
+    const roomId = createTestRoom();
+    signInAs('commenter');
+
+    await expect(authorizeRoom(roomId, 'editor')).rejects.toMatchObject({ code: 'forbidden' });
+  });
+
+  it('throws forbidden when an editor needs to be the owner', async () => {
+    const roomId = createTestRoom();
+    signInAs('editor');
+
+    await expect(authorizeRoom(roomId, 'creator')).rejects.toMatchObject({ code: 'forbidden' });
+  });
+
+  it('throws not_found when the room does not exist', async () => {
+    signInAs('owner');
+
+    await expect(authorizeRoom('missing-room', 'viewer')).rejects.toMatchObject({ code: 'not_found' });
+  });
+
+  it('throws not_found, not forbidden, when the user has no access, so room IDs cannot be probed', async () => {
+    const roomId = createTestRoom();
+    signInAs('stranger');
+
+    await expect(authorizeRoom(roomId, 'viewer')).rejects.toMatchObject({ code: 'not_found' });
+  });
+});
+
+describe('toActionError', () => {
+  it('returns authorization failures to the UI', () => {
+    expect(toActionError(new AuthorizationError('forbidden', 'No'))).toEqual({ error: { code: 'forbidden', message: 'No' } });
+  });
+
+  it('hides every other error', () => {
+    expect(toActionError(new Error('Database password is hunter2'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,127 @@
+import { currentUser } from '@clerk/nextjs/server';
+import { LiveblocksError, RoomData } from '@liveblocks/node';
+import { liveblocks } from './liveblocks';
+import { getUserColor, getUserType, hasRole } from './utils';
+
+/**
+ * The error thrown when the caller of a server action is not allowed to perform it.
+ * Server actions catch it and return it to the UI as an ActionError, see toActionError.
+ */
+export class AuthorizationError extends Error {
+  code: AuthorizationErrorCode;
+
+  constructor(code: AuthorizationErrorCode, message: string) {
+    super(message);
+    this.name = 'AuthorizationError';
+    this.code = code;
+  }
+}
+
+// The HTTP status returned by API routes for each authorization failure.
+export const AUTHORIZATION_ERROR_STATUSES: Record<AuthorizationErrorCode, number> = {
+  unauthenticated: 401,
+  forbidden: 403,
+  not_found: 404,
+};
+
+/**
+ * Resolves the user signed in through Clerk. Server actions must rely on this user,
+ * and never on user details sent by the browser.
+ *
+ * @returns {Promise<User>} A promise that resolves to the signed in user.
+ * @throws {AuthorizationError} If nobody is signed in.
+ */
+export const getAuthenticatedUser = async (): Promise<User> => {
+  const clerkUser = await currentUser();
+
+  if (!clerkUser) {
+    throw new AuthorizationError('unauthenticated', 'You must be signed in');
+  }
+
+  return {
+    id: clerkUser.id,
+    name: `${clerkUser.firstName} ${clerkUser.lastName}`,
+    email: clerkUser.emailAddresses[0].emailAddress,
+    avatar: clerkUser.imageUrl,
+    color: getUserColor(clerkUser.id),
+  };
+};
+
+/**
+ * Returns the role of a user in a room: 'creator' for the owner recorded in the metadata,
+ * the role granted by `usersAccesses` for collaborators, and null for everyone else.
+ *
+ * @param {RoomData} room - The room.
+ * @param {string} email - The email of the user.
+ * @returns {UserType | null} The role of the user, or null if they have no access.
+ */
+export const getRoomRole = (room: RoomData, email: string): UserType | null => {
+  if (room.metadata.email === email && room.usersAccesses[email]) return 'creator';
+  if (!room.usersAccesses[email]) return null;
+
+  return getUserType(room.usersAccesses[email]);
+};
+
+/**
+ * Resolves the signed in user and checks that they have at least the required role in a room.
+ * Every server action that reads or changes a room goes through this function first.
+ *
+ * @param {string} roomId - The ID of the room.
+ * @param {UserType} requiredRole - The least permissive role allowed to perform the action.
+ * @returns {Promise<{ user: User, room: RoomData, userType: UserType }>} A promise that resolves to the user, the room and the role of the user.
+ * @throws {AuthorizationError} If nobody is signed in, the room does not exist, or the user's role is not enough.
+ */
+export const authorizeRoom = async (roomId: string, requiredRole: UserType) => {
+  const user = await getAuthenticatedUser();
+
+  let room: RoomData;
+
+  try {
+    room = await liveblocks.getRoom(roomId);
+  } catch (error) {
+    if (error instanceof LiveblocksError && error.status === 404) {
+      throw new AuthorizationError('not_found', 'This document does not exist');
+    }
+
+    throw error;
+  }
+
+  const userType = getRoomRole(room, user.email);
+
+  // Users without access are told the document does not exist, so that room IDs cannot be probed.
+  if (!userType) {
+    throw new AuthorizationError('not_found', 'This document does not exist');
+  }
+
+  if (!hasRole(userType, requiredRole)) {
+    throw new AuthorizationError('forbidden', `You need ${requiredRole === 'creator' ? 'to be the owner' : `${requiredRole} access`} to do this`);
+  }
+
+  return { user, room, userType };
+};
+
+/**
+ * Checks that a room is not in the trash. Documents in the trash can only be restored or deleted forever,
+ * so every other action treats them as if they did not exist.
+ *
+ * @param {RoomData} room - The room, as returned by authorizeRoom.
+ * @throws {AuthorizationError} If the room is in the trash.
+ */
+export const assertRoomNotTrashed = (room: RoomData) => {
+  if (room.metadata.trashed) {
+    throw new AuthorizationError('not_found', 'This document is in the trash');
+  }
+};
+
+/**
+ * Converts an authorization failure into the ActionError returned to the UI.
+ * Any other error returns undefined, which is how server actions report unexpected failures.
+ *
+ * @param {unknown} error - The error caught by a server action.
+ * @returns {ActionError | undefined} The error to return to the UI.
+ */
+export const toActionError = (error: unknown): ActionError | undefined => {
+  if (!(error instanceof AuthorizationError)) return undefined;
+
+  return { error: { code: error.code, message: error.message } };
+};
@@ -0,0 +1,145 @@
+import { SerializedEditorState } from 'lexical';
+import { describe, expect, it } from 'vitest';
+
+import { exportToHtml, exportToMarkdown, getExportFileName, type ExportListType, type ExportNode } from './export';
+import { renderPdf } from './pdf';
+
+const BASE_URL = 'https://docs.example.com';
+
+// Format flags of Lexical text nodes.
+const BOLD = 1;
+const ITALIC = 2;
+const UNDERLINE = 8;
+
+const text = (value: string, format = 0): ExportNode => ({ type: 'text', version: 1, text: value, format });
+
+const element = (type: string, children: ExportNode[] = [], props: Partial<ExportNode> = {}): ExportNode =>
+  ({ type, version: 1, format: '', children, ...props }) as ExportNode;
+
+const paragraph = (...children: ExportNode[]) => element('paragraph', children);
+
+const list = (listType: ExportListType, items: ExportNode[][]) =>
+  element('list', items.map((children, index) => element('listitem', children, { value: index + 1 })), { listType });
+
+const cell = (value: string, headerState = 0) => element('tablecell', [paragraph(text(value))], { headerState });
+
+const state = (...children: ExportNode[]) => ({ root: element('root', children) }) as unknown as SerializedEditorState;
+
+// A document with every kind of block the exporters write.
+const DOCUMENT = state(
+  element('heading', [text('Launch plan')], { tag: 'h1' }),
+  paragraph(text('Ship '), text('bold', BOLD), text(' and '), text('italic', ITALIC), text(' and '), text('underlined', UNDERLINE), text(' text.')),
+  paragraph(text('Read '), element('link', [text('the brief')], { url: 'https://example.com/brief' }), text(' first.')),
+  element('heading', [text('Steps')], { tag: 'h2' }),
+  list('bullet', [[text('Design')], [list('bullet', [[text('Review')]])], [text('Build')]]),
+  list('number', [[text('One')], [text('Two')]]),
+  element('list', [
+    element('listitem', [text('Done')], { checked: true }),
+    element('listitem', [text('To do')], { checked: false }),
+  ], { listType: 'check' }),
+  element('quote', [text('Less is more')]),
+  element('code', [text('const a = 1;')], { language: 'js' }),
+  element('table', [
+    element('tablerow', [cell('Name', 1), cell('Role', 1)]),
+    element('tablerow', [cell('Ada'), cell('Editor')]),
+  ]),
+  element('image', [], { src: '/api/images/room-1/abc.png', altText: 'Diagram', caption: 'The architecture' }),
+  element('horizontalrule'),
+);
+
+describe('getExportFileName', () => {
+  it('names the file after the title, without the characters files cannot have', () => {
+    expect(getExportFileName('Q3: plan / "draft"', 'md')).toBe('Q3 plan  draft.md');
+    expect(getExportFileName('  ', 'pdf')).toBe('Untitled.pdf');
+  });
+});
+
+describe('exportToMarkdown', () => {
+  it('writes every kind of block, with uploaded images resolved against the application', () => {
+    expect(exportToMarkdown(DOCUMENT, BASE_URL)).toBe([
+      '# Launch plan',
+      'Ship **bold** and _italic_ and <u>underlined</u> text.',
+      'Read [the brief](https://example.com/brief) first.',
+      '## Steps',
+      // Consecutive lists are written together, each type of marker starts a new list.
+      '- Design\n    - Review\n- Build\n1. One\n2. Two\n- [x] Done\n- [ ] To do',
+      '> Less is more',
+      '```js\nconst a = 1;\n```',
+      '| Name | Role |\n| --- | --- |\n| Ada | Editor |',
+      '![Diagram](https://docs.example.com/api/images/room-1/abc.png "The architecture")',
+      '---',
+    ].join('\n\n') + '\n');
+  });
+
+  it('escapes Markdown in the text, and writes aligned blocks as HTML', () => {
+    const markdown = exportToMarkdown(state(
+      paragraph(text('2 * 3 = [six]')),
+      element('paragraph', [text('Centered')], { format: 'center' }),
+    ));
+
+    expect(markdown).toBe('2 \\* 3 = \\[six\\]\n\n<p style="text-align: center">Centered</p>\n');
+  });
+
+  it('writes tables with merged cells as HTML', () => {
+    const markdown = exportToMarkdown(state(element('table', [element('tablerow', [element('tablecell', [paragraph(text('Wide'))], { colSpan: 2 })])])));
+
+    expect(markdown).toBe('<table><tr><td colspan="2">Wide</td></tr></table>\n');
+  });
+});
+
+describe('exportToHtml', () => {
+  it('writes a standalone document with every kind of block', () => {
+    const html = exportToHtml(DOCUMENT, 'Launch plan', BASE_URL);
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<title>Launch plan</title>');
+    expect(html).toContain('<h1>Launch plan</h1>');
+    expect(html).toContain('<p>Ship <strong>bold</strong> and <em>italic</em> and <u>underlined</u> text.</p>');
+    expect(html).toContain('<a href="https://example.com/brief">the brief</a>');
+    expect(html).toContain('<ul><li>Design<ul><li>Review</li></ul></li><li>Build</li></ul>');
+    expect(html).toContain('<ol><li>One</li><li>Two</li></ol>');
+    expect(html).toContain('<ul class="checklist"><li><input type="checkbox" disabled checked> Done</li><li><input type="checkbox" disabled> To do</li></ul>');
+    expect(html).toContain('<blockquote>Less is more</blockquote>');
+    expect(html).toContain('<pre><code class="language-js">const a = 1;</code></pre>');
+    expect(html).toContain('<table><tr><th>Name</th><th>Role</th></tr><tr><td>Ada</td><td>Editor</td></tr></table>');
+    expect(html).toContain('<figure><img src="https://docs.example.com/api/images/room-1/abc.png" alt="Diagram"><figcaption>The architecture</figcaption></figure>');
+    expect(html).toContain('<hr>');
+  });
+
+  it('escapes the text and the title, and drops unsafe links', () => {
+    const html = exportToHtml(state(
+      paragraph(text('<script>alert(1)</script>')),
+      paragraph(element('link', [text('trap')], { url: 'javascript:alert(1)' })),
+    ), '<b>Title</b>');
+
+    expect(html).toContain('<title>&lt;b&gt;Title&lt;/b&gt;</title>');
+    expect(html).toContain('<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>');
+    expect(html).toContain('<p>trap</p>');
+    expect(html).not.toContain('javascript:');
+  });
+});
+
+describe('renderPdf', () => {
+  // A 1x1 transparent PNG.
+  const PNG = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=', 'base64');
+
+  it('renders every kind of block to a PDF with the title in its metadata and clickable links', async () => {
+    const pdf = (await renderPdf(DOCUMENT, 'Launch plan')).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-')).toBe(true);
+    // The text of the pages is compressed, only the metadata and the link annotations can be read.
+    expect(pdf).toContain('(Launch plan)');
+    expect(pdf).toContain('/URI (https://example.com/brief)');
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+  });
+
+  it('embeds the images it is given, and skips the others', async () => {
+    const withImage = (await renderPdf(DOCUMENT, 'Launch plan', {
+      '/api/images/room-1/abc.png': { data: PNG, contentType: 'image/png' },
+    })).toString('latin1');
+    const withoutImage = (await renderPdf(DOCUMENT, 'Launch plan')).toString('latin1');
+
+    expect(withImage).toContain('/Subtype /Image');
+    expect(withoutImage).not.toContain('/Subtype /Image');
+  });
+});
@@ -0,0 +1,616 @@
+import {
+  IS_BOLD,
+  IS_CODE,
+  IS_ITALIC,
+  IS_STRIKETHROUGH,
+  IS_UNDERLINE,
+  SerializedEditorState,
+  SerializedLexicalNode,
+} from 'lexical';
+
+import { sanitizeUrl } from './utils';
+
+/**
+ * A serialized Lexical node with the optional properties used by the exporters.
+ * Element nodes store their alignment in `format` as a string, while text nodes
+ * store their inline formats in `format` as a bit mask.
+ */
+export type ExportNode = SerializedLexicalNode & {
+  children?: ExportNode[];
+  text?: string;
+  format?: number | string;
+  tag?: string;
+  listType?: ExportListType;
+  checked?: boolean;
+  value?: number;
+  url?: string;
+  isUnlinked?: boolean;
+  language?: string;
+  headerState?: number;
+  colSpan?: number;
+  rowSpan?: number;
+  src?: string;
+  altText?: string;
+  caption?: string;
+  width?: number;
+  suggestionType?: 'insert' | 'delete';
+};
+
+/**
+ * A piece of text that shares the same inline formats. Blocks are flattened to a
+ * list of runs, which is what the Markdown, HTML and PDF exporters consume.
+ * Text inside a link carries the URL of the link, checked with sanitizeUrl.
+ */
+export type TextRun = {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strikethrough: boolean;
+  code: boolean;
+  url?: string;
+};
+
+export type ExportAlignment = 'left' | 'center' | 'right' | 'justify';
+
+export type ExportListType = 'bullet' | 'number' | 'check';
+
+/**
+ * A cell of a table. The paragraphs of the cell are joined with line breaks, and merged
+ * cells span several rows or columns. Cells covered by a merged cell are not part of the table.
+ */
+export type ExportTableCell = {
+  runs: TextRun[];
+  header: boolean;
+  colSpan: number;
+  rowSpan: number;
+};
+
+/**
+ * An image of the document. Without a width, the image keeps its natural size.
+ */
+export type ExportImage = {
+  src: string;
+  altText: string;
+  caption: string;
+  width?: number;
+};
+
+/**
+ * A block of the document. Lists are flattened to one block per item, so `level` is the
+ * level of a heading, or the nesting depth of a list item starting at 0.
+ * List items also carry the type of their list, their number in an ordered list and
+ * whether they are checked in a checklist. Code blocks carry their language, and all of their runs are code.
+ * Tables carry their rows of cells, and images their source and caption, instead of runs.
+ */
+export type ExportBlock = {
+  type: 'paragraph' | 'heading' | 'quote' | 'listitem' | 'code' | 'table' | 'image' | 'divider';
+  level: number;
+  align: ExportAlignment;
+  runs: TextRun[];
+  listType?: ExportListType;
+  number?: number;
+  checked?: boolean;
+  language?: string;
+  rows?: ExportTableCell[][];
+  image?: ExportImage;
+};
+
+const ALIGNMENTS: ExportAlignment[] = ['left', 'center', 'right', 'justify'];
+
+/**
+ * Builds a file name for an exported document from its title.
+ * Characters that are not allowed in file names are removed, and "Untitled" is used for empty titles.
+ *
+ * @param {string} title - The title of the document, taken from RoomMetadata.title.
+ * @param {string} extension - The extension of the file, without the dot.
+ * @returns {string} The file name, e.g. "Project plan.md".
+ */
+export const getExportFileName = (title: string, extension: string) => {
+  const name = title.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '').trim() || 'Untitled';
+
+  return `${name}.${extension}`;
+};
+
+/**
+ * Flattens the inline children of a block into text runs.
+ * Line breaks become "\n", and nodes of unknown types contribute their text content.
+ * Pending suggestions are exported as the document stands: suggested insertions are left out, suggested deletions kept.
+ */
+const getTextRuns = (nodes: ExportNode[] = []): TextRun[] => {
+  return nodes.flatMap((node): TextRun[] => {
+    if (node.type === 'linebreak') {
+      return [{ text: '\n', bold: false, italic: false, underline: false, strikethrough: false, code: false }];
+    }
+
+    if (typeof node.text === 'string') {
+      const format = typeof node.format === 'number' ? node.format : 0;
+
+      return [{
+        text: node.text,
+        bold: (format & IS_BOLD) !== 0,
+        italic: (format & IS_ITALIC) !== 0,
+        underline: (format & IS_UNDERLINE) !== 0,
+        strikethrough: (format & IS_STRIKETHROUGH) !== 0,
+        code: (format & IS_CODE) !== 0,
+      }];
+    }
+
+    if (node.type === 'suggestion' && node.suggestionType === 'insert') return [];
+
+    const runs = getTextRuns(node.children);
+
+    // Automatic links that were removed are kept as AutoLinkNodes, so their text is exported as plain text.
+    if ((node.type === 'link' || node.type === 'autolink') && !node.isUnlinked) {
+      const url = sanitizeUrl(node.url ?? '');
+
+      return url ? runs.map((run) => ({ ...run, url })) : runs;
+    }
+
+    return runs;
+  });
+};
+
+/**
+ * Reads the alignment of an element node.
+ */
+const getAlignment = (node: ExportNode) =>
+  ALIGNMENTS.includes(node.format as ExportAlignment) ? (node.format as ExportAlignment) : 'left';
+
+/**
+ * Flattens a list node into one block per item. In Lexical, a nested list is wrapped in
+ * a list item of its own, which is replaced by the items of the nested list one level deeper.
+ */
+const getListBlocks = (list: ExportNode, depth: number): ExportBlock[] =>
+  (list.children ?? []).flatMap((item): ExportBlock[] => {
+    const nestedList = item.children?.find((child) => child.type === 'list');
+
+    if (nestedList) return getListBlocks(nestedList, depth + 1);
+
+    return [{
+      type: 'listitem',
+      level: depth,
+      align: getAlignment(item),
+      runs: getTextRuns(item.children),
+      listType: list.listType ?? 'bullet',
+      number: item.value,
+      checked: list.listType === 'check' ? Boolean(item.checked) : undefined,
+    }];
+  });
+
+// A line break between the paragraphs of a table cell.
+const LINE_BREAK_RUN: TextRun = { text: '\n', bold: false, italic: false, underline: false, strikethrough: false, code: false };
+
+/**
+ * Converts the rows of a table node to rows of cells. Any header state, of the row or of the column,
+ * makes a header cell.
+ */
+const getTableRows = (table: ExportNode): ExportTableCell[][] =>
+  (table.children ?? []).map((row) =>
+    (row.children ?? []).map((cell) => ({
+      runs: (cell.children ?? []).flatMap((block, index) =>
+        index === 0 ? getTextRuns(block.children) : [LINE_BREAK_RUN, ...getTextRuns(block.children)],
+      ),
+      header: (cell.headerState ?? 0) !== 0,
+      colSpan: cell.colSpan ?? 1,
+      rowSpan: cell.rowSpan ?? 1,
+    })),
+  );
+
+/**
+ * Lists the headings of the document as the items of a bulleted list, for a table of contents block.
+ * Like the block in the editor, it lists the h1 to h3 headings that have text, nested by level.
+ * An item is nested at most one level deeper than the item before it, e.g. for an h3 right after an h1.
+ */
+const getTableOfContentsBlocks = (nodes: ExportNode[]): ExportBlock[] =>
+  nodes
+    .filter((node) => node.type === 'heading' && ['h1', 'h2', 'h3'].includes(node.tag ?? ''))
+    .map((node) => ({ level: Number(node.tag?.slice(1)) - 1, runs: getTextRuns(node.children) }))
+    .filter(({ runs }) => runs.some(({ text }) => text.trim() !== ''))
+    .reduce<ExportBlock[]>((items, { level, runs }) => {
+      const previous = items[items.length - 1];
+
+      items.push({
+        type: 'listitem',
+        level: previous ? Math.min(level, previous.level + 1) : 0,
+        align: 'left',
+        runs,
+        listType: 'bullet',
+      });
+
+      return items;
+    }, []);
+
+/**
+ * Converts a serialized editor state to the list of blocks used by the exporters.
+ * Headings, quotes, lists, code blocks, tables, images, dividers and alignment set by the ToolbarPlugin are preserved; any other
+ * block is exported as a paragraph so that no text is lost. Tables of contents are exported as a list of the headings.
+ *
+ * @param {SerializedEditorState} state - The serialized editor state.
+ * @returns {ExportBlock[]} The blocks of the document.
+ */
+export const getExportBlocks = (state: SerializedEditorState): ExportBlock[] => {
+  const children = (state.root.children ?? []) as ExportNode[];
+
+  return children.flatMap((node): ExportBlock | ExportBlock[] => {
+    if (node.type === 'list') {
+      return getListBlocks(node, 0);
+    }
+
+    // The highlighting of code blocks is not exported, only their text and language.
+    if (node.type === 'code') {
+      const runs = getTextRuns(node.children).map((run) => ({ ...run, code: true }));
+
+      return { type: 'code', level: 0, align: 'left', runs, language: node.language ?? undefined };
+    }
+
+    if (node.type === 'table') {
+      return { type: 'table', level: 0, align: 'left', runs: [], rows: getTableRows(node) };
+    }
+
+    if (node.type === 'horizontalrule') {
+      return { type: 'divider', level: 0, align: 'left', runs: [] };
+    }
+
+    if (node.type === 'table-of-contents') {
+      return getTableOfContentsBlocks(children);
+    }
+
+    if (node.type === 'image') {
+      const image = { src: node.src ?? '', altText: node.altText ?? '', caption: node.caption ?? '', width: node.width };
+
+      return { type: 'image', level: 0, align: 'center', runs: [], image };
+    }
+
+    const align = getAlignment(node);
+    const runs = getTextRuns(node.children);
+
+    if (node.type === 'heading') {
+      return { type: 'heading', level: Number(node.tag?.slice(1)) || 1, align, runs };
+    }
+
+    if (node.type === 'quote') {
+      return { type: 'quote', level: 0, align, runs };
+    }
+
+    return { type: 'paragraph', level: 0, align, runs };
+  });
+};
+
+/**
+ * Groups consecutive list items, so that each list can be written as a whole.
+ */
+const groupBlocks = (blocks: ExportBlock[]) =>
+  blocks.reduce<Array<ExportBlock | ExportBlock[]>>((groups, block) => {
+    const last = groups[groups.length - 1];
+
+    if (block.type !== 'listitem') {
+      groups.push(block);
+    } else if (Array.isArray(last)) {
+      last.push(block);
+    } else {
+      groups.push([block]);
+    }
+
+    return groups;
+  }, []);
+
+/**
+ * Escapes the characters that have a meaning in HTML.
+ */
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Escapes the characters that have a meaning in Markdown.
+ */
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_~[\]#<>|])/g, '\\$1');
+
+/**
+ * Groups consecutive runs that belong to the same link, or to no link, so each link is written once.
+ */
+const groupLinkRuns = (runs: TextRun[]) =>
+  runs.reduce<{ url?: string; runs: TextRun[] }[]>((groups, run) => {
+    const lastGroup = groups[groups.length - 1];
+
+    if (lastGroup && lastGroup.url === run.url) {
+      lastGroup.runs.push(run);
+    } else {
+      groups.push({ url: run.url, runs: [run] });
+    }
+
+    return groups;
+  }, []);
+
+/**
+ * Converts text runs to HTML. Every piece of text is escaped and only a fixed set of
+ * formatting tags and links to sanitized URLs are produced, so the output is safe to open in a browser.
+ */
+const runsToHtml = (runs: TextRun[]) =>
+  groupLinkRuns(runs)
+    .map(({ url, runs: linkRuns }) => {
+      const html = linkRuns
+        .map((run) => {
+          if (run.text === '\n') return '<br>';
+
+          let runHtml = escapeHtml(run.text);
+
+          if (run.code) runHtml = `<code>${runHtml}</code>`;
+          if (run.bold) runHtml = `<strong>${runHtml}</strong>`;
+          if (run.italic) runHtml = `<em>${runHtml}</em>`;
+          if (run.underline) runHtml = `<u>${runHtml}</u>`;
+          if (run.strikethrough) runHtml = `<s>${runHtml}</s>`;
+
+          return runHtml;
+        })
+        .join('');
+
+      return url ? `<a href="${escapeHtml(url)}">${html}</a>` : html;
+    })
+    .join('');
+
+/**
+ * Joins the runs of a code block back into its source code.
+ */
+const getCodeText = (runs: TextRun[]) => runs.map(({ text }) => text).join('');
+
+/**
+ * Resolves the URL of an image. Images uploaded to the document have a path, which is resolved against
+ * the URL of the application so that they still load from the exported file, for users who can see the document.
+ */
+const getImageUrl = (src: string, baseUrl: string) =>
+  src.startsWith('/') && !src.startsWith('//') ? `${baseUrl}${src}` : sanitizeUrl(src) ?? '';
+
+/**
+ * Converts an image to an HTML figure, with its caption.
+ */
+const imageToHtml = ({ src, altText, caption, width }: ExportImage, baseUrl: string) => {
+  const widthAttribute = width ? ` width="${width}"` : '';
+  const captionHtml = caption ? `<figcaption>${escapeHtml(caption)}</figcaption>` : '';
+
+  return `<figure><img src="${escapeHtml(getImageUrl(src, baseUrl))}" alt="${escapeHtml(altText)}"${widthAttribute}>${captionHtml}</figure>`;
+};
+
+/**
+ * Converts the rows of a table to an HTML table, with the spans of merged cells.
+ */
+const tableToHtml = (rows: ExportTableCell[][]) => {
+  const html = rows
+    .map((row) => {
+      const cells = row
+        .map(({ runs, header, colSpan, rowSpan }) => {
+          const tag = header ? 'th' : 'td';
+          const spans = `${colSpan > 1 ? ` colspan="${colSpan}"` : ''}${rowSpan > 1 ? ` rowspan="${rowSpan}"` : ''}`;
+
+          return `<${tag}${spans}>${runsToHtml(runs)}</${tag}>`;
+        })
+        .join('');
+
+      return `<tr>${cells}</tr>`;
+    })
+    .join('');
+
+  return `<table>${html}</table>`;
+};
+
+/**
+ * Converts a single block to HTML.
+ */
+const blockToHtml = ({ type, level, align, runs, language, rows, image }: ExportBlock, baseUrl: string) => {
+  if (type === 'table') return tableToHtml(rows ?? []);
+
+  if (type === 'image' && image) return imageToHtml(image, baseUrl);
+
+  if (type === 'divider') return '<hr>';
+
+  if (type === 'code') {
+    const className = language ? ` class="language-${escapeHtml(language)}"` : '';
+
+    return `<pre><code${className}>${escapeHtml(getCodeText(runs))}</code></pre>`;
+  }
+
+  const style = align === 'left' ? '' : ` style="text-align: ${align}"`;
+  const tag = type === 'heading' ? `h${level}` : type === 'quote' ? 'blockquote' : 'p';
+
+  return `<${tag}${style}>${runsToHtml(runs) || '<br>'}</${tag}>`;
+};
+
+/**
+ * Opens a list of the given type. Checklists are bulleted lists whose items start with a checkbox.
+ */
+const openListTag = (listType: ExportListType, start = 1) => {
+  if (listType === 'number') return start === 1 ? '<ol>' : `<ol start="${start}">`;
+
+  return listType === 'check' ? '<ul class="checklist">' : '<ul>';
+};
+
+/**
+ * Converts the flattened items of a list to nested HTML lists. A nested list is written
+ * inside the item before it, as browsers expect.
+ */
+const listToHtml = (items: ExportBlock[]) => {
+  const openLists: ExportListType[] = [];
+  let html = '';
+
+  const closeList = () => {
+    html += `</li></${openLists.pop() === 'number' ? 'ol' : 'ul'}>`;
+  };
+
+  items.forEach((item) => {
+    const listType = item.listType ?? 'bullet';
+
+    // Close the lists nested deeper than the item, and the list at its depth if the type changed.
+    while (openLists.length > item.level + 1) closeList();
+    if (openLists.length === item.level + 1 && openLists[item.level] !== listType) closeList();
+
+    if (openLists.length === item.level + 1) {
+      html += '</li>';
+    }
+
+    while (openLists.length < item.level + 1) {
+      html += openListTag(listType, item.number);
+      openLists.push(listType);
+    }
+
+    const style = item.align === 'left' ? '' : ` style="text-align: ${item.align}"`;
+    const checkbox = listType === 'check' ? `<input type="checkbox" disabled${item.checked ? ' checked' : ''}> ` : '';
+
+    html += `<li${style}>${checkbox}${runsToHtml(item.runs)}`;
+  });
+
+  while (openLists.length > 0) closeList();
+
+  return html;
+};
+
+/**
+ * Converts a serialized editor state to a standalone, sanitized HTML document.
+ *
+ * @param {SerializedEditorState} state - The serialized editor state.
+ * @param {string} title - The title of the document.
+ * @param {string} baseUrl - The URL of the application, which the paths of uploaded images are resolved against.
+ * @returns {string} The HTML document.
+ */
+export const exportToHtml = (state: SerializedEditorState, title: string, baseUrl = '') => {
+  const body = groupBlocks(getExportBlocks(state))
+    .map((group) => (Array.isArray(group) ? listToHtml(group) : blockToHtml(group, baseUrl)))
+    .join('\n');
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    '<style>body{font-family:system-ui,sans-serif;max-width:800px;margin:40px auto;line-height:1.5}blockquote{margin-left:20px;padding-left:16px;border-left:4px solid #ced0d4;color:#65676b}.checklist{list-style:none}pre{background:#f0f2f5;padding:8px;overflow-x:auto}table{border-collapse:collapse}th,td{border:1px solid #ced0d4;padding:4px 8px;text-align:left;vertical-align:top}figure{margin:16px 0;text-align:center}img{max-width:100%;height:auto}figcaption{color:#65676b;font-size:14px}</style>',
+    '</head>',
+    '<body>',
+    body,
+    '</body>',
+    '</html>',
+  ].join('\n');
+};
+
+/**
+ * Converts a single text run to Markdown. Underline has no Markdown syntax, so it is written as an HTML tag.
+ */
+const runToMarkdown = (run: TextRun, lineBreak: string) => {
+  if (run.text === '\n') return lineBreak;
+
+  // Whitespace around the text must stay outside of the markers, otherwise they are not parsed.
+  const [, leading, content, trailing] = run.text.match(/^(\s*)([\s\S]*?)(\s*)$/) ?? ['', '', run.text, ''];
+
+  if (!content) return run.text;
+
+  let markdown = run.code ? `\`${content}\`` : escapeMarkdown(content);
+
+  if (run.bold) markdown = `**${markdown}**`;
+  if (run.italic) markdown = `_${markdown}_`;
+  if (run.strikethrough) markdown = `~~${markdown}~~`;
+  if (run.underline) markdown = `<u>${markdown}</u>`;
+
+  return `${leading}${markdown}${trailing}`;
+};
+
+/**
+ * Converts text runs to Markdown. Parentheses are encoded in link URLs, so they cannot end the link early.
+ */
+const runsToMarkdown = (runs: TextRun[], lineBreak: string) =>
+  groupLinkRuns(runs)
+    .map(({ url, runs: linkRuns }) => {
+      const markdown = linkRuns.map((run) => runToMarkdown(run, lineBreak)).join('');
+
+      return url ? `[${markdown}](${url.replace(/\(/g, '%28').replace(/\)/g, '%29')})` : markdown;
+    })
+    .join('');
+
+/**
+ * Converts the rows of a table to a Markdown table, whose first row is the header row Markdown requires.
+ * Markdown tables cannot merge cells, so a table with merged cells is written as HTML.
+ */
+const tableToMarkdown = (rows: ExportTableCell[][]) => {
+  if (rows.length === 0) return '';
+
+  if (rows.some((row) => row.some(({ colSpan, rowSpan }) => colSpan > 1 || rowSpan > 1))) {
+    return tableToHtml(rows);
+  }
+
+  const columnCount = Math.max(0, ...rows.map((row) => row.length));
+  const toLine = (cells: string[]) => `| ${cells.join(' | ')} |`;
+
+  const lines = rows.map((row) =>
+    toLine(Array.from({ length: columnCount }, (_, index) => (row[index] ? runsToMarkdown(row[index].runs, '<br>') : ''))),
+  );
+
+  return [lines[0], toLine(Array(columnCount).fill('---')), ...lines.slice(1)].join('\n');
+};
+
+/**
+ * Converts a list item to Markdown. Nested items are indented by four spaces per level,
+ * which is what the Markdown import expects.
+ */
+const listItemToMarkdown = ({ level, runs, listType, number, checked }: ExportBlock) => {
+  const marker = listType === 'number' ? `${number ?? 1}.` : listType === 'check' ? `- [${checked ? 'x' : ' '}]` : '-';
+
+  return `${'    '.repeat(level)}${marker} ${runsToMarkdown(runs, ' ')}`;
+};
+
+/**
+ * Converts an image to Markdown. Markdown images have no caption or width, so the caption is written as the title of the image.
+ */
+const imageToMarkdown = ({ src, altText, caption }: ExportImage, baseUrl: string) => {
+  const url = getImageUrl(src, baseUrl).replace(/\(/g, '%28').replace(/\)/g, '%29');
+  const title = caption ? ` "${caption.replace(/"/g, '\\"')}"` : '';
+
+  return `![${escapeMarkdown(altText)}](${url}${title})`;
+};
+
+/**
+ * Converts a single block to Markdown. Markdown cannot express alignment, so aligned
+ * blocks are written as HTML, which every common Markdown renderer accepts.
+ */
+const blockToMarkdown = (block: ExportBlock, baseUrl: string) => {
+  if (block.type === 'table') return tableToMarkdown(block.rows ?? []);
+
+  if (block.type === 'image' && block.image) return imageToMarkdown(block.image, baseUrl);
+
+  if (block.type === 'divider') return '---';
+
+  if (block.type === 'code') {
+    const code = getCodeText(block.runs);
+    // The fence must be longer than any run of backticks in the code.
+    const fence = '`'.repeat(Math.max(3, ...(code.match(/`+/g) ?? []).map(({ length }) => length + 1)));
+
+    return `${fence}${block.language ?? ''}\n${code}\n${fence}`;
+  }
+
+  if (block.align !== 'left') return blockToHtml(block, baseUrl);
+
+  if (block.type === 'heading') {
+    return `${'#'.repeat(block.level)} ${runsToMarkdown(block.runs, ' ')}`;
+  }
+
+  if (block.type === 'quote') {
+    return `> ${runsToMarkdown(block.runs, '\n> ')}`;
+  }
+
+  return runsToMarkdown(block.runs, '  \n');
+};
+
+/**
+ * Converts a serialized editor state to Markdown.
+ *
+ * @param {SerializedEditorState} state - The serialized editor state.
+ * @param {string} baseUrl - The URL of the application, which the paths of uploaded images are resolved against.
+ * @returns {string} The Markdown document.
+ */
+export const exportToMarkdown = (state: SerializedEditorState, baseUrl = '') =>
+  `${groupBlocks(getExportBlocks(state))
+    .map((group) => (Array.isArray(group) ? group.map(listItemToMarkdown).join('\n') : blockToMarkdown(group, baseUrl)))
+    .filter((block) => block.trim().length > 0)
+    .join('\n\n')}\n`;
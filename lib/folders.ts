@@ -0,0 +1,71 @@
+import { RoomData } from '@liveblocks/node';
+import { liveblocks } from './liveblocks';
+import { COLLECTIONS, listRecordKeys, readRecord } from './store';
+import { getAccessType, getUserType } from './utils';
+
+/**
+ * Reads every folder of the library, whoever has access to it.
+ *
+ * @returns {Promise<Folder[]>} A promise that resolves to the list of folders.
+ */
+export const readFolders = async () => {
+  const folderIds = await listRecordKeys(COLLECTIONS.folders);
+  const folders = await Promise.all(
+    folderIds.map((folderId) => readRecord<Folder | null>(COLLECTIONS.folders, folderId, null)),
+  );
+
+  return folders.filter((folder): folder is Folder => folder !== null);
+};
+
+/**
+ * Gives the members of a folder access to a document moved or created inside it.
+ * Members keep their role from the folder. Users who already have access to the document
+ * keep their current role, so that moving a document never downgrades anyone.
+ *
+ * @param {string} roomId - The ID of the room.
+ * @param {Folder} folder - The folder the room is in.
+ */
+export const shareWithFolderMembers = async (roomId: string, folder: Folder) => {
+  const room = await liveblocks.getRoom(roomId);
+
+  const usersAccesses: RoomAccesses = {};
+
+  Object.entries(folder.usersAccesses).forEach(([email, userType]) => {
+    if (!room.usersAccesses[email]) {
+      usersAccesses[email] = getAccessType(userType) as AccessType;
+    }
+  });
+
+  if (Object.keys(usersAccesses).length === 0) return;
+
+  // The Liveblocks SDK types do not list comments:write yet, so the accesses are cast.
+  await liveblocks.updateRoom(roomId, { usersAccesses: usersAccesses as Record<string, ['room:write']> });
+};
+
+/**
+ * Lists the rooms filed directly in a folder that a user can edit, one page at a time.
+ *
+ * @param {string} folderId - The ID of the folder.
+ * @param {string} email - The email of the user.
+ * @returns {Promise<RoomData[]>} A promise that resolves to the rooms.
+ */
+export const getEditableFolderRooms = async (folderId: string, email: string) => {
+  const rooms: RoomData[] = [];
+  let startingAfter: string | undefined;
+
+  do {
+    const { data, nextCursor } = await liveblocks.getRooms({
+      query: { metadata: { folderId } },
+      limit: 100,
+      startingAfter,
+    });
+
+    data
+      .filter((room) => getUserType(room.usersAccesses[email]) === 'editor')
+      .forEach((room) => rooms.push(room));
+
+    startingAfter = nextCursor ?? undefined;
+  } while (startingAfter);
+
+  return rooms;
+};
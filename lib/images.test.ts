@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { deleteRoomImages, InvalidImageError, readDocumentImages, readImage, saveImage } from './images';
+import { getStorage } from './storage';
+import { MAX_IMAGE_SIZE } from './utils';
+
+const createImageFile = (type = 'image/png', size = 16) => new File([new Uint8Array(size)], 'image', { type });
+
+// The ID of an image, as found at the end of the URL returned by saveImage.
+const getImageId = (url: string) => url.slice(url.lastIndexOf('/') + 1);
+
+// A serialized editor state with an image node for each URL.
+const createDocumentState = (...sources: string[]) => ({
+  root: {
+    type: 'root',
+    version: 1,
+    direction: null,
+    format: '',
+    indent: 0,
+    children: sources.map((src) => ({ type: 'image', version: 1, src, altText: '', caption: '', width: 'inherit' })),
+  },
+}) as never;
+
+describe('saveImage', () => {
+  it('stores the image under a new ID and returns the URL it is served from', async () => {
+    const url = await saveImage('room-1', createImageFile('image/jpeg'));
+
+    expect(url).toMatch(/^\/api\/images\/room-1\/[\w-]+\.jpg$/);
+    expect(await readImage('room-1', getImageId(url))).toEqual({ data: expect.any(Buffer), contentType: 'image/jpeg' });
+  });
+
+  it.each(['image/svg+xml', 'text/html', 'application/pdf', ''])('rejects files of type "%s"', async (type) => {
+    const put = vi.spyOn(getStorage(), 'put');
+
+    await expect(saveImage('room-1', createImageFile(type))).rejects.toThrow(InvalidImageError);
+    expect(put).not.toHaveBeenCalled();
+  });
+
+  it('accepts images up to MAX_IMAGE_SIZE, and rejects larger ones', async () => {
+    await expect(saveImage('room-1', createImageFile('image/png', MAX_IMAGE_SIZE))).resolves.toEqual(expect.any(String));
+    await expect(saveImage('room-1', createImageFile('image/png', MAX_IMAGE_SIZE + 1))).rejects.toThrow(InvalidImageError);
+  });
+});
+
+describe('readImage', () => {
+  it('returns null for an image that does not exist', async () => {
+    expect(await readImage('room-1', 'missing.png')).toBeNull();
+  });
+
+  it('returns null for an image of another room', async () => {
+    const url = await saveImage('room-1', createImageFile());
+
+    expect(await readImage('room-2', getImageId(url))).toBeNull();
+  });
+
+  it.each([
+    '../room-2/image.png',
+    '..%2Froom-2%2Fimage.png',
+    'image.svg',
+    'image.png.html',
+    '.png',
+  ])('rejects the ID "%s" without reading the storage', async (imageId) => {
+    const get = vi.spyOn(getStorage(), 'get');
+
+    expect(await readImage('room-1', imageId)).toBeNull();
+    expect(get).not.toHaveBeenCalled();
+  });
+});
+
+describe('readDocumentImages', () => {
+  it('reads the images of the room used in the document, leaving out the others', async () => {
+    const url = await saveImage('room-1', createImageFile('image/gif'));
+    const otherRoomUrl = await saveImage('room-2', createImageFile());
+
+    const images = await readDocumentImages('room-1', createDocumentState(url, url, otherRoomUrl, 'https://example.com/a.png'));
+
+    expect(images).toEqual({ [url]: { data: expect.any(Buffer), contentType: 'image/gif' } });
+  });
+});
+
+describe('deleteRoomImages', () => {
+  it('deletes every image of the room, and only those', async () => {
+    const first = await saveImage('room-1', createImageFile());
+    const second = await saveImage('room-1', createImageFile());
+    const otherRoom = await saveImage('room-10', createImageFile());
+
+    await deleteRoomImages('room-1');
+
+    expect(await readImage('room-1', getImageId(first))).toBeNull();
+    expect(await readImage('room-1', getImageId(second))).toBeNull();
+    expect(await readImage('room-10', getImageId(otherRoom))).not.toBeNull();
+  });
+});
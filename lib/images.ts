@@ -0,0 +1,103 @@
+import { SerializedEditorState } from 'lexical';
+import { nanoid } from 'nanoid';
+
+import { getExportBlocks } from './export';
+import { getStorage } from './storage';
+import { IMAGE_TYPES, MAX_IMAGE_SIZE } from './utils';
+
+/**
+ * The error thrown when an uploaded file is not an image that can be added to a document.
+ * Its message is shown to the user.
+ */
+export class InvalidImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidImageError';
+  }
+}
+
+// Images are served by the /api/images/[roomId]/[imageId] route, which checks the access of the user to the room.
+const IMAGES_PATH = '/api/images';
+
+// Image IDs are generated by saveImage, anything else is rejected before reaching the storage.
+const IMAGE_ID_PATTERN = /^[\w-]+\.(png|jpg|gif|webp)$/;
+
+/**
+ * Builds the storage key of an image. The images of a room share a prefix, so they can be deleted with it.
+ */
+const getImageKey = (roomId: string, imageId: string) => `images/${roomId}/${imageId}`;
+
+/**
+ * Stores an image uploaded to a room, under a new random ID.
+ *
+ * @param {string} roomId - The ID of the room the image is added to.
+ * @param {File} file - The uploaded file.
+ * @returns {Promise<string>} A promise that resolves to the URL the image is served from.
+ * @throws {InvalidImageError} If the file is not a supported image, or is too large.
+ */
+export const saveImage = async (roomId: string, file: File) => {
+  const extension = IMAGE_TYPES[file.type];
+
+  if (!extension) {
+    throw new InvalidImageError('Only PNG, JPEG, GIF and WebP images can be added to a document');
+  }
+
+  if (file.size > MAX_IMAGE_SIZE) {
+    throw new InvalidImageError(`Images must be smaller than ${MAX_IMAGE_SIZE / 1024 / 1024} MB`);
+  }
+
+  const imageId = `${nanoid()}.${extension}`;
+
+  await getStorage().put(getImageKey(roomId, imageId), Buffer.from(await file.arrayBuffer()));
+
+  return `${IMAGES_PATH}/${encodeURIComponent(roomId)}/${imageId}`;
+};
+
+/**
+ * Reads an image of a room. The caller must check that the user has access to the room first.
+ *
+ * @param {string} roomId - The ID of the room.
+ * @param {string} imageId - The ID of the image, as found in its URL.
+ * @returns {Promise<{ data: Buffer, contentType: string } | null>} A promise that resolves to the image, or null if it does not exist.
+ */
+export const readImage = async (roomId: string, imageId: string) => {
+  if (!IMAGE_ID_PATTERN.test(imageId)) return null;
+
+  const data = await getStorage().get(getImageKey(roomId, imageId));
+  if (!data) return null;
+
+  const extension = imageId.slice(imageId.lastIndexOf('.') + 1);
+  const contentType = Object.keys(IMAGE_TYPES).find((type) => IMAGE_TYPES[type] === extension) ?? 'application/octet-stream';
+
+  return { data, contentType };
+};
+
+/**
+ * Reads the images of a room used in a document, keyed by their URL, e.g. to embed them in a PDF.
+ * Images of other rooms are left out, because the access of the user to them has not been checked.
+ *
+ * @param {string} roomId - The ID of the room the document belongs to.
+ * @param {SerializedEditorState} state - The serialized editor state of the document.
+ * @returns {Promise<Record<string, { data: Buffer, contentType: string }>>} A promise that resolves to the images.
+ */
+export const readDocumentImages = async (roomId: string, state: SerializedEditorState) => {
+  const prefix = `${IMAGES_PATH}/${encodeURIComponent(roomId)}/`;
+  const sources = getExportBlocks(state).flatMap(({ image }) =>
+    image && image.src.startsWith(prefix) ? [image.src] : [],
+  );
+
+  const images = await Promise.all(
+    Array.from(new Set(sources)).map(async (src) => [src, await readImage(roomId, src.slice(prefix.length))] as const),
+  );
+
+  return Object.fromEntries(images.flatMap(([src, image]) => (image ? [[src, image]] : [])));
+};
+
+/**
+ * Deletes every image uploaded to a room.
+ *
+ * @param {string} roomId - The ID of the room.
+ */
+export const deleteRoomImages = async (roomId: string) => {
+  await getStorage().deletePrefix(`images/${roomId}`);
+};
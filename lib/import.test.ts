@@ -0,0 +1,149 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+
+import { importFile, markdownToContent } from './import';
+
+// The app imports files in the browser, where mammoth reads the .docx from an ArrayBuffer. Node.js resolves
+// the build of mammoth that reads files from disk instead, so the tests load the browser build.
+vi.mock('mammoth', async () => ({
+  default: (await vi.importActual<{ default: typeof import('mammoth') }>('mammoth/mammoth.browser.js')).default,
+}));
+
+type SerializedNode = { type: string; tag?: string; text?: string; url?: string; format?: number; listType?: string; children?: SerializedNode[] };
+
+// The top-level blocks of a serialized editor state.
+const getBlocks = (content: string): SerializedNode[] => JSON.parse(content).root.children;
+
+// The text of a node and of its descendants.
+const getText = (node: SerializedNode): string =>
+  node.type === 'linebreak' ? '\n' : node.text ?? (node.children ?? []).map(getText).join('');
+
+const findNodes = (node: SerializedNode, type: string): SerializedNode[] => [
+  ...(node.type === type ? [node] : []),
+  ...(node.children ?? []).flatMap((child) => findNodes(child, type)),
+];
+
+// The File of jsdom cannot be read with text() or arrayBuffer() like the File of browsers, so the test files read a copy of their bytes.
+const createFile = (name: string, data: string | Buffer) => {
+  const bytes = new Uint8Array(Buffer.from(data));
+
+  return Object.assign(new File([bytes], name), {
+    text: async () => new TextDecoder().decode(bytes),
+    arrayBuffer: async () => bytes.buffer,
+  });
+};
+
+describe('importFile', () => {
+  describe('Markdown', () => {
+    it('converts headings, formats, lists, quotes and code to blocks of the editor', async () => {
+      const { title, content, warnings } = await importFile(createFile('notes.md', [
+        '# Roadmap',
+        '',
+        'Ship **bold** and *italic* ideas.',
+        '',
+        '- First',
+        '- Second',
+        '',
+        '1. One',
+        '',
+        '> Quoted',
+        '',
+        '```',
+        'const a = 1;',
+        '```',
+      ].join('\n')));
+
+      const blocks = getBlocks(content);
+
+      expect(title).toBe('Roadmap');
+      expect(warnings).toEqual([]);
+      expect(blocks.map(({ type, tag, listType }) => listType ?? tag ?? type)).toEqual(['h1', 'paragraph', 'bullet', 'number', 'quote', 'code']);
+      expect(findNodes(blocks[1], 'text')).toEqual(expect.arrayContaining([
+        expect.objectContaining({ text: 'bold', format: 1 }),
+        expect.objectContaining({ text: 'italic', format: 2 }),
+      ]));
+      expect(blocks[2].children?.map(getText)).toEqual(['First', 'Second']);
+      expect(getText(blocks[5])).toBe('const a = 1;');
+    });
+
+    it('keeps safe links, and imports unsafe or relative ones as plain text', async () => {
+      const { content, warnings } = await importFile(createFile('links.md', '[site](https://example.com) [bad](javascript:void) [relative](/docs)'));
+      const [paragraph] = getBlocks(content);
+
+      expect(findNodes(paragraph, 'link').map(({ url }) => url)).toEqual(['https://example.com']);
+      expect(getText(paragraph)).toBe('site bad relative');
+      expect(warnings).toEqual(['Links with unsafe or relative URLs (2) were imported as plain text.']);
+    });
+
+    it('reports tables and images, which are imported as plain text', async () => {
+      const { content, warnings } = await importFile(createFile('table.md', '| a | b |\n| - | - |\n\n![logo](https://example.com/logo.png)'));
+
+      expect(warnings).toEqual(['Table rows (2) were imported as plain text.', 'Images (1) were imported as plain text.']);
+      expect(getBlocks(content).map(getText)).toEqual(['| a | b |\n| - | - |', '!logo']);
+    });
+
+    it('takes the title from the file name when there is no heading', async () => {
+      expect((await importFile(createFile('Meeting notes.markdown', 'Just text'))).title).toBe('Meeting notes');
+      expect((await importFile(createFile('.md', 'Just text'))).title).toBe('Untitled');
+    });
+  });
+
+  describe('HTML', () => {
+    it('converts the elements to blocks of the editor', async () => {
+      const { title, content, warnings } = await importFile(createFile('page.html', [
+        '<h2>Launch plan</h2>',
+        '<p>Go <strong>live</strong> with <a href="https://example.com">the site</a>.</p>',
+        '<ul><li>Test</li><li>Ship</li></ul>',
+        '<blockquote>Done is better than perfect</blockquote>',
+      ].join('')));
+
+      const blocks = getBlocks(content);
+
+      expect(title).toBe('Launch plan');
+      expect(warnings).toEqual([]);
+      expect(blocks.map(({ type, tag, listType }) => listType ?? tag ?? type)).toEqual(['h2', 'paragraph', 'bullet', 'quote']);
+      expect(getText(blocks[1])).toBe('Go live with the site.');
+      expect(findNodes(blocks[1], 'text')).toEqual(expect.arrayContaining([expect.objectContaining({ text: 'live', format: 1 })]));
+      expect(findNodes(blocks[1], 'link').map(({ url }) => url)).toEqual(['https://example.com']);
+    });
+
+    it('removes images and unsafe links, and reports them', async () => {
+      const { content, warnings } = await importFile(createFile('page.htm', '<p>Logo <img src="logo.png"> and <a href="javascript:alert(1)">a trap</a></p>'));
+
+      expect(findNodes(getBlocks(content)[0], 'link')).toEqual([]);
+      expect(getText(getBlocks(content)[0])).toContain('a trap');
+      expect(warnings).toEqual(['Images (1) were removed.', 'Links with unsafe or relative URLs (1) were imported as plain text.']);
+    });
+  });
+
+  describe('.docx', () => {
+    it('converts the document through HTML, and passes on the messages of the conversion', async () => {
+      const data = readFileSync(path.join(__dirname, '../test/fixtures/meeting-notes.docx'));
+      const { title, content, warnings } = await importFile(createFile('export (3).docx', data));
+
+      const blocks = getBlocks(content);
+
+      expect(title).toBe('Meeting notes');
+      expect(blocks.map(({ type, tag }) => tag ?? type)).toEqual(['h1', 'paragraph', 'paragraph']);
+      expect(blocks.map(getText)).toEqual(['Meeting notes', 'Decisions are final.', 'Styled paragraph']);
+      expect(findNodes(blocks[1], 'text')).toEqual(expect.arrayContaining([expect.objectContaining({ text: 'final', format: 1 })]));
+      expect(warnings).toEqual(["Unrecognised paragraph style: 'Fancy Quote' (Style ID: FancyQuote)"]);
+    });
+  });
+
+  it('rejects the files it cannot import', async () => {
+    await expect(importFile(createFile('notes.txt', 'text'))).rejects.toThrow('.txt files cannot be imported');
+    await expect(importFile(createFile('slides.pdf', 'text'))).rejects.toThrow('.pdf files cannot be imported');
+  });
+});
+
+describe('markdownToContent', () => {
+  it('converts Markdown to a serialized editor state, without reporting anything', () => {
+    const blocks = getBlocks(markdownToContent('## Agenda\n\n| a | b |'));
+
+    expect(blocks.map(({ type, tag }) => tag ?? type)).toEqual(['h2', 'paragraph']);
+    expect(blocks.map(getText)).toEqual(['Agenda', '| a | b |']);
+  });
+});
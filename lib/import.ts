@@ -0,0 +1,196 @@
+import { $convertFromMarkdownString } from '@lexical/markdown';
+import { $generateNodesFromDOM } from '@lexical/html';
+import { $isLinkNode } from '@lexical/link';
+import { $isHeadingNode } from '@lexical/rich-text';
+import { $dfs } from '@lexical/utils';
+import { $getRoot, $insertNodes, createEditor } from 'lexical';
+import mammoth from 'mammoth';
+
+import MARKDOWN_TRANSFORMERS from '@/components/editor/markdown';
+import EditorNodes from '@/components/editor/nodes';
+import { isSafeUrl } from './utils';
+
+// The file extensions that can be imported.
+export const IMPORT_EXTENSIONS = ['.md', '.markdown', '.html', '.htm', '.docx'];
+
+/**
+ * A construct that the editor cannot represent yet. When it is found in an imported
+ * file, the user is told what happened to it instead of losing it silently.
+ */
+type UnsupportedConstruct = {
+  label: string;
+  outcome: string;
+};
+
+/**
+ * HTML elements without a matching node in EditorNodes, keyed by CSS selector.
+ * The text of most of them is kept as plain paragraphs, and the rest is removed.
+ */
+const UNSUPPORTED_HTML: Record<string, UnsupportedConstruct> = {
+  'img': { label: 'Images', outcome: 'were removed' },
+};
+
+/**
+ * Markdown constructs without a matching transformer in MARKDOWN_TRANSFORMERS, keyed by pattern.
+ * Their source is kept as literal text.
+ */
+const UNSUPPORTED_MARKDOWN: Array<[RegExp, UnsupportedConstruct]> = [
+  [/^\s*\|.*\|\s*$/gm, { label: 'Table rows', outcome: 'were imported as plain text' }],
+  [/!\[[^\]]*\]\([^)]*\)/g, { label: 'Images', outcome: 'were imported as plain text' }],
+];
+
+// Links whose URL is relative or uses an unsafe protocol, e.g. javascript:, lose their URL.
+const UNSAFE_LINKS: UnsupportedConstruct = { label: 'Links with unsafe or relative URLs', outcome: 'were imported as plain text' };
+
+/**
+ * Builds the warning shown to the user for an unsupported construct.
+ */
+const getWarning = ({ label, outcome }: UnsupportedConstruct, count: number) =>
+  `${label} (${count}) ${outcome}.`;
+
+/**
+ * Replaces the links of the editor whose URL is not safe with their text.
+ *
+ * @returns {number} The number of links that were removed.
+ */
+const $removeUnsafeLinks = () => {
+  const unsafeLinks = $dfs()
+    .map(({ node }) => node)
+    .filter($isLinkNode)
+    .filter((link) => !isSafeUrl(link.getURL()));
+
+  unsafeLinks.forEach((link) => {
+    link.getChildren().forEach((child) => link.insertBefore(child));
+    link.remove();
+  });
+
+  return unsafeLinks.length;
+};
+
+/**
+ * Creates an editor that is never attached to the DOM. It registers the same nodes as
+ * the collaborative editor, so the state it produces can be loaded into a room.
+ */
+const createImportEditor = () =>
+  createEditor({
+    namespace: 'Import',
+    nodes: EditorNodes,
+    onError: (error: Error) => {
+      throw error;
+    },
+  });
+
+/**
+ * Returns the text of the first heading of the editor, if there is one.
+ */
+const getFirstHeading = (editor: ReturnType<typeof createImportEditor>) =>
+  editor.getEditorState().read(() => {
+    const heading = $getRoot().getChildren().find($isHeadingNode);
+
+    return heading?.getTextContent().trim() || null;
+  });
+
+/**
+ * Converts a Markdown string to a serialized editor state.
+ */
+const importMarkdown = (markdown: string) => {
+  const editor = createImportEditor();
+  const warnings = UNSUPPORTED_MARKDOWN.flatMap(([pattern, construct]) => {
+    const count = markdown.match(pattern)?.length ?? 0;
+
+    return count > 0 ? [getWarning(construct, count)] : [];
+  });
+
+  editor.update(() => {
+    $convertFromMarkdownString(markdown, MARKDOWN_TRANSFORMERS);
+
+    const unsafeLinks = $removeUnsafeLinks();
+    if (unsafeLinks > 0) warnings.push(getWarning(UNSAFE_LINKS, unsafeLinks));
+  }, { discrete: true });
+
+  return { editor, warnings };
+};
+
+/**
+ * Converts a Markdown string to a serialized editor state, e.g. for the built-in templates.
+ * Unlike importFile, unsupported constructs are not reported.
+ *
+ * @param {string} markdown - The Markdown to convert.
+ * @returns {string} The serialized editor state.
+ */
+export const markdownToContent = (markdown: string) =>
+  JSON.stringify(importMarkdown(markdown).editor.getEditorState().toJSON());
+
+/**
+ * Converts an HTML string to a serialized editor state.
+ */
+const importHtml = (html: string) => {
+  const editor = createImportEditor();
+  const dom = new DOMParser().parseFromString(html, 'text/html');
+  const warnings = Object.entries(UNSUPPORTED_HTML).flatMap(([selector, construct]) => {
+    const count = dom.body.querySelectorAll(selector).length;
+
+    return count > 0 ? [getWarning(construct, count)] : [];
+  });
+
+  editor.update(() => {
+    const nodes = $generateNodesFromDOM(editor, dom);
+
+    // $insertNodes wraps inline nodes in paragraphs, which the root node requires.
+    $getRoot().clear().select();
+    $insertNodes(nodes);
+
+    const unsafeLinks = $removeUnsafeLinks();
+    if (unsafeLinks > 0) warnings.push(getWarning(UNSAFE_LINKS, unsafeLinks));
+  }, { discrete: true });
+
+  return { editor, warnings };
+};
+
+/**
+ * Converts a .docx file to HTML with mammoth, then imports the HTML.
+ * The messages reported by mammoth (e.g. unrecognised styles) are passed on to the user.
+ */
+const importDocx = async (file: File) => {
+  const { value, messages } = await mammoth.convertToHtml({ arrayBuffer: await file.arrayBuffer() });
+  const { editor, warnings } = importHtml(value);
+
+  return {
+    editor,
+    warnings: [...warnings, ...messages.map(({ message }) => message)],
+  };
+};
+
+/**
+ * Converts a Markdown, HTML or .docx file to the content of a new document.
+ *
+ * The title is taken from the first heading of the document, or from the file name
+ * when there is no heading. Constructs that the editor does not support are listed
+ * in `warnings`, so they can be reported to the user before the document is created.
+ *
+ * @param {File} file - The uploaded file.
+ * @returns {Promise<ImportResult>} A promise that resolves to the title, the serialized editor state and the warnings.
+ * @throws {Error} If the file type is not supported.
+ */
+export const importFile = async (file: File): Promise<ImportResult> => {
+  const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+
+  if (!IMPORT_EXTENSIONS.includes(extension)) {
+    throw new Error(`${extension} files cannot be imported. Please upload a Markdown, HTML or .docx file.`);
+  }
+
+  const { editor, warnings } =
+    extension === '.docx'
+      ? await importDocx(file)
+      : extension === '.html' || extension === '.htm'
+        ? importHtml(await file.text())
+        : importMarkdown(await file.text());
+
+  const fileName = file.name.slice(0, file.name.lastIndexOf('.')).trim();
+
+  return {
+    title: getFirstHeading(editor) || fileName || 'Untitled',
+    content: JSON.stringify(editor.getEditorState().toJSON()),
+    warnings,
+  };
+};
@@ -0,0 +1,275 @@
+import PDFDocument from 'pdfkit';
+import { SerializedEditorState } from 'lexical';
+
+import { ExportBlock, ExportImage, ExportTableCell, getExportBlocks, TextRun } from './export';
+
+// Font sizes of the blocks, in points.
+const HEADING_SIZES: Record<number, number> = { 1: 24, 2: 18, 3: 15 };
+const BODY_SIZE = 11;
+const CODE_SIZE = 9;
+
+// Links are blue and underlined, like in the editor.
+const LINK_COLOR = '#216fdb';
+
+// Indentation of quotes and of each level of a list, in points.
+const INDENT = 20;
+
+// Space between the border of a table cell and its text, in points.
+const CELL_PADDING = 4;
+
+// The image formats pdfkit can embed.
+const PDF_IMAGE_TYPES = ['image/png', 'image/jpeg'];
+
+// The size of a CSS pixel, in points.
+const PIXEL = 0.75;
+
+const PLAIN_RUN: TextRun = { text: '', bold: false, italic: false, underline: false, strikethrough: false, code: false };
+
+/**
+ * Picks the standard PDF font that matches the inline formats of a run.
+ */
+const getFont = ({ bold, italic, code }: TextRun) => {
+  if (code) return 'Courier';
+  if (bold && italic) return 'Helvetica-BoldOblique';
+  if (bold) return 'Helvetica-Bold';
+  if (italic) return 'Helvetica-Oblique';
+
+  return 'Helvetica';
+};
+
+/**
+ * Returns the marker written before a list item. The standard PDF fonts have no
+ * checkbox glyphs, so checklist items are marked with brackets.
+ */
+const getListMarker = ({ listType, number, checked }: ExportBlock) => {
+  if (listType === 'number') return `${number ?? 1}. `;
+  if (listType === 'check') return checked ? '[x] ' : '[ ] ';
+
+  return '\u2022 ';
+};
+
+/**
+ * Places the cells of a table on a grid. A merged cell covers the following rows, so the
+ * cells of those rows start after the columns it covers.
+ */
+const getTableLayout = (rows: ExportTableCell[][]) => {
+  const covered: boolean[][] = rows.map(() => []);
+  const cells: Array<{ cell: ExportTableCell; row: number; column: number }> = [];
+  let columnCount = 0;
+
+  rows.forEach((row, rowIndex) => {
+    let column = 0;
+
+    row.forEach((cell) => {
+      while (covered[rowIndex][column]) column += 1;
+
+      for (let r = rowIndex; r < Math.min(rows.length, rowIndex + cell.rowSpan); r += 1) {
+        for (let c = column; c < column + cell.colSpan; c += 1) covered[r][c] = true;
+      }
+
+      cells.push({ cell, row: rowIndex, column });
+      column += cell.colSpan;
+      columnCount = Math.max(columnCount, column);
+    });
+  });
+
+  return { cells, columnCount };
+};
+
+/**
+ * Draws a table with equal columns across the width of the page. Each row is as tall as its
+ * tallest cell, and rows that do not fit on the page start a new one.
+ */
+const drawTable = (doc: PDFKit.PDFDocument, rows: ExportTableCell[][]) => {
+  const { cells, columnCount } = getTableLayout(rows);
+  if (columnCount === 0) return;
+
+  const left = doc.page.margins.left;
+  const columnWidth = (doc.page.width - left - doc.page.margins.right) / columnCount;
+  const getTextWidth = (colSpan: number) => columnWidth * colSpan - CELL_PADDING * 2;
+  const getText = ({ runs }: ExportTableCell) => runs.map(({ text }) => text).join('') || ' ';
+
+  doc.fontSize(BODY_SIZE);
+
+  // Rows are as tall as their cells that span a single row, and the last row covered by a merged cell grows to fit it.
+  const rowHeights = rows.map(() => doc.currentLineHeight() + CELL_PADDING * 2);
+  cells
+    .slice()
+    .sort((a, b) => a.cell.rowSpan - b.cell.rowSpan)
+    .forEach(({ cell, row }) => {
+      const lastRow = Math.min(rows.length, row + cell.rowSpan) - 1;
+      const height = doc
+        .font(cell.header ? 'Helvetica-Bold' : 'Helvetica')
+        .heightOfString(getText(cell), { width: getTextWidth(cell.colSpan) }) + CELL_PADDING * 2;
+      const spannedHeight = rowHeights.slice(row, lastRow + 1).reduce((sum, rowHeight) => sum + rowHeight, 0);
+
+      if (height > spannedHeight) rowHeights[lastRow] += height - spannedHeight;
+    });
+
+  // Rows joined by merged cells are kept on the same page.
+  const lastRows = rows.map((_, rowIndex) =>
+    Math.max(rowIndex, ...cells.filter(({ row }) => row === rowIndex).map(({ cell }) => Math.min(rows.length, rowIndex + cell.rowSpan) - 1)),
+  );
+  const rowTops: number[] = [];
+  let y = doc.y;
+  let groupEnd = -1;
+
+  rows.forEach((_, rowIndex) => {
+    if (rowIndex > groupEnd) {
+      groupEnd = rowIndex;
+      for (let r = rowIndex; r <= groupEnd; r += 1) groupEnd = Math.max(groupEnd, lastRows[r]);
+
+      const groupHeight = rowHeights.slice(rowIndex, groupEnd + 1).reduce((sum, rowHeight) => sum + rowHeight, 0);
+
+      if (y + groupHeight > doc.page.height - doc.page.margins.bottom && y > doc.page.margins.top) {
+        doc.addPage();
+        y = doc.page.margins.top;
+      }
+    }
+
+    rowTops.push(y);
+    y += rowHeights[rowIndex];
+
+    cells.filter(({ row }) => row === rowIndex).forEach(({ cell, column }) => {
+      const x = left + columnWidth * column;
+      const top = rowTops[rowIndex];
+      const height = rowHeights.slice(rowIndex, rowIndex + cell.rowSpan).reduce((sum, rowHeight) => sum + rowHeight, 0);
+      const runs = cell.runs.length > 0 ? cell.runs : [{ ...PLAIN_RUN, text: ' ' }];
+
+      doc.rect(x, top, columnWidth * cell.colSpan, height).lineWidth(0.5).strokeColor('#ced0d4').stroke();
+
+      runs.forEach((run, index) => {
+        doc
+          .font(cell.header && !run.code ? 'Helvetica-Bold' : getFont(run))
+          .fillColor(run.url ? LINK_COLOR : '#000000');
+
+        const options = {
+          width: getTextWidth(cell.colSpan),
+          continued: index < runs.length - 1,
+          underline: run.underline || !!run.url,
+          strike: run.strikethrough,
+          link: run.url ?? null,
+        };
+
+        if (index === 0) {
+          doc.text(run.text, x + CELL_PADDING, top + CELL_PADDING, options);
+        } else {
+          doc.text(run.text, options);
+        }
+      });
+    });
+  });
+
+  doc.x = left;
+  doc.y = y;
+};
+
+/**
+ * Draws an image centered on the page, at its width in the editor or its natural size, with its caption below.
+ * Images that cannot be embedded are replaced by their alternative text.
+ */
+const drawImage = (doc: PDFKit.PDFDocument, { altText, caption, width }: ExportImage, image?: { data: Buffer; contentType: string }) => {
+  const left = doc.page.margins.left;
+  const contentWidth = doc.page.width - left - doc.page.margins.right;
+
+  doc.fontSize(BODY_SIZE).font('Helvetica-Oblique').fillColor('#65676b');
+
+  if (!image || !PDF_IMAGE_TYPES.includes(image.contentType)) {
+    doc.text(`[Image${altText ? `: ${altText}` : ''}]`, left, doc.y, { align: 'center', width: contentWidth });
+  } else {
+    // openImage is missing from the pdfkit types. It reads the size of the image, which is needed to break the page before it.
+    const size = (doc as PDFKit.PDFDocument & { openImage: (src: Buffer) => { width: number; height: number } }).openImage(image.data);
+    const imageWidth = Math.min(contentWidth, (width ?? size.width) * PIXEL);
+    const imageHeight = (size.height * imageWidth) / size.width;
+
+    if (doc.y + imageHeight > doc.page.height - doc.page.margins.bottom) doc.addPage();
+
+    doc.image(image.data, left + (contentWidth - imageWidth) / 2, doc.y, { width: imageWidth });
+    doc.y += imageHeight + 4;
+  }
+
+  if (caption) {
+    doc.text(caption, left, doc.y, { align: 'center', width: contentWidth });
+  }
+
+  doc.x = left;
+};
+
+/**
+ * Renders a serialized editor state to a print-ready A4 PDF.
+ *
+ * Each block is written as a sequence of runs, using pdfkit's `continued` option so
+ * that bold, italic, underline and strikethrough can change inside a paragraph while
+ * the text keeps wrapping and aligning as a single block.
+ *
+ * @param {SerializedEditorState} state - The serialized editor state.
+ * @param {string} title - The title of the document, stored in the PDF metadata.
+ * @param {Record<string, { data: Buffer, contentType: string }>} images - The images of the document, keyed by their URL.
+ * @returns {Promise<Buffer>} A promise that resolves to the PDF file.
+ */
+export const renderPdf = (
+  state: SerializedEditorState,
+  title: string,
+  images: Record<string, { data: Buffer; contentType: string }> = {},
+) => {
+  return new Promise<Buffer>((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 56, info: { Title: title } });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    getExportBlocks(state).forEach((block) => {
+      if (block.type === 'table') {
+        drawTable(doc, block.rows ?? []);
+        doc.moveDown(0.8);
+        return;
+      }
+
+      if (block.type === 'divider') {
+        const left = doc.page.margins.left;
+
+        doc.moveDown(0.4);
+        doc.moveTo(left, doc.y).lineTo(doc.page.width - doc.page.margins.right, doc.y).lineWidth(1).strokeColor('#ced0d4').stroke();
+        doc.moveDown(0.8);
+        return;
+      }
+
+      if (block.type === 'image' && block.image) {
+        drawImage(doc, block.image, images[block.image.src]);
+        doc.moveDown(0.8);
+        return;
+      }
+
+      const isHeading = block.type === 'heading';
+      const isQuote = block.type === 'quote';
+      const isListItem = block.type === 'listitem';
+      const isCode = block.type === 'code';
+      const content = block.runs.length > 0 ? block.runs : [{ text: ' ' } as TextRun];
+      const runs = isListItem ? [{ ...PLAIN_RUN, text: getListMarker(block) }, ...content] : content;
+
+      // Quotes, code blocks and list items are indented, every other block starts at the left margin.
+      doc.x = doc.page.margins.left + (isQuote || isCode ? INDENT : isListItem ? INDENT * (block.level + 1) : 0);
+      doc.fontSize(isHeading ? HEADING_SIZES[block.level] ?? BODY_SIZE : isCode ? CODE_SIZE : BODY_SIZE);
+
+      // The standard PDF fonts have no tab glyph, so code is indented with spaces.
+      runs.forEach((run, index) => {
+        doc
+          .font(isHeading && !run.code ? 'Helvetica-Bold' : getFont(run))
+          .fillColor(run.url ? LINK_COLOR : isQuote ? '#65676b' : '#000000')
+          .text(isCode ? run.text.replace(/\t/g, '  ') : run.text, {
+            align: block.align,
+            continued: index < runs.length - 1,
+            underline: run.underline || !!run.url,
+            strike: run.strikethrough,
+            link: run.url ?? null,
+          });
+      });
+
+      doc.moveDown(isHeading ? 0.6 : isListItem ? 0.3 : 0.8);
+    });
+
+    doc.end();
+  });
+};
@@ -0,0 +1,142 @@
+import { SerializedEditorState } from 'lexical';
+import { getExportBlocks } from './export';
+
+// The number of characters shown on each side of a match in a snippet.
+const SNIPPET_CONTEXT = 60;
+
+// The maximum number of snippets returned for a single document.
+const MAX_SNIPPETS = 3;
+
+/**
+ * Extracts the plain text of a serialized editor state, one line per block.
+ * This is what the search index stores for each document.
+ *
+ * @param {SerializedEditorState} state - The serialized editor state.
+ * @returns {string} The text of the document.
+ */
+export const getSearchText = (state: SerializedEditorState) =>
+  getExportBlocks(state)
+    .map(({ runs }) => runs.map(({ text }) => text).join('').replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+
+/**
+ * Splits a search query into lowercase terms. Duplicate terms are removed.
+ *
+ * @param {string} query - The query typed by the user.
+ * @returns {string[]} The terms of the query.
+ */
+export const getSearchTerms = (query: string) =>
+  Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean)));
+
+/**
+ * Finds every occurrence of the terms in a text, sorted by position. Overlapping matches are merged.
+ */
+const findMatches = (text: string, terms: string[]) => {
+  const lowerText = text.toLowerCase();
+  const matches: [number, number][] = [];
+
+  terms.forEach((term) => {
+    let index = lowerText.indexOf(term);
+
+    while (index !== -1) {
+      matches.push([index, index + term.length]);
+      index = lowerText.indexOf(term, index + term.length);
+    }
+  });
+
+  return matches
+    .sort((a, b) => a[0] - b[0])
+    .reduce<[number, number][]>((merged, match) => {
+      const last = merged[merged.length - 1];
+
+      if (last && match[0] <= last[1]) {
+        last[1] = Math.max(last[1], match[1]);
+      } else {
+        merged.push(match);
+      }
+
+      return merged;
+    }, []);
+};
+
+/**
+ * Splits a piece of text into parts, flagging the ones that match the terms so they can be highlighted.
+ */
+const toSnippetParts = (text: string, matches: [number, number][], start = 0, end = text.length) => {
+  const parts: SearchSnippetPart[] = [];
+  let position = start;
+
+  matches
+    .filter(([matchStart, matchEnd]) => matchStart >= start && matchEnd <= end)
+    .forEach(([matchStart, matchEnd]) => {
+      if (matchStart > position) parts.push({ text: text.slice(position, matchStart), match: false });
+      parts.push({ text: text.slice(matchStart, matchEnd), match: true });
+      position = matchEnd;
+    });
+
+  if (position < end) parts.push({ text: text.slice(position, end), match: false });
+
+  return parts;
+};
+
+/**
+ * Checks whether a document matches a query. Every term must appear in the title or in the body.
+ *
+ * @param {string} title - The title of the document.
+ * @param {string} text - The indexed text of the document.
+ * @param {string[]} terms - The terms of the query, as returned by getSearchTerms.
+ * @returns {boolean} True if the document matches.
+ */
+export const matchesSearch = (title: string, text: string, terms: string[]) => {
+  const content = `${title}\n${text}`.toLowerCase();
+
+  return terms.length > 0 && terms.every((term) => content.includes(term));
+};
+
+/**
+ * Highlights the terms of a query in a title.
+ *
+ * @param {string} title - The title of the document.
+ * @param {string[]} terms - The terms of the query.
+ * @returns {SearchSnippetPart[]} The parts of the title.
+ */
+export const highlightTitle = (title: string, terms: string[]) => toSnippetParts(title, findMatches(title, terms));
+
+/**
+ * Builds short snippets of text around the matches of a query, with the matches flagged for highlighting.
+ * Matches that are close to each other share a snippet.
+ *
+ * @param {string} text - The indexed text of the document.
+ * @param {string[]} terms - The terms of the query.
+ * @returns {SearchSnippet[]} Up to three snippets, in the order they appear in the document.
+ */
+export const getSearchSnippets = (text: string, terms: string[]) => {
+  const matches = findMatches(text, terms);
+  const snippets: SearchSnippet[] = [];
+  let lastEnd = -1;
+
+  for (const [matchStart, matchEnd] of matches) {
+    if (snippets.length === MAX_SNIPPETS) break;
+
+    // The match is already visible in the previous snippet.
+    if (matchEnd <= lastEnd) continue;
+
+    // Snippets never span several blocks of the document.
+    const lineStart = text.lastIndexOf('\n', matchStart - 1) + 1;
+    const lineEnd = text.indexOf('\n', matchEnd) === -1 ? text.length : text.indexOf('\n', matchEnd);
+    const start = Math.max(lineStart, lastEnd, matchStart - SNIPPET_CONTEXT);
+    const end = Math.min(lineEnd, matchEnd + SNIPPET_CONTEXT);
+
+    snippets.push({
+      term: text.slice(matchStart, matchEnd),
+      parts: toSnippetParts(text, matches, start, end),
+      truncatedStart: start > lineStart,
+      truncatedEnd: end < lineEnd,
+    });
+
+    lastEnd = end;
+  }
+
+  return snippets;
+};
@@ -0,0 +1,123 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { liveblocks } from './liveblocks';
+import { COLLECTIONS, deleteRecord, readRecord, updateRecord } from './store';
+import { getAccessType, getUserType, hasRole } from './utils';
+
+/**
+ * Generates a random, URL safe token for a share link.
+ */
+export const generateShareLinkToken = () => randomBytes(24).toString('base64url');
+
+/**
+ * Hashes the password of a share link with a random salt. Only the hash is ever stored.
+ *
+ * @param {string} password - The password chosen by the editor.
+ * @returns {string} The salt and the hash, separated by a colon.
+ */
+export const hashShareLinkPassword = (password: string) => {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, 64).toString('hex');
+
+  return `${salt}:${hash}`;
+};
+
+/**
+ * Checks a password against the hash stored for a share link, in constant time.
+ *
+ * @param {string} password - The password typed by the visitor.
+ * @param {string} passwordHash - The stored salt and hash.
+ * @returns {boolean} True if the password is correct.
+ */
+export const verifyShareLinkPassword = (password: string, passwordHash: string) => {
+  const [salt, hash] = passwordHash.split(':');
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, 64);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+// The number of incorrect passwords after which a share link is locked.
+const MAX_PASSWORD_ATTEMPTS = 5;
+
+// How long a share link stays locked after too many incorrect passwords, in minutes.
+const PASSWORD_LOCKOUT_MINUTES = 15;
+
+/**
+ * Returns until when the password of a share link cannot be tried, after too many incorrect passwords.
+ *
+ * @param {string} roomId - The ID of the room.
+ * @returns {Promise<Date | null>} A promise that resolves to the end of the lockout, or null if the link is not locked.
+ */
+export const getShareLinkLockout = async (roomId: string) => {
+  const { lockedUntil } = await readRecord<ShareLinkAttempts>(COLLECTIONS.shareLinkAttempts, roomId, { failures: 0, lockedUntil: null });
+
+  return lockedUntil && new Date(lockedUntil).getTime() > Date.now() ? new Date(lockedUntil) : null;
+};
+
+/**
+ * Counts an incorrect password typed for a share link. The counter is kept per link rather than per visitor,
+ * so guessing from several accounts does not help: once MAX_PASSWORD_ATTEMPTS incorrect passwords have been typed,
+ * the link is locked for everyone for PASSWORD_LOCKOUT_MINUTES.
+ *
+ * @param {string} roomId - The ID of the room.
+ * @returns {Promise<ShareLinkAttempts>} A promise that resolves to the updated counter.
+ */
+export const recordFailedShareLinkAttempt = async (roomId: string) =>
+  updateRecord<ShareLinkAttempts>(COLLECTIONS.shareLinkAttempts, roomId, { failures: 0, lockedUntil: null }, ({ failures }) => {
+    if (failures + 1 < MAX_PASSWORD_ATTEMPTS) return { failures: failures + 1, lockedUntil: null };
+
+    return { failures: 0, lockedUntil: new Date(Date.now() + PASSWORD_LOCKOUT_MINUTES * 60 * 1000).toISOString() };
+  });
+
+/**
+ * Forgets the incorrect passwords typed for a share link, once the right one is typed or the link changes.
+ *
+ * @param {string} roomId - The ID of the room.
+ */
+export const resetShareLinkAttempts = async (roomId: string) => {
+  await deleteRecord(COLLECTIONS.shareLinkAttempts, roomId);
+};
+
+/**
+ * Reads the share link of a room and checks that a visitor can use it.
+ * The link must exist, its token must match, it must not have expired and the document must not be in the trash.
+ *
+ * @param {string} roomId - The ID of the room.
+ * @param {string} token - The token from the URL of the link.
+ * @returns {Promise<ShareLink | null>} A promise that resolves to the link, or null if it cannot be used.
+ */
+export const getValidShareLink = async (roomId: string, token: string) => {
+  const link = await readRecord<ShareLink | null>(COLLECTIONS.shareLinks, roomId, null);
+
+  if (!link || link.token.length !== token.length || !timingSafeEqual(Buffer.from(link.token), Buffer.from(token))) {
+    return null;
+  }
+
+  if (link.expiresAt && new Date(link.expiresAt).getTime() < Date.now()) return null;
+
+  // Documents in the trash cannot be opened, so their links stop working until they are restored.
+  const room = await liveblocks.getRoom(roomId);
+
+  if (room.metadata.trashed) return null;
+
+  return link;
+};
+
+/**
+ * Adds a visitor of a share link to the collaborators of the room, with the role of the link.
+ * Collaborators who already have the same or a higher role keep it.
+ *
+ * @param {ShareLink} link - The share link the visitor used.
+ * @param {string} email - The email of the visitor.
+ */
+export const grantShareLinkAccess = async (link: ShareLink, email: string) => {
+  const room = await liveblocks.getRoom(link.roomId);
+  const accesses = room.usersAccesses[email];
+
+  if (accesses && hasRole(getUserType(accesses), link.userType)) return;
+
+  // The Liveblocks SDK types do not list comments:write yet, so the accesses are cast.
+  await liveblocks.updateRoom(link.roomId, {
+    usersAccesses: { [email]: getAccessType(link.userType) } as Record<string, ['room:write']>,
+  });
+};
@@ -0,0 +1,58 @@
+import { existsSync, mkdtempSync, readdirSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { createLocalStorage, StorageBackend } from './storage';
+
+describe('createLocalStorage', () => {
+  let parentDir: string;
+  let directory: string;
+  let storage: StorageBackend;
+
+  beforeEach(() => {
+    // The storage directory is nested, so the tests can check that nothing is written next to it.
+    parentDir = mkdtempSync(path.join(os.tmpdir(), 'cloudscript-storage-'));
+    directory = path.join(parentDir, 'uploads');
+    storage = createLocalStorage(directory);
+  });
+
+  afterEach(() => {
+    rmSync(parentDir, { recursive: true, force: true });
+  });
+
+  it('reads back the files it stores, and null for missing keys', async () => {
+    await storage.put('images/room-1/a.png', Buffer.from('first'));
+    await storage.put('images/room-1/a.png', Buffer.from('second'));
+
+    expect((await storage.get('images/room-1/a.png'))?.toString()).toBe('second');
+    expect(await storage.get('images/room-1/b.png')).toBeNull();
+  });
+
+  it('keeps every key inside its directory', async () => {
+    await storage.put('../escaped', Buffer.from('data'));
+    await storage.put('images/../../escaped', Buffer.from('data'));
+    await storage.put('images/room%2F..%2F..%2Fescaped/a.png', Buffer.from('data'));
+
+    expect(readdirSync(parentDir)).toEqual(['uploads']);
+    expect((await storage.get('../escaped'))?.toString()).toBe('data');
+  });
+
+  it('deletes the files under a prefix, and only those', async () => {
+    await storage.put('images/room-1/a.png', Buffer.from('data'));
+    await storage.put('images/room-1/b.png', Buffer.from('data'));
+    await storage.put('images/room-10/a.png', Buffer.from('data'));
+
+    await storage.deletePrefix('images/room-1');
+
+    expect(await storage.get('images/room-1/a.png')).toBeNull();
+    expect(await storage.get('images/room-1/b.png')).toBeNull();
+    expect(await storage.get('images/room-10/a.png')).not.toBeNull();
+  });
+
+  it('does nothing when deleting a prefix without files', async () => {
+    await storage.deletePrefix('images/missing-room');
+
+    expect(existsSync(directory)).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { DATA_DIR, isErrnoException } from './store';
+
+/**
+ * A place where uploaded files are kept, e.g. the local file system or an object storage service.
+ * Files are addressed by keys made of "/" separated segments, like paths. The backend does not
+ * check who is allowed to read a file: callers must authorize the request first.
+ */
+export type StorageBackend = {
+  /** Stores a file, replacing any file stored under the same key. */
+  put: (key: string, data: Buffer) => Promise<void>;
+  /** Reads a file, or returns null if nothing is stored under the key. */
+  get: (key: string) => Promise<Buffer | null>;
+  /** Deletes every file whose key starts with the prefix, followed by "/". */
+  deletePrefix: (prefix: string) => Promise<void>;
+};
+
+/**
+ * Builds the absolute path of a key inside a directory. Every segment is encoded, including the "." and ".."
+ * segments that encodeURIComponent leaves alone, so a key can never point outside of the directory.
+ */
+const getFilePath = (directory: string, key: string) =>
+  path.join(directory, ...key.split('/').map((segment) =>
+    segment === '.' || segment === '..' ? segment.replaceAll('.', '%2E') : encodeURIComponent(segment),
+  ));
+
+/**
+ * A backend that keeps files in a directory of the local file system, next to the records of the store.
+ * It is meant for development and tests, as the files are lost with the server on most hosting platforms.
+ *
+ * @param {string} directory - The directory where files are written.
+ * @returns {StorageBackend} The backend.
+ */
+export const createLocalStorage = (directory = path.join(DATA_DIR, 'uploads')): StorageBackend => ({
+  put: async (key, data) => {
+    const filePath = getFilePath(directory, key);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  },
+  get: async (key) => {
+    try {
+      return await fs.readFile(getFilePath(directory, key));
+    } catch (error) {
+      if (isErrnoException(error, 'ENOENT')) return null;
+
+      throw error;
+    }
+  },
+  deletePrefix: async (prefix) => {
+    await fs.rm(getFilePath(directory, prefix), { recursive: true, force: true });
+  },
+});
+
+/**
+ * The storage backends that can be selected with the STORAGE_BACKEND variable, keyed by name.
+ * Other backends are added with registerStorageBackend.
+ */
+const STORAGE_BACKENDS: Record<string, () => StorageBackend> = {
+  local: () => createLocalStorage(),
+};
+
+let storage: StorageBackend | null = null;
+
+/**
+ * Makes a storage backend available under a name, so it can be selected with STORAGE_BACKEND=<name>.
+ * Backends must be registered before the first call to getStorage, e.g. from instrumentation.ts.
+ *
+ * @param {string} name - The name of the backend.
+ * @param {() => StorageBackend} createBackend - Creates the backend the first time it is used.
+ */
+export const registerStorageBackend = (name: string, createBackend: () => StorageBackend) => {
+  STORAGE_BACKENDS[name] = createBackend;
+};
+
+/**
+ * Returns the storage backend selected with the STORAGE_BACKEND variable, "local" by default.
+ *
+ * @returns {StorageBackend} The backend.
+ * @throws {Error} If no backend is registered under the selected name.
+ */
+export const getStorage = () => {
+  if (storage) return storage;
+
+  const name = process.env.STORAGE_BACKEND || 'local';
+  const createBackend = STORAGE_BACKENDS[name];
+
+  if (!createBackend) {
+    throw new Error(`Unknown storage backend "${name}"`);
+  }
+
+  storage = createBackend();
+
+  return storage;
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+
+import { appendRecord, deleteRecord, listRecordKeys, readRecord, updateRecord, writeRecord } from './store';
+
+describe('the record store', () => {
+  it('reads the fallback until a record is written, and after it is deleted', async () => {
+    expect(await readRecord('notes', 'a', 'fallback')).toBe('fallback');
+
+    await writeRecord('notes', 'a', { text: 'Hello' });
+    expect(await readRecord('notes', 'a', null)).toEqual({ text: 'Hello' });
+    expect(await listRecordKeys('notes')).toEqual(['a']);
+
+    await deleteRecord('notes', 'a');
+    expect(await readRecord('notes', 'a', 'fallback')).toBe('fallback');
+  });
+
+  it('keys records safely, whatever their key contains', async () => {
+    await writeRecord('notes', '../../escape/me', 1);
+
+    expect(await listRecordKeys('notes')).toEqual(['../../escape/me']);
+  });
+
+  it('keeps every item appended at the same time', async () => {
+    await Promise.all(Array.from({ length: 20 }, (_, index) => appendRecord('events', 'room-1', index)));
+
+    const items = await readRecord<number[]>('events', 'room-1', []);
+
+    expect([...items].sort((a, b) => a - b)).toEqual(Array.from({ length: 20 }, (_, index) => index));
+  });
+
+  it('applies concurrent updates one after the other', async () => {
+    await Promise.all(Array.from({ length: 10 }, () => updateRecord('counters', 'visits', 0, (count) => count + 1)));
+
+    expect(await readRecord('counters', 'visits', 0)).toBe(10);
+  });
+});
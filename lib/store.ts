@@ -0,0 +1,369 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * The directory where the local backend persists server-side records. Liveblocks only keeps the
+ * live document and small room metadata, so anything larger (snapshots, indexes,
+ * logs) is written to the record backend. It can be moved with the DATA_DIR variable.
+ */
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), '.data');
+
+/**
+ * The collections of the store. Each collection is a set of JSON records, addressed by key.
+ * - snapshots: the version history of each room, keyed by room ID.
+ * - initialContent: the content a new room is seeded with, keyed by room ID.
+ * - templates: the templates saved by the team.
+ * - searchIndex: the plain text of each room used by the search, keyed by room ID.
+ * - folders: the folders of the document library, keyed by folder ID.
+ * - shareLinks: the "Anyone with the link" settings of each room, keyed by room ID.
+ * - shareLinkAttempts: the incorrect passwords typed for the share link of each room, keyed by room ID.
+ * - auditLog: the security-relevant events of each room, keyed by room ID.
+ * - lastSeen: when each collaborator was last in each room, keyed by room ID.
+ */
+export const COLLECTIONS = {
+  snapshots: 'snapshots',
+  initialContent: 'initial-content',
+  templates: 'templates',
+  searchIndex: 'search-index',
+  folders: 'folders',
+  shareLinks: 'share-links',
+  shareLinkAttempts: 'share-link-attempts',
+  auditLog: 'audit-log',
+  lastSeen: 'last-seen',
+} as const;
+
+/**
+ * A place where the records of the store are kept, e.g. the local file system or a key-value database.
+ * Every record holds a JSON serializable value.
+ */
+export type RecordBackend = {
+  /** Reads a record, or returns undefined if nothing is stored under the key. */
+  read: (collection: string, key: string) => Promise<unknown>;
+  /** Stores a record, replacing any previous value. */
+  write: (collection: string, key: string, value: unknown) => Promise<void>;
+  /**
+   * Replaces a record with the result of `update`, called with its current value or undefined.
+   * Updates of the same record never overlap, so no update is lost when several servers change it at once.
+   */
+  update: (collection: string, key: string, update: (current: unknown) => unknown) => Promise<unknown>;
+  /** Deletes a record. Deleting a record that does not exist is a no-op. */
+  delete: (collection: string, key: string) => Promise<void>;
+  /** Lists the keys of every record of a collection. */
+  list: (collection: string) => Promise<string[]>;
+};
+
+// How long an update waits for another update of the same record to finish, in milliseconds.
+const LOCK_TIMEOUT_MS = 10_000;
+
+// A lock older than this was left behind by a server that stopped during an update, and is taken over.
+const LOCK_STALE_MS = 30_000;
+
+const LOCK_RETRY_MS = 20;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Checks whether an error thrown by the file system has the given code, e.g. 'ENOENT' for a missing file.
+ */
+export const isErrnoException = (error: unknown, code: string): error is NodeJS.ErrnoException =>
+  error instanceof Error && (error as NodeJS.ErrnoException).code === code;
+
+/**
+ * Runs `update` while holding a lock. `tryLock` returns true once the lock is taken,
+ * and is retried until LOCK_TIMEOUT_MS have passed.
+ */
+const withLock = async <T>(name: string, tryLock: () => Promise<boolean>, unlock: () => Promise<void>, update: () => Promise<T>) => {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  while (!(await tryLock())) {
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for the lock of ${name}`);
+
+    await sleep(LOCK_RETRY_MS);
+  }
+
+  try {
+    return await update();
+  } finally {
+    await unlock();
+  }
+};
+
+/**
+ * A backend that keeps records as JSON files in a directory of the local file system.
+ * Updates take a lock file next to the record, so they are atomic across the processes sharing the directory.
+ *
+ * It is meant for development, tests and single servers with a persistent disk. Serverless platforms such
+ * as Vercel have no shared, persistent disk, so the backend refuses to run there: use the "kv" backend instead.
+ *
+ * @param {string} directory - The directory where records are written.
+ * @returns {RecordBackend} The backend.
+ * @throws {Error} If the application runs on Vercel.
+ */
+export const createLocalRecords = (directory = DATA_DIR): RecordBackend => {
+  if (process.env.VERCEL) {
+    throw new Error('The local record backend does not persist records on Vercel, set RECORD_BACKEND=kv');
+  }
+
+  const getRecordPath = (collection: string, key: string) =>
+    path.join(directory, collection, `${encodeURIComponent(key)}.json`);
+
+  const read = async (collection: string, key: string) => {
+    try {
+      const file = await fs.readFile(getRecordPath(collection, key), 'utf8');
+
+      return JSON.parse(file) as unknown;
+    } catch (error) {
+      // A missing file simply means nothing has been stored yet.
+      if (isErrnoException(error, 'ENOENT')) return undefined;
+
+      throw error;
+    }
+  };
+
+  // The file is written to a temporary path first and then renamed, so readers never see a partially written record.
+  const write = async (collection: string, key: string, value: unknown) => {
+    const recordPath = getRecordPath(collection, key);
+    const tempPath = `${recordPath}.${process.pid}.${randomUUID()}.tmp`;
+
+    await fs.mkdir(path.dirname(recordPath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(value));
+    await fs.rename(tempPath, recordPath);
+  };
+
+  const tryLock = async (lockPath: string) => {
+    try {
+      await fs.mkdir(path.dirname(lockPath), { recursive: true });
+      await (await fs.open(lockPath, 'wx')).close();
+
+      return true;
+    } catch (error) {
+      if (!isErrnoException(error, 'EEXIST')) throw error;
+
+      const stat = await fs.stat(lockPath).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) await fs.rm(lockPath, { force: true });
+
+      return false;
+    }
+  };
+
+  return {
+    read,
+    write,
+    update: (collection, key, update) => {
+      const lockPath = `${getRecordPath(collection, key)}.lock`;
+
+      return withLock(lockPath, () => tryLock(lockPath), () => fs.rm(lockPath, { force: true }), async () => {
+        const value = update(await read(collection, key));
+        await write(collection, key, value);
+
+        return value;
+      });
+    },
+    delete: async (collection, key) => {
+      await fs.rm(getRecordPath(collection, key), { force: true });
+    },
+    list: async (collection) => {
+      try {
+        const files = await fs.readdir(path.join(directory, collection));
+
+        return files
+          .filter((file) => file.endsWith('.json'))
+          .map((file) => decodeURIComponent(file.slice(0, -'.json'.length)));
+      } catch (error) {
+        if (isErrnoException(error, 'ENOENT')) return [];
+
+        throw error;
+      }
+    },
+  };
+};
+
+// Deletes a lock only if it is still held by the update that took it, in a single step.
+const UNLOCK_SCRIPT = "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end";
+
+/**
+ * A backend that keeps records in a Redis database through its REST API, like Vercel KV and Upstash.
+ * The keys of each collection are kept in a set, so collections can be listed without scanning the database.
+ * Updates take a lock key that expires on its own, so a server that stops during an update never blocks the record.
+ *
+ * @param {{ url: string, token: string }} options - The REST URL and token of the database, KV_REST_API_URL and KV_REST_API_TOKEN by default.
+ * @returns {RecordBackend} The backend.
+ */
+export const createKvRecords = ({
+  url = process.env.KV_REST_API_URL ?? '',
+  token = process.env.KV_REST_API_TOKEN ?? '',
+} = {}): RecordBackend => {
+  if (!url || !token) {
+    throw new Error('The kv record backend needs KV_REST_API_URL and KV_REST_API_TOKEN');
+  }
+
+  const command = async (...args: Array<string | number>) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify(args),
+      cache: 'no-store',
+    });
+    const body = await response.json();
+
+    if (!response.ok || body.error) {
+      throw new Error(`The ${args[0]} command failed: ${body.error ?? response.status}`);
+    }
+
+    return body.result as unknown;
+  };
+
+  const getRecordKey = (collection: string, key: string) => `records:${collection}:${key}`;
+  const getIndexKey = (collection: string) => `keys:${collection}`;
+
+  const read = async (collection: string, key: string) => {
+    const value = await command('GET', getRecordKey(collection, key));
+
+    return typeof value === 'string' ? JSON.parse(value) as unknown : undefined;
+  };
+
+  const write = async (collection: string, key: string, value: unknown) => {
+    await command('SET', getRecordKey(collection, key), JSON.stringify(value));
+    await command('SADD', getIndexKey(collection), key);
+  };
+
+  return {
+    read,
+    write,
+    update: (collection, key, update) => {
+      const lockKey = `locks:${collection}:${key}`;
+      const lockToken = randomUUID();
+
+      return withLock(
+        lockKey,
+        async () => (await command('SET', lockKey, lockToken, 'NX', 'PX', LOCK_STALE_MS)) === 'OK',
+        async () => { await command('EVAL', UNLOCK_SCRIPT, 1, lockKey, lockToken); },
+        async () => {
+          const value = update(await read(collection, key));
+          await write(collection, key, value);
+
+          return value;
+        },
+      );
+    },
+    delete: async (collection, key) => {
+      await command('DEL', getRecordKey(collection, key));
+      await command('SREM', getIndexKey(collection), key);
+    },
+    list: async (collection) => (await command('SMEMBERS', getIndexKey(collection))) as string[],
+  };
+};
+
+/**
+ * The record backends that can be selected with the RECORD_BACKEND variable, keyed by name.
+ * Other backends are added with registerRecordBackend.
+ */
+const RECORD_BACKENDS: Record<string, () => RecordBackend> = {
+  local: () => createLocalRecords(),
+  kv: () => createKvRecords(),
+};
+
+let records: RecordBackend | null = null;
+
+/**
+ * Makes a record backend available under a name, so it can be selected with RECORD_BACKEND=<name>.
+ * Backends must be registered before the first record is read or written, e.g. from instrumentation.ts.
+ *
+ * @param {string} name - The name of the backend.
+ * @param {() => RecordBackend} createBackend - Creates the backend the first time it is used.
+ */
+export const registerRecordBackend = (name: string, createBackend: () => RecordBackend) => {
+  RECORD_BACKENDS[name] = createBackend;
+};
+
+/**
+ * Returns the record backend selected with the RECORD_BACKEND variable. By default, it is "kv"
+ * when a KV database is connected to the project, and "local" otherwise.
+ *
+ * @returns {RecordBackend} The backend.
+ * @throws {Error} If no backend is registered under the selected name.
+ */
+export const getRecordBackend = () => {
+  if (records) return records;
+
+  const name = process.env.RECORD_BACKEND || (process.env.KV_REST_API_URL ? 'kv' : 'local');
+  const createBackend = RECORD_BACKENDS[name];
+
+  if (!createBackend) {
+    throw new Error(`Unknown record backend "${name}"`);
+  }
+
+  records = createBackend();
+
+  return records;
+};
+
+/**
+ * Reads a record from a collection.
+ * If the record does not exist yet, the provided fallback value is returned.
+ *
+ * @param {string} collection - The name of the collection.
+ * @param {string} key - The key of the record.
+ * @param {T} fallback - The value to return when the record does not exist.
+ * @returns {Promise<T>} A promise that resolves to the stored value or the fallback.
+ */
+export const readRecord = async <T>(collection: string, key: string, fallback: T): Promise<T> => {
+  const value = await getRecordBackend().read(collection, key);
+
+  return value === undefined ? fallback : value as T;
+};
+
+/**
+ * Writes a record to a collection, replacing any previous value.
+ * To change a record based on its current value, use updateRecord instead, which does not lose concurrent changes.
+ *
+ * @param {string} collection - The name of the collection.
+ * @param {string} key - The key of the record.
+ * @param {T} value - The value to store. It must be JSON serializable.
+ */
+export const writeRecord = async <T>(collection: string, key: string, value: T) => {
+  await getRecordBackend().write(collection, key, value);
+};
+
+/**
+ * Changes a record based on its current value. Updates of the same record are applied one after the other,
+ * even from different servers, so two updates made at the same time are both kept.
+ *
+ * @param {string} collection - The name of the collection.
+ * @param {string} key - The key of the record.
+ * @param {T} fallback - The value passed to `update` when the record does not exist.
+ * @param {(current: T) => T} update - Returns the new value of the record. It must not have side effects, as it runs while the record is locked.
+ * @returns {Promise<T>} A promise that resolves to the new value of the record.
+ */
+export const updateRecord = async <T>(collection: string, key: string, fallback: T, update: (current: T) => T): Promise<T> =>
+  await getRecordBackend().update(collection, key, (current) => update(current === undefined ? fallback : current as T)) as T;
+
+/**
+ * Appends an item to a record holding a list, atomically, see updateRecord.
+ *
+ * @param {string} collection - The name of the collection.
+ * @param {string} key - The key of the record.
+ * @param {T} item - The item to append.
+ */
+export const appendRecord = async <T>(collection: string, key: string, item: T) => {
+  await updateRecord<T[]>(collection, key, [], (items) => [...items, item]);
+};
+
+/**
+ * Deletes a record from a collection. Deleting a record that does not exist is a no-op.
+ *
+ * @param {string} collection - The name of the collection.
+ * @param {string} key - The key of the record.
+ */
+export const deleteRecord = async (collection: string, key: string) => {
+  await getRecordBackend().delete(collection, key);
+};
+
+/**
+ * Lists the keys of every record stored in a collection.
+ *
+ * @param {string} collection - The name of the collection.
+ * @returns {Promise<string[]>} A promise that resolves to the list of keys.
+ */
+export const listRecordKeys = async (collection: string) => getRecordBackend().list(collection);
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+
+import { markdownToContent } from './import';
+import { BUILT_IN_TEMPLATES, fillTemplateDate } from './templates';
+
+type SerializedNode = { type: string; tag?: string; text?: string; children?: SerializedNode[] };
+
+const getText = (node: SerializedNode): string => node.text ?? (node.children ?? []).map(getText).join('');
+
+describe('BUILT_IN_TEMPLATES', () => {
+  it('offers meeting notes, an RFC, an incident postmortem and a weekly report', () => {
+    expect(BUILT_IN_TEMPLATES.map(({ id, name }) => [id, name])).toEqual([
+      ['meeting-notes', 'Meeting notes'],
+      ['rfc', 'RFC'],
+      ['incident-postmortem', 'Incident postmortem'],
+      ['weekly-report', 'Weekly report'],
+    ]);
+    BUILT_IN_TEMPLATES.forEach((template) => {
+      expect(template.builtIn).toBe(true);
+      expect(template.description).not.toBe('');
+      expect(template.title).toBe(`${template.name} – {date}`);
+    });
+  });
+
+  it.each(BUILT_IN_TEMPLATES.map((template) => [template.name, template] as const))(
+    'converts %s to a document with a title and sections, dated today',
+    (_name, { markdown }) => {
+      const blocks: SerializedNode[] = JSON.parse(markdownToContent(fillTemplateDate(markdown, new Date('2026-10-19')))).root.children;
+      const text = blocks.map(getText).join('\n');
+
+      expect(blocks[0]).toMatchObject({ type: 'heading', tag: 'h1' });
+      expect(blocks.filter(({ tag }) => tag === 'h2').length).toBeGreaterThanOrEqual(3);
+      expect(text).toContain('2026-10-19');
+      expect(text).not.toContain('{date}');
+      // The Markdown syntax is converted, not kept as text.
+      expect(text).not.toMatch(/^#|\*\*/m);
+    },
+  );
+});
+
+describe('fillTemplateDate', () => {
+  it('replaces every placeholder with the date in the YYYY-MM-DD format', () => {
+    expect(fillTemplateDate('{date} to {date}', new Date('2026-03-09T23:00:00.000Z'))).toBe('2026-03-09 to 2026-03-09');
+    expect(fillTemplateDate('No date')).toBe('No date');
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * The templates available to everyone. Their content is written in Markdown and converted
+ * to a Lexical state when a document is created from them. `{date}` in a title is replaced
+ * with the current date, e.g. "Meeting notes – 2026-10-19".
+ */
+export const BUILT_IN_TEMPLATES: Array<DocumentTemplate & { markdown: string }> = [
+  {
+    id: 'meeting-notes',
+    name: 'Meeting notes',
+    description: 'Agenda, discussion, decisions and action items.',
+    title: 'Meeting notes – {date}',
+    builtIn: true,
+    markdown: `# Meeting notes
+
+**Date:** {date}
+
+**Attendees:**
+
+## Agenda
+
+Topics to cover, with an owner and a time box for each.
+
+## Discussion
+
+Summarize what was discussed.
+
+## Decisions
+
+Record what was decided, and by whom.
+
+## Action items
+
+Owner – task – due date
+`,
+  },
+  {
+    id: 'rfc',
+    name: 'RFC',
+    description: 'Propose a change and collect feedback before building it.',
+    title: 'RFC – {date}',
+    builtIn: true,
+    markdown: `# RFC: Title of the proposal
+
+**Author:**
+
+**Status:** Draft
+
+**Last updated:** {date}
+
+## Summary
+
+One paragraph explaining the proposal.
+
+## Motivation
+
+Why are we doing this? What problem does it solve?
+
+## Detailed design
+
+Explain the design in enough detail for someone to implement it.
+
+## Alternatives considered
+
+What other designs were considered, and why were they not chosen?
+
+## Open questions
+
+What still needs to be decided?
+`,
+  },
+  {
+    id: 'incident-postmortem',
+    name: 'Incident postmortem',
+    description: 'A blameless review of what happened and how to prevent it.',
+    title: 'Incident postmortem – {date}',
+    builtIn: true,
+    markdown: `# Incident postmortem
+
+**Date of incident:** {date}
+
+**Severity:**
+
+**Authors:**
+
+> This postmortem is blameless. Focus on systems and processes, not on individuals.
+
+## Summary
+
+What happened, and what was the impact on users?
+
+## Timeline
+
+Times are in UTC. List detection, escalation, mitigation and resolution.
+
+## Root cause
+
+Why did it happen?
+
+## What went well
+
+## What went wrong
+
+## Action items
+
+Owner – task – due date
+`,
+  },
+  {
+    id: 'weekly-report',
+    name: 'Weekly report',
+    description: 'Progress, plans and blockers for the week.',
+    title: 'Weekly report – {date}',
+    builtIn: true,
+    markdown: `# Weekly report
+
+**Week of:** {date}
+
+## Highlights
+
+What did the team ship or achieve this week?
+
+## Progress
+
+Status of the ongoing work.
+
+## Next week
+
+What is planned for next week?
+
+## Blockers and risks
+
+What is slowing us down, and what help is needed?
+`,
+  },
+];
+
+/**
+ * Replaces the `{date}` placeholder of a template with a date in the YYYY-MM-DD format.
+ *
+ * @param {string} text - The text containing the placeholder, e.g. "Meeting notes – {date}".
+ * @param {Date} date - The date to insert, today by default.
+ * @returns {string} The text with the date, e.g. "Meeting notes – 2026-10-19".
+ */
+export const fillTemplateDate = (text: string, date: Date = new Date()) =>
+  text.replace(/\{date\}/g, date.toISOString().slice(0, 10));
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+
+import { createTestRoom, getTestRoom, liveblocks, TEST_CONTENT } from '@/test/fakes';
+import { readAuditLog, recordAuditEvent, SYSTEM_ACTOR } from './audit';
+import { readImage, saveImage } from './images';
+import { COLLECTIONS, readRecord, writeRecord } from './store';
+import { deleteRoomForever, isTrashExpired, purgeExpiredTrash } from './trash';
+import { TRASH_RETENTION_DAYS } from './utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The date a document was trashed, the given number of days ago.
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS).toISOString();
+
+// The collections holding records about a room, which are deleted along with it.
+const ROOM_COLLECTIONS = [
+  COLLECTIONS.snapshots,
+  COLLECTIONS.initialContent,
+  COLLECTIONS.searchIndex,
+  COLLECTIONS.shareLinks,
+  COLLECTIONS.shareLinkAttempts,
+  COLLECTIONS.lastSeen,
+];
+
+// Writes a record about the room in every collection, an image, and an event to its audit log.
+const writeRoomRecords = async (roomId: string) => {
+  await Promise.all(ROOM_COLLECTIONS.map((collection) => writeRecord(collection, roomId, { roomId })));
+  await recordAuditEvent({ roomId, action: 'document.created', actor: SYSTEM_ACTOR });
+
+  const url = await saveImage(roomId, new File([TEST_CONTENT], 'image.png', { type: 'image/png' }));
+
+  return url.slice(url.lastIndexOf('/') + 1);
+};
+
+describe('isTrashExpired', () => {
+  it('expires documents trashed for longer than the retention period', () => {
+    const now = new Date('2026-10-19T12:00:00.000Z');
+    const trashedAt = (ms: number) => new Date(now.getTime() - ms).toISOString();
+
+    expect(isTrashExpired({ trashedAt: trashedAt(TRASH_RETENTION_DAYS * DAY_MS + 1) } as RoomMetadata, now)).toBe(true);
+    expect(isTrashExpired({ trashedAt: trashedAt(TRASH_RETENTION_DAYS * DAY_MS) } as RoomMetadata, now)).toBe(false);
+    expect(isTrashExpired({ trashedAt: trashedAt(DAY_MS) } as RoomMetadata, now)).toBe(false);
+  });
+
+  it('never expires documents without a trash date', () => {
+    expect(isTrashExpired({} as RoomMetadata)).toBe(false);
+  });
+});
+
+describe('deleteRoomForever', () => {
+  it('deletes the room, its records and its images, and keeps its audit log', async () => {
+    const roomId = createTestRoom();
+    const imageId = await writeRoomRecords(roomId);
+
+    await deleteRoomForever(roomId);
+
+    expect(getTestRoom(roomId)).toBeUndefined();
+
+    for (const collection of ROOM_COLLECTIONS) {
+      expect(await readRecord(collection, roomId, null)).toBeNull();
+    }
+
+    expect(await readImage(roomId, imageId)).toBeNull();
+    expect(await readAuditLog(roomId)).toHaveLength(1);
+  });
+
+  it('leaves the other rooms alone', async () => {
+    const roomId = createTestRoom('room-1');
+    const otherRoomId = createTestRoom('room-10');
+    await writeRoomRecords(roomId);
+    const otherImageId = await writeRoomRecords(otherRoomId);
+
+    await deleteRoomForever(roomId);
+
+    expect(getTestRoom(otherRoomId)).toBeDefined();
+    expect(await readRecord(COLLECTIONS.snapshots, otherRoomId, null)).toEqual({ roomId: otherRoomId });
+    expect(await readImage(otherRoomId, otherImageId)).not.toBeNull();
+  });
+});
+
+describe('purgeExpiredTrash', () => {
+  it('deletes the expired documents of the trash, and only those', async () => {
+    createTestRoom('expired', { trashed: 'true', trashedAt: daysAgo(TRASH_RETENTION_DAYS + 1) });
+    createTestRoom('recent', { trashed: 'true', trashedAt: daysAgo(TRASH_RETENTION_DAYS - 1) });
+    // An old document that is not in the trash, e.g. one that was restored.
+    createTestRoom('active', { trashedAt: daysAgo(TRASH_RETENTION_DAYS + 1) });
+    await writeRoomRecords('expired');
+
+    expect(await purgeExpiredTrash()).toEqual(['expired']);
+
+    expect(liveblocks.deleteRoom).toHaveBeenCalledTimes(1);
+    expect(getTestRoom('expired')).toBeUndefined();
+    expect(getTestRoom('recent')).toBeDefined();
+    expect(getTestRoom('active')).toBeDefined();
+    expect(await readRecord(COLLECTIONS.snapshots, 'expired', null)).toBeNull();
+  });
+
+  it('records each deletion on behalf of the system, in the audit log kept after the room', async () => {
+    createTestRoom('expired', { trashed: 'true', trashedAt: daysAgo(TRASH_RETENTION_DAYS + 1) });
+    await recordAuditEvent({ roomId: 'expired', action: 'document.trashed', actor: SYSTEM_ACTOR });
+
+    await purgeExpiredTrash();
+
+    const auditLog = await readAuditLog('expired');
+
+    expect(auditLog).toHaveLength(2);
+    expect(auditLog[0]).toMatchObject({ action: 'document.deleted', actor: SYSTEM_ACTOR, details: { from: 'Project plan' } });
+  });
+
+  it('does nothing when no document has expired', async () => {
+    createTestRoom('recent', { trashed: 'true', trashedAt: daysAgo(1) });
+
+    expect(await purgeExpiredTrash()).toEqual([]);
+    expect(liveblocks.deleteRoom).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,77 @@
+import { recordAuditEvent, SYSTEM_ACTOR } from './audit';
+import { deleteRoomImages } from './images';
+import { liveblocks } from './liveblocks';
+import { COLLECTIONS, deleteRecord } from './store';
+import { TRASH_RETENTION_DAYS } from './utils';
+
+/**
+ * Checks whether a trashed document has been in the trash for longer than the retention period.
+ *
+ * @param {RoomMetadata} metadata - The metadata of the room.
+ * @param {Date} now - The current date.
+ * @returns {boolean} True if the document must be purged.
+ */
+export const isTrashExpired = (metadata: RoomMetadata, now: Date = new Date()) => {
+  if (!metadata.trashedAt) return false;
+
+  const trashedFor = now.getTime() - new Date(metadata.trashedAt).getTime();
+
+  return trashedFor > TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+};
+
+/**
+ * Deletes a room and every record kept about it in the server-side store, except its audit log,
+ * which is kept for compliance. This cannot be undone.
+ *
+ * @param {string} roomId - The ID of the room to delete.
+ */
+export const deleteRoomForever = async (roomId: string) => {
+  await liveblocks.deleteRoom(roomId);
+
+  await Promise.all([
+    deleteRecord(COLLECTIONS.snapshots, roomId),
+    deleteRecord(COLLECTIONS.initialContent, roomId),
+    deleteRecord(COLLECTIONS.searchIndex, roomId),
+    deleteRecord(COLLECTIONS.shareLinks, roomId),
+    deleteRecord(COLLECTIONS.shareLinkAttempts, roomId),
+    deleteRecord(COLLECTIONS.lastSeen, roomId),
+    deleteRoomImages(roomId),
+  ]);
+};
+
+/**
+ * Deletes every room that has been in the trash for longer than the retention period, and records
+ * each deletion in the audit log of the room, on behalf of the system.
+ * Trashed rooms are found through the `trashed` metadata flag, one page at a time.
+ *
+ * @returns {Promise<string[]>} A promise that resolves to the IDs of the purged rooms.
+ */
+export const purgeExpiredTrash = async () => {
+  const purgedRoomIds: string[] = [];
+  let startingAfter: string | undefined;
+
+  do {
+    const { data, nextCursor } = await liveblocks.getRooms({
+      query: { metadata: { trashed: 'true' } },
+      limit: 100,
+      startingAfter,
+    });
+
+    for (const room of data) {
+      if (isTrashExpired(room.metadata as RoomMetadata)) {
+        await deleteRoomForever(room.id);
+        await recordAuditEvent({
+          roomId: room.id,
+          action: 'document.deleted',
+          actor: SYSTEM_ACTOR,
+          details: { from: String(room.metadata.title) },
+        });
+        purgedRoomIds.push(room.id);
+      }
+    }
+
+    startingAfter = nextCursor ?? undefined;
+  } while (startingAfter);
+
+  return purgedRoomIds;
+};
@@ -14,6 +14,21 @@ export function cn(...inputs: ClassValue[]) {
 
 export const parseStringify = (value: any) => JSON.parse(JSON.stringify(value));
 
+// The number of days a document stays in the trash before it is deleted forever.
+export const TRASH_RETENTION_DAYS = 30;
+
+// The image formats that can be uploaded to a document, with the extension they are stored with.
+// SVG is not accepted, because an SVG file opened on its own can run scripts.
+export const IMAGE_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+// The largest image that can be uploaded to a document, in bytes.
+export const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
 /**
  * This function takes a UserType enum and returns an array of strings representing
  * the access types that a user with that UserType has to a room.
@@ -22,6 +37,7 @@ export const parseStringify = (value: any) => JSON.parse(JSON.stringify(value));
  * - room:write: The user is able to write data to the room.
  * - room:read: The user is able to read data from the room.
  * - room:presence:write: The user is able to write to the room's presence.
+ * - comments:write: The user is able to create threads and comments, even without write access.
  *
  * The default access type is ['room:read', 'room:presence:write'], which means that
  * the user can read data from the room and write to the room's presence, but cannot
@@ -39,6 +55,10 @@ export const getAccessType = (userType: UserType) => {
       // Editors have write access to the room, but not the ability to create or
       // delete documents.
       return ['room:write'];
+    case 'commenter':
+      // Commenters have read-only access to the document content, but can
+      // create and reply to comment threads.
+      return ['room:read', 'room:presence:write', 'comments:write'];
     case 'viewer':
       // Viewers have read-only access to the room, and can write to the room's
       // presence (e.g. send messages to the room).
@@ -50,6 +70,162 @@ export const getAccessType = (userType: UserType) => {
   }
 };
 
+/**
+ * This function is the inverse of getAccessType. It takes the list of access types
+ * that a user has to a room and returns the UserType that grants those accesses.
+ *
+ * - room:write maps to 'editor'.
+ * - comments:write (without room:write) maps to 'commenter'.
+ * - Anything else maps to 'viewer'.
+ *
+ * @param {string[] | undefined} accesses - The access types of the user in the room.
+ * @returns {UserType} The UserType derived from the access types.
+ */
+export const getUserType = (accesses?: string[]): UserType => {
+  if (accesses?.includes('room:write')) return 'editor';
+  if (accesses?.includes('comments:write')) return 'commenter';
+
+  return 'viewer';
+};
+
+// The roles ordered from the least to the most permissive.
+const ROLE_RANKS: Record<UserType, number> = { viewer: 0, commenter: 1, editor: 2, creator: 3 };
+
+/**
+ * This function checks whether a role grants at least the permissions of another role,
+ * e.g. an editor can do everything a commenter can, and the creator (owner) can do everything.
+ *
+ * @param {UserType} userType - The role of the user.
+ * @param {UserType} requiredRole - The least permissive role that is allowed.
+ * @returns {boolean} True if the role is the required role or a more permissive one.
+ */
+export const hasRole = (userType: UserType, requiredRole: UserType) => ROLE_RANKS[userType] >= ROLE_RANKS[requiredRole];
+
+/**
+ * This function checks whether the result of a server action is an error the UI should display,
+ * such as an authorization failure.
+ *
+ * @param {unknown} result - The value returned by a server action.
+ * @returns {boolean} True if the result is an ActionError.
+ */
+export const isActionError = (result: unknown): result is ActionError =>
+  typeof result === 'object' && result !== null && 'error' in result && typeof (result as ActionError).error?.code === 'string';
+
+/**
+ * This function returns a short description of what a user with the given
+ * UserType is allowed to do in a document. It is used in notifications and
+ * in the role selector.
+ *
+ * @param {UserType} userType - The UserType to describe.
+ * @returns {string} A description such as "view and comment on".
+ */
+export const getUserTypeDescription = (userType: UserType) => {
+  switch (userType) {
+    case 'creator':
+    case 'editor':
+      return 'edit';
+    case 'commenter':
+      return 'view and comment on';
+    default:
+      return 'view';
+  }
+};
+
+// The protocols that links in documents can use. Anything else, e.g. javascript:, is rejected.
+const SAFE_URL_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+/**
+ * Normalizes a URL typed or pasted by a user and checks that it is safe to link to.
+ * URLs without a protocol are treated as web addresses, e.g. "example.com" becomes "https://example.com/",
+ * and email addresses become mailto: links.
+ *
+ * @param {string} url - The URL to check.
+ * @returns {string | null} The normalized URL, or null if it is invalid or uses an unsafe protocol such as javascript:.
+ */
+export const sanitizeUrl = (url: string) => {
+  const trimmedUrl = url.trim();
+  if (!trimmedUrl) return null;
+
+  const fullUrl = /^[a-z][a-z\d+.-]*:/i.test(trimmedUrl)
+    ? trimmedUrl
+    : /^[^\s@/]+@[^\s@/]+\.[^\s@/]+$/.test(trimmedUrl)
+      ? `mailto:${trimmedUrl}`
+      : `https://${trimmedUrl}`;
+
+  try {
+    const parsedUrl = new URL(fullUrl);
+
+    return SAFE_URL_PROTOCOLS.includes(parsedUrl.protocol) ? parsedUrl.href : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Checks that a URL is complete and safe to link to as is, e.g. a URL pasted over selected text.
+ * Unlike sanitizeUrl, it does not accept URLs without a protocol.
+ *
+ * @param {string} url - The URL to check.
+ * @returns {boolean} True if the URL has an http, https, mailto or tel protocol and is valid.
+ */
+export const isSafeUrl = (url: string) => /^(https?|mailto|tel):/i.test(url.trim()) && sanitizeUrl(url) !== null;
+
+/**
+ * The labels of the audit actions, used to filter the activity of a document.
+ */
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'document.created': 'Created',
+  'document.renamed': 'Renamed',
+  'document.trashed': 'Moved to trash',
+  'document.restored': 'Restored from trash',
+  'document.deleted': 'Deleted forever',
+  'access.updated': 'Access granted or changed',
+  'access.removed': 'Access removed',
+  'ownership.transferred': 'Ownership transferred',
+};
+
+/**
+ * A user in a room is shown as idle once they have not used the page for this many minutes.
+ */
+export const IDLE_AFTER_MINUTES = 5;
+
+/**
+ * The labels of the presence statuses, shown next to the avatars of the users in a room.
+ */
+export const PRESENCE_STATUS_LABELS: Record<PresenceStatus, string> = {
+  active: 'Active',
+  idle: 'Idle',
+  viewing: 'Viewing only',
+};
+
+/**
+ * Describes an audit event in a sentence, e.g. "gave editor access to jane@example.com (was viewer)".
+ * The name of the actor is not included, since it is shown next to the description.
+ *
+ * @param {AuditEvent} event - The event to describe.
+ * @returns {string} The description of the event.
+ */
+export const getAuditEventDescription = ({ action, target, details }: AuditEvent) => {
+  switch (action) {
+    case 'document.created':
+      return `created the document "${details?.to}"`;
+    case 'document.renamed':
+      return `renamed the document from "${details?.from}" to "${details?.to}"`;
+    case 'document.trashed':
+      return 'moved the document to the trash';
+    case 'document.restored':
+      return 'restored the document from the trash';
+    case 'document.deleted':
+      return `deleted the document "${details?.from}" forever`;
+    case 'access.updated':
+      return `gave ${details?.to} access to ${target}${details?.from ? ` (was ${details.from})` : ''}`;
+    case 'access.removed':
+      return `removed ${target}${details?.from ? ` (${details.from})` : ''}`;
+    case 'ownership.transferred':
+      return `transferred the ownership to ${target}`;
+  }
+};
+
 /**
  * This function takes a timestamp as input and returns a human-readable 
  * string indicating how long ago the timestamp occurred.
@@ -172,3 +348,45 @@ export function getUserColor(userId: string) {
   // Return the color associated with the calculated index.
   return brightColors[colorIndex];
 }
+
+/**
+ * This function returns the chain of folders from the top of the library down to a folder,
+ * which is what the breadcrumbs of the home page display. Folders the user cannot see are
+ * not in the list, so the chain stops at the first folder the user has access to.
+ *
+ * @param {Folder[]} folders - The folders visible to the user.
+ * @param {string | null} folderId - The ID of the current folder, or null for the top of the library.
+ * @returns {Folder[]} The folders from the outermost one to the current one.
+ */
+export const getFolderPath = (folders: Folder[], folderId: string | null) => {
+  const path: Folder[] = [];
+  let folder = folders.find(({ id }) => id === folderId);
+
+  // The length check guards against a cycle in corrupted data.
+  while (folder && path.length < folders.length) {
+    path.unshift(folder);
+    folder = folders.find(({ id }) => id === folder?.parentId);
+  }
+
+  return path;
+};
+
+/**
+ * This function returns the IDs of a folder and of every folder nested inside it, at any depth.
+ * It is used to share a folder with everything inside it, and to prevent moving a folder into itself.
+ *
+ * @param {Folder[]} folders - The folders to search.
+ * @param {string} folderId - The ID of the folder.
+ * @returns {string[]} The ID of the folder followed by the IDs of its descendants.
+ */
+export const getFolderTreeIds = (folders: Folder[], folderId: string) => {
+  const ids = [folderId];
+
+  for (let i = 0; i < ids.length; i++) {
+    folders.forEach(({ id, parentId }) => {
+      if (parentId === ids[i] && !ids.includes(id)) ids.push(id);
+    });
+  }
+
+  return ids;
+};
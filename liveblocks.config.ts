@@ -4,8 +4,14 @@ declare global {
   interface Liveblocks {
     // Each user's Presence, for useMyPresence, useOthers, etc.
     Presence: {
-      // Example, real-time cursor coordinates
-      // cursor: { x: number; y: number };
+      // The selection of the user in the document, or null before they select anything.
+      cursor: CursorPresence | null;
+      // The part of the document the user is looking at, which their followers scroll to.
+      viewport: ViewportPresence | null;
+      // When the user last typed or moved their selection, in milliseconds since the epoch.
+      lastActiveAt: number;
+      // Whether the user is active, idle or only viewing the document, shown on their avatar.
+      status: PresenceStatus;
     };
 
     // The Storage tree for the room, for useMutation, useStorage, etc.
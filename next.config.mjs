@@ -7,6 +7,10 @@ const nextConfig = {
   },
   images: {
     remotePatterns: [{ protocol: 'https', hostname: 'img.clerk.com' }]
+  },
+  experimental: {
+    // pdfkit loads its font files at runtime and must not be bundled
+    serverComponentsExternalPackages: ['pdfkit'],
   }
 };
 
@@ -0,0 +1,187 @@
+import { LiveblocksError, RoomData } from '@liveblocks/node';
+import { vi } from 'vitest';
+
+import { getAccessType } from '@/lib/utils';
+
+/**
+ * The users of the test fixtures, by their role in the room created by createTestRoom.
+ * The stranger has no access to the room.
+ */
+export const TEST_USERS = {
+  owner: { id: 'user_owner', firstName: 'Olivia', lastName: 'Owner', email: 'owner@example.com' },
+  editor: { id: 'user_editor', firstName: 'Eddie', lastName: 'Editor', email: 'editor@example.com' },
+  commenter: { id: 'user_commenter', firstName: 'Cora', lastName: 'Commenter', email: 'commenter@example.com' },
+  viewer: { id: 'user_viewer', firstName: 'Vic', lastName: 'Viewer', email: 'viewer@example.com' },
+  stranger: { id: 'user_stranger', firstName: 'Sam', lastName: 'Stranger', email: 'stranger@example.com' },
+};
+
+export type TestUser = keyof typeof TEST_USERS;
+
+/**
+ * A serialized editor state with a single paragraph, as sent by the editor.
+ */
+export const TEST_CONTENT = JSON.stringify({
+  root: {
+    type: 'root',
+    version: 1,
+    direction: null,
+    format: '',
+    indent: 0,
+    children: [{
+      type: 'paragraph',
+      version: 1,
+      direction: null,
+      format: '',
+      indent: 0,
+      children: [{ type: 'text', version: 1, text: 'Quarterly roadmap', format: 0, detail: 0, mode: 'normal', style: '' }],
+    }],
+  },
+});
+
+/**
+ * The signed in user returned by the mocked `currentUser` of Clerk, or null when nobody is signed in.
+ */
+let signedInUser: TestUser | null = null;
+
+export const signInAs = (user: TestUser | null) => {
+  signedInUser = user;
+};
+
+export const signOut = () => signInAs(null);
+
+/**
+ * Replaces `currentUser` from '@clerk/nextjs/server', with the shape of the Clerk user the app reads.
+ */
+export const currentUser = vi.fn(async () => {
+  if (!signedInUser) return null;
+
+  const { id, firstName, lastName, email } = TEST_USERS[signedInUser];
+
+  return { id, firstName, lastName, emailAddresses: [{ emailAddress: email }], imageUrl: `https://img.example.com/${id}` };
+});
+
+/**
+ * Replaces `clerkClient` from '@clerk/nextjs/server', resolving users from TEST_USERS.
+ */
+export const clerkClient = {
+  users: {
+    getUserList: vi.fn(async ({ emailAddress }: { emailAddress: string[] }) => ({
+      data: Object.values(TEST_USERS)
+        .filter(({ email }) => emailAddress.includes(email))
+        .map(({ id, firstName, lastName, email }) => ({
+          id,
+          firstName,
+          lastName,
+          emailAddresses: [{ emailAddress: email }],
+          imageUrl: `https://img.example.com/${id}`,
+        })),
+    })),
+  },
+};
+
+// The rooms of the fake Liveblocks project, keyed by room ID.
+const rooms = new Map<string, RoomData>();
+
+const getStoredRoom = (roomId: string) => {
+  const room = rooms.get(roomId);
+
+  if (!room) throw new LiveblocksError(404, `Room ${roomId} not found`);
+
+  return room;
+};
+
+// Liveblocks removes the keys set to null when it merges metadata and accesses.
+const merge = <T extends Record<string, unknown>>(current: T, changes: Record<string, unknown> = {}) => {
+  const merged: Record<string, unknown> = { ...current, ...changes };
+
+  Object.keys(merged).forEach((key) => merged[key] === null && delete merged[key]);
+
+  return merged as T;
+};
+
+const matchesMetadata = (room: RoomData, metadata: Record<string, string> = {}) =>
+  Object.entries(metadata).every(([key, value]) => room.metadata[key] === value);
+
+/**
+ * Replaces the Liveblocks client of lib/liveblocks.ts with an in-memory project.
+ * Only the methods used by the server code are implemented.
+ */
+export const liveblocks = {
+  getRoom: vi.fn(async (roomId: string) => structuredClone(getStoredRoom(roomId))),
+  getRooms: vi.fn(async ({ userId, query }: { userId?: string; query?: { metadata?: Record<string, string> } } = {}) => ({
+    data: Array.from(rooms.values())
+      .filter((room) => !userId || room.usersAccesses[userId])
+      .filter((room) => matchesMetadata(room, query?.metadata))
+      .map((room) => structuredClone(room)),
+    nextCursor: null,
+  })),
+  createRoom: vi.fn(async (roomId: string, { metadata = {}, usersAccesses = {}, defaultAccesses = [] }: Partial<RoomData>) => {
+    const room: RoomData = {
+      type: 'room',
+      id: roomId,
+      createdAt: new Date(),
+      metadata,
+      usersAccesses,
+      groupsAccesses: {},
+      defaultAccesses,
+    };
+
+    rooms.set(roomId, room);
+
+    return structuredClone(room);
+  }),
+  updateRoom: vi.fn(async (roomId: string, { metadata, usersAccesses }: { metadata?: Record<string, unknown>; usersAccesses?: Record<string, unknown> }) => {
+    const room = getStoredRoom(roomId);
+
+    room.metadata = merge(room.metadata, metadata);
+    room.usersAccesses = merge(room.usersAccesses, usersAccesses);
+
+    return structuredClone(room);
+  }),
+  deleteRoom: vi.fn(async (roomId: string) => {
+    getStoredRoom(roomId);
+    rooms.delete(roomId);
+  }),
+  triggerInboxNotification: vi.fn(async () => {}),
+  identifyUser: vi.fn(async () => ({ status: 200, body: '{}' })),
+};
+
+/**
+ * Reads a room of the fake Liveblocks project, or undefined if it does not exist.
+ */
+export const getTestRoom = (roomId: string) => rooms.get(roomId);
+
+/**
+ * Creates a room owned by TEST_USERS.owner and shared with the editor, the commenter and the viewer.
+ *
+ * @param {string} roomId - The ID of the room.
+ * @param {Record<string, string>} metadata - Metadata added to the defaults, e.g. the trash flags.
+ */
+export const createTestRoom = (roomId = 'room-1', metadata: Record<string, string> = {}) => {
+  const { owner, editor, commenter, viewer } = TEST_USERS;
+
+  rooms.set(roomId, {
+    type: 'room',
+    id: roomId,
+    createdAt: new Date(),
+    metadata: { creatorId: owner.id, email: owner.email, title: 'Project plan', ...metadata },
+    usersAccesses: {
+      [owner.email]: getAccessType('creator'),
+      [editor.email]: getAccessType('editor'),
+      [commenter.email]: getAccessType('commenter'),
+      [viewer.email]: getAccessType('viewer'),
+    } as RoomData['usersAccesses'],
+    groupsAccesses: {},
+    defaultAccesses: [],
+  });
+
+  return roomId;
+};
+
+/**
+ * Forgets every room and signs out, so that each test starts from an empty project.
+ */
+export const resetFakes = () => {
+  rooms.clear();
+  signOut();
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+
+import { createTestRoom, signInAs, type TestUser } from './fakes';
+
+// The roles ordered from the least to the most permissive, with the test user holding each of them.
+const ROLE_USERS: [UserType, TestUser][] = [
+  ['viewer', 'viewer'],
+  ['commenter', 'commenter'],
+  ['editor', 'editor'],
+  ['creator', 'owner'],
+];
+
+type GuardedRoomAction = {
+  /** The least permissive role allowed to run the action. */
+  requiredRole: UserType;
+  /** Prepares the room before the action runs, e.g. by saving records the action reads. */
+  setup?: (roomId: string) => unknown;
+  /** Runs the action on the room. */
+  run: (roomId: string) => Promise<unknown>;
+  /** Checks the result and the effects of the action, when the user is allowed to run it. */
+  expectAllowed: (result: unknown, roomId: string) => unknown;
+  /** Checks that a denied action changed nothing. */
+  expectUnchanged?: (roomId: string) => unknown;
+  /**
+   * What the action returns when it is denied. Most actions return the ActionError, actions that
+   * read data for the UI return an empty value instead.
+   */
+  deniedResult?: (code: AuthorizationErrorCode) => unknown;
+};
+
+const toDeniedActionError = (code: AuthorizationErrorCode) => ({ error: { code, message: expect.any(String) } });
+
+/**
+ * Describes a server action guarded by authorizeRoom: it runs the action as a user with exactly the required role,
+ * and checks that it is denied to signed out users, to users with a lower role, to users without access and
+ * for rooms that do not exist.
+ *
+ * Actions open to viewers have no forbidden case, since every collaborator is at least a viewer.
+ */
+export const describeGuardedRoomAction = (name: string, action: GuardedRoomAction) => {
+  const { requiredRole, setup, run, expectAllowed, expectUnchanged, deniedResult = toDeniedActionError } = action;
+  const rank = ROLE_USERS.findIndex(([role]) => role === requiredRole);
+
+  const expectDenied = async (roomId: string, code: AuthorizationErrorCode) => {
+    await setup?.(roomId);
+
+    expect(await run(roomId)).toEqual(deniedResult(code));
+    await expectUnchanged?.(roomId);
+  };
+
+  describe(name, () => {
+    it(`is allowed to a ${requiredRole}`, async () => {
+      const roomId = createTestRoom();
+      await setup?.(roomId);
+      signInAs(ROLE_USERS[rank][1]);
+
+      await expectAllowed(await run(roomId), roomId);
+    });
+
+    it('is denied as unauthenticated when nobody is signed in', async () => {
+      await expectDenied(createTestRoom(), 'unauthenticated');
+    });
+
+    if (rank > 0) {
+      it(`is forbidden to a ${ROLE_USERS[rank - 1][0]}`, async () => {
+        const roomId = createTestRoom();
+        signInAs(ROLE_USERS[rank - 1][1]);
+
+        await expectDenied(roomId, 'forbidden');
+      });
+    }
+
+    it('is denied as not_found to a user without access', async () => {
+      const roomId = createTestRoom();
+      signInAs('stranger');
+
+      await expectDenied(roomId, 'not_found');
+    });
+
+    it('is denied as not_found for a room that does not exist', async () => {
+      signInAs('owner');
+
+      await expectDenied('missing-room', 'not_found');
+    });
+  });
+};
@@ -0,0 +1,43 @@
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeEach, vi } from 'vitest';
+
+import { resetFakes } from './fakes';
+
+// Every test file gets its own store, in a temporary directory, so files can run in parallel.
+const dataDir = mkdtempSync(path.join(os.tmpdir(), 'cloudscript-docs-'));
+
+process.env.DATA_DIR = dataDir;
+process.env.RECORD_BACKEND = 'local';
+
+vi.mock('@clerk/nextjs/server', async () => {
+  const { clerkClient, currentUser } = await import('./fakes');
+
+  return { clerkClient, currentUser };
+});
+
+vi.mock('@/lib/liveblocks', async () => {
+  const { liveblocks } = await import('./fakes');
+
+  return { liveblocks };
+});
+
+vi.mock('next/cache', () => ({ revalidatePath: vi.fn() }));
+
+vi.mock('next/navigation', () => ({ redirect: vi.fn() }));
+
+// Server actions log the errors they catch, which are expected in the denial cases.
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+beforeEach(() => {
+  // Tests that set the clock, e.g. to date a document or to expire a lockout, get the real one back.
+  vi.useRealTimers();
+  vi.clearAllMocks();
+  resetFakes();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+afterAll(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
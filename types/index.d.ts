@@ -4,21 +4,29 @@ declare type SearchParamProps = {
   searchParams: { [key: string]: string | string[] | undefined };
 };
 
-declare type AccessType = ["room:write"] | ["room:read", "room:presence:write"];
+declare type AccessType =
+  | ["room:write"]
+  | ["room:read", "room:presence:write", "comments:write"]
+  | ["room:read", "room:presence:write"];
 
 declare type RoomAccesses = Record<string, AccessType>;
 
-declare type UserType = "creator" | "editor" | "viewer";
+declare type UserType = "creator" | "editor" | "commenter" | "viewer";
 
 declare type RoomMetadata = {
   creatorId: string;
   email: string;
   title: string;
+  trashed?: "true";
+  trashedAt?: string;
+  trashedBy?: string;
+  folderId?: string;
 };
 
 declare type CreateDocumentParams = {
-  userId: string;
-  email: string;
+  title?: string;
+  content?: string;
+  folderId?: string;
 };
 
 declare type User = {
@@ -34,7 +42,6 @@ declare type ShareDocumentParams = {
   roomId: string;
   email: string;
   userType: UserType;
-  updatedBy: User;
 };
 
 declare type UserTypeSelectorParams = {
@@ -60,7 +67,8 @@ declare type CollaboratorProps = {
   email: string;
   creatorId: string;
   collaborator: User;
-  user: User;
+  isOnline?: boolean;
+  lastSeenAt?: string;
 };
 
 declare type CollaborativeRoomProps = {
@@ -71,10 +79,259 @@ declare type CollaborativeRoomProps = {
 };
 
 declare type AddDocumentBtnProps = {
-  userId: string;
+  folderId?: string;
+};
+
+declare type DeleteModalProps = { roomId: string; permanent?: boolean };
+
+declare type ThreadWrapperProps = { thread: ThreadData<BaseMetadata> };
+
+declare type SnapshotKind = "auto" | "manual" | "restore";
+
+declare type DocumentSnapshot = {
+  id: string;
+  roomId: string;
+  name?: string;
+  kind: SnapshotKind;
+  author: Pick<User, "id" | "name" | "email" | "avatar">;
+  createdAt: string;
+  content: string;
+};
+
+declare type DocumentSnapshotSummary = Omit<DocumentSnapshot, "content">;
+
+declare type CreateSnapshotParams = {
+  roomId: string;
+  content: string;
+  kind: SnapshotKind;
+  name?: string;
+};
+
+declare type VersionHistoryProps = {
+  roomId: string;
+  currentUserType: UserType;
+};
+
+declare type SuggestionsProps = {
+  currentUserType: UserType;
+};
+
+/**
+ * A point of a selection, located by the indexes of its node and of its ancestors from the root of the document.
+ * Node keys are local to each editor, while the structure of the document is the same for every collaborator.
+ */
+declare type CursorPoint = {
+  path: number[];
+  offset: number;
+  type: "text" | "element";
+};
+
+declare type CursorPresence = {
+  anchor: CursorPoint;
+  focus: CursorPoint;
+};
+
+declare type ActiveCollaboratorsProps = {
+  roomId: string;
+  currentUserType: UserType;
+  editorRef: EditorRef;
+  followingId: number | null;
+  onFollowingChange: (connectionId: number | null) => void;
+};
+
+/**
+ * The part of the document a user is looking at: the index of the first top-level block visible at the top
+ * of the editor, and how far into that block it is scrolled, from 0 to 1. Unlike a scroll offset in pixels,
+ * it does not depend on the size of the window of the user.
+ */
+declare type ViewportPresence = {
+  block: number;
+  progress: number;
+};
+
+/**
+ * What a user in the room is doing: "active" while they use the page, "idle" once they have not for a while
+ * or have switched to another tab, and "viewing" while active without edit access to the document.
+ */
+declare type PresenceStatus = "active" | "idle" | "viewing";
+
+/**
+ * When each user was last in a room, as ISO dates keyed by user ID.
+ */
+declare type LastSeenRecord = Record<string, string>;
+
+/**
+ * A heading listed in a table of contents: the key of its node, its text and its level, from 1 to 3.
+ */
+declare type TableOfContentsEntry = {
+  key: string;
+  text: string;
+  level: number;
+};
+
+declare type EditorRef = React.MutableRefObject<import("lexical").LexicalEditor | null>;
+
+declare type ExportMenuProps = {
+  roomId: string;
+  title: string;
+  editorRef: EditorRef;
+};
+
+declare type ImportResult = {
+  title: string;
+  content: string;
+  warnings: string[];
+};
+
+declare type ImportDocumentBtnProps = {
+  folderId?: string;
+};
+
+declare type DocumentTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  title: string;
+  builtIn: boolean;
+  createdBy?: Pick<User, "name" | "email">;
+  createdAt?: string;
+};
+
+declare type TeamTemplate = DocumentTemplate & { content: string };
+
+declare type SaveTemplateParams = {
+  roomId: string;
+  name: string;
+  description: string;
+  content: string;
+};
+
+declare type TemplatePickerProps = {
   email: string;
+  folderId?: string;
+};
+
+declare type SaveTemplateModalProps = {
+  roomId: string;
+  title: string;
+  editorRef: EditorRef;
+};
+
+declare type SearchSnippetPart = {
+  text: string;
+  match: boolean;
 };
 
-declare type DeleteModalProps = { roomId: string };
+declare type SearchSnippet = {
+  term: string;
+  parts: SearchSnippetPart[];
+  truncatedStart: boolean;
+  truncatedEnd: boolean;
+};
 
-declare type ThreadWrapperProps = { thread: ThreadData<BaseMetadata> };
\ No newline at end of file
+declare type SearchIndexEntry = {
+  roomId: string;
+  text: string;
+  updatedAt: string;
+};
+
+declare type SearchResult = {
+  roomId: string;
+  title: string;
+  titleParts: SearchSnippetPart[];
+  snippets: SearchSnippet[];
+  updatedAt: string;
+};
+
+declare type IndexDocumentParams = {
+  roomId: string;
+  content: string;
+};
+
+declare type Folder = {
+  id: string;
+  name: string;
+  parentId: string | null;
+  createdBy: string;
+  createdAt: string;
+  usersAccesses: Record<string, UserType>;
+};
+
+declare type CreateFolderParams = {
+  name: string;
+  parentId: string | null;
+};
+
+declare type ShareFolderParams = {
+  folderId: string;
+  email: string;
+  userType: UserType;
+};
+
+declare type MoveModalProps = {
+  itemType: "document" | "folder";
+  itemId: string;
+  folders: Folder[];
+  currentFolderId: string | null;
+  email: string;
+};
+
+declare type ShareLink = {
+  token: string;
+  roomId: string;
+  userType: UserType;
+  expiresAt: string | null;
+  passwordHash: string | null;
+  createdBy: string;
+  createdAt: string;
+};
+
+declare type ShareLinkAttempts = {
+  failures: number;
+  lockedUntil: string | null;
+};
+
+declare type ShareLinkSettings = Omit<ShareLink, "passwordHash"> & {
+  hasPassword: boolean;
+};
+
+declare type SaveShareLinkParams = {
+  roomId: string;
+  userType: UserType;
+  expiresAt: string | null;
+  password?: string;
+};
+
+declare type AuditAction =
+  | "document.created"
+  | "document.renamed"
+  | "document.trashed"
+  | "document.restored"
+  | "document.deleted"
+  | "access.updated"
+  | "access.removed"
+  | "ownership.transferred";
+
+declare type AuditEvent = {
+  id: string;
+  roomId: string;
+  action: AuditAction;
+  actor: Pick<User, "name" | "email">;
+  target?: string;
+  details?: {
+    from?: string;
+    to?: string;
+  };
+  createdAt: string;
+};
+
+declare type AuditExportFormat = "json" | "csv";
+
+declare type AuthorizationErrorCode = "unauthenticated" | "forbidden" | "not_found";
+
+declare type ActionError = {
+  error: {
+    code: AuthorizationErrorCode;
+    message: string;
+  };
+};